@@ -5,6 +5,7 @@ export enum UserRole {
   SUPER_ADMIN = 'super_admin',
   ADMIN = 'admin',
   MODERATOR = 'moderator',
+  JUDGE = 'judge',
   USER = 'user',
   GUEST = 'guest',
 }
@@ -45,6 +46,10 @@ export enum Permission {
   ADMIN_VIEW_LOGS = 'admin:view_logs',
   ADMIN_MANAGE_USERS = 'admin:manage_users',
 
+  // Permisos de Jurado
+  JUDGING_SCORE = 'judging:score',
+  JUDGING_MANAGE = 'judging:manage',
+
   // Permisos de Reportes
   REPORT_VIEW = 'report:view',
   REPORT_EXPORT = 'report:export',
@@ -84,6 +89,9 @@ export const RolePermissions: Record<UserRole, Permission[]> = {
     Permission.NOMINATION_APPROVE,
     Permission.NOMINATION_REJECT,
 
+    // Permisos de jurado
+    Permission.JUDGING_MANAGE,
+
     // Permisos de administración
     Permission.ADMIN_ACCESS,
     Permission.ADMIN_VIEW_LOGS,
@@ -116,6 +124,26 @@ export const RolePermissions: Record<UserRole, Permission[]> = {
     Permission.REPORT_EXPORT,
   ],
 
+  [UserRole.JUDGE]: [
+    // Permisos básicos de empleados
+    Permission.EMPLOYEE_READ,
+
+    // Permisos básicos de votación
+    Permission.VOTING_READ,
+    Permission.VOTING_NOMINATE,
+    Permission.VOTING_VOTE,
+
+    // Permisos básicos de nominaciones
+    Permission.NOMINATION_READ,
+    Permission.NOMINATION_CREATE,
+
+    // Permisos de jurado
+    Permission.JUDGING_SCORE,
+
+    // Permisos básicos de reportes
+    Permission.REPORT_VIEW,
+  ],
+
   [UserRole.USER]: [
     // Permisos básicos de empleados
     Permission.EMPLOYEE_READ,
@@ -148,6 +176,7 @@ export const RoleHierarchy: Record<UserRole, number> = {
   [UserRole.SUPER_ADMIN]: 5,
   [UserRole.ADMIN]: 4,
   [UserRole.MODERATOR]: 3,
+  [UserRole.JUDGE]: 2,
   [UserRole.USER]: 2,
   [UserRole.GUEST]: 1,
 };
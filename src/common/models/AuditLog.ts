@@ -7,6 +7,15 @@ export enum AuditAction {
   ACTIVATE = 'activate',
   DEACTIVATE = 'deactivate',
   STATUS_CHANGE = 'status_change',
+  APPROVE = 'approve',
+  REJECT = 'reject',
+  REDRAW = 'redraw',
+  PUBLISH = 'publish',
+  EXTEND = 'extend',
+  REOPEN = 'reopen',
+  RESTORE = 'restore',
+  PURGE = 'purge',
+  DISQUALIFY = 'disqualify',
 }
 
 export enum AuditEntity {
@@ -14,6 +23,10 @@ export enum AuditEntity {
   EMPLOYEE = 'employee',
   NOMINATION = 'nomination',
   WINNER = 'winner',
+  JUDGING = 'judging',
+  PROGRAM = 'program',
+  YEARLY_AWARD = 'yearly_award',
+  REWARD = 'reward',
 }
 
 export interface AuditLog {
@@ -0,0 +1,53 @@
+import { Criteria } from '../../modules/voting/dto/create-nomination.dto';
+import { VoteResult } from './VoteResult';
+
+export interface JudgeAssignment {
+  employeeId: string;
+  employeeName: string;
+  assignedAt: Date;
+  assignedBy: string;
+}
+
+export interface ConflictOfInterest {
+  judgeEmployeeId: string;
+  finalistEmployeeId: string;
+  reason: string;
+  declaredAt: Date;
+  declaredBy: string;
+}
+
+export interface JudgingResult extends VoteResult {
+  judgeCount: number; // Judges that scored this finalist
+  judgeAverageCriteria: Criteria;
+  peerScore: number; // Share of the group's nominations, 0-1
+  judgeScore: number; // Average judge score normalized to the criteria scale, 0-1
+  finalScore: number; // peerWeight * peerScore + (1 - peerWeight) * judgeScore
+  finalRank: number; // Rank within the voting group after blending
+  originalRank: number; // Rank from the peer nominations
+}
+
+export interface JudgingRound {
+  finalistsPerGroup: number;
+  peerWeight: number; // Weight of the peer nomination data in the final score, 0-1
+  finalists: VoteResult[]; // Snapshot of the top-N per voting group when the round started
+  winnersPerGroup: Record<string, number>; // Winner slots per voting group from the peer results
+  judges: JudgeAssignment[];
+  conflicts: ConflictOfInterest[];
+  startedAt: Date;
+  startedBy: string;
+  completedAt?: Date;
+  completedBy?: string;
+  results?: JudgingResult[]; // Final blended ranking, set when the round is completed
+}
+
+export interface JudgeScore {
+  id: string;
+  votingPeriodId: string;
+  judgeEmployeeId: string;
+  judgeName: string;
+  finalistEmployeeId: string;
+  criteria: Criteria;
+  comment?: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
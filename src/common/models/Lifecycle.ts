@@ -0,0 +1,21 @@
+import { LifecycleConfig } from '../../modules/configuration/models/lifecycle-config.model';
+
+export type LifecycleActionType = 'activate' | 'close' | 'select_winner';
+
+export interface LifecycleAction {
+  type: LifecycleActionType;
+  votingPeriodId: string;
+  programId: string;
+  year: number;
+  month: number;
+  reason: string;
+  status?: 'done' | 'failed' | 'skipped'; // Only set once the action has run
+  error?: string;
+}
+
+export interface LifecyclePlan {
+  evaluatedAt: Date;
+  schedule: string; // NCRONTAB expression of the timer trigger
+  config: LifecycleConfig;
+  actions: LifecycleAction[];
+}
@@ -1,13 +1,26 @@
 import { Criteria } from '../../modules/voting/dto/create-nomination.dto';
 
+export enum NominationStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
 export interface Nomination {
   id: string;
   nominatedEmployeeId: string;
   nominatorUserName: string;
   nominatorUserId: string;
   votingPeriodId: string;
+  programId?: string; // Copied from the voting period
   reason: string;
   criteria: Criteria;
+  status?: NominationStatus; // Nominations created before moderation existed have no status and count as approved
+  reviewedBy?: string; // userId of the moderator who approved/rejected the nomination
+  reviewedByName?: string;
+  reviewedAt?: Date;
+  reviewReason?: string; // Required when rejecting, optional when approving
+  crossVotingGroup?: boolean; // Nominator and nominee were in different voting groups when submitted
   createdAt: Date;
   updatedAt?: Date;
 }
@@ -17,5 +30,10 @@ export interface NominationWithEmployee extends Nomination {
     fullName: string;
     department: string;
     position: string;
+    votingGroup?: string;
   };
 }
+
+export interface CrossGroupNomination extends NominationWithEmployee {
+  nominatorVotingGroup?: string;
+}
@@ -0,0 +1,38 @@
+/**
+ * Voting group and eligibility of an employee as of the opening of a voting period
+ */
+export interface PeriodMember {
+  employeeId: string;
+  employeeName: string;
+  votingGroup?: string;
+  votingEligible: boolean;
+}
+
+export interface PeriodMembership {
+  id: string; // membership-{votingPeriodId}
+  votingPeriodId: string;
+  programId: string;
+  members: PeriodMember[]; // Active employees at capture time
+  capturedAt: Date;
+  capturedBy: string; // userId, 'system' for the lifecycle job
+  refreshedAt?: Date;
+  refreshedBy?: string;
+}
+
+export interface PeriodMembershipChange {
+  employeeId: string;
+  employeeName: string;
+  field: 'votingGroup' | 'votingEligible';
+  snapshotValue: string | boolean | undefined;
+  currentValue: string | boolean | undefined;
+}
+
+export interface PeriodMembershipDiff {
+  votingPeriodId: string;
+  capturedAt: Date;
+  added: PeriodMember[]; // Active now but not in the snapshot
+  removed: PeriodMember[]; // In the snapshot but no longer active
+  changes: PeriodMembershipChange[];
+  hasChanges: boolean;
+  applied: boolean;
+}
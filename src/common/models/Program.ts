@@ -0,0 +1,40 @@
+import { EligibilityConfig } from '../../modules/configuration/models/eligibility-config.model';
+import { CriterionDefinition } from '../../modules/configuration/models/criteria-config.model';
+import { ModerationConfig } from '../../modules/configuration/models/moderation-config.model';
+import { NominationPolicyConfig } from '../../modules/configuration/models/nomination-policy-config.model';
+import { RankingPolicyConfig } from '../../modules/configuration/models/ranking-policy-config.model';
+import { WinnerSelectionConfig } from '../../modules/configuration/models/winner-selection-config.model';
+import { RewardDefinition } from './WinnerReward';
+
+// Periods, nominations and winners created before programs existed have no programId
+// and belong to this program
+export const DEFAULT_PROGRAM_ID = 'employee-of-the-month';
+
+export interface Program {
+  id: string; // Slug, e.g. 'safety-champion'
+  name: string;
+  description?: string;
+  isActive: boolean; // Inactive programs keep their history but can't get new periods
+  eligibility?: Partial<EligibilityConfig>; // Overrides the global eligibility config
+  criteria?: CriterionDefinition[]; // Replaces the criteria catalog for the program's periods
+  moderation?: Partial<ModerationConfig>; // Overrides the global moderation config
+  nominationPolicy?: Partial<NominationPolicyConfig>; // Overrides the global nomination policy
+  rankingPolicy?: Partial<RankingPolicyConfig>; // Overrides the global ranking policy
+  winnerSelection?: Partial<WinnerSelectionConfig>; // Overrides the global winner selection config
+  rewards?: RewardDefinition[]; // Prizes assigned to the program's winners
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEFAULT_PROGRAM: Omit<Program, 'createdAt' | 'updatedAt'> = {
+  id: DEFAULT_PROGRAM_ID,
+  name: 'Employee of the Month',
+  isActive: true,
+};
+
+export interface ProgramMigrationResult {
+  programId: string;
+  votingPeriods: number;
+  nominations: number;
+  winners: number;
+}
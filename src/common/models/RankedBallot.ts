@@ -0,0 +1,40 @@
+export const MAX_RANKED_CHOICES = 3;
+
+export interface RankedBallot {
+  id: string;
+  year: number; // Yearly award the ballot belongs to
+  voterUserId: string;
+  voterUserName: string;
+  committee?: boolean; // Cast by a committee member for a committee vote
+  rankings: string[]; // Candidate employee IDs, most preferred first
+  createdAt: Date;
+}
+
+export interface RunoffRound {
+  round: number;
+  tallies: Record<string, number>; // Ballots counting for each remaining candidate
+  exhaustedBallots: number; // Ballots with no remaining candidate left to count for
+  eliminated: string[]; // Candidates dropped at the end of this round
+}
+
+export interface RunoffResult {
+  candidates: string[];
+  totalBallots: number;
+  rounds: RunoffRound[];
+  winner?: string;
+  isTied: boolean; // The last remaining candidates had the same number of ballots
+}
+
+export interface YearlyCandidate {
+  employeeId: string;
+  employeeName: string;
+  department: string;
+  position: string;
+  months: number[]; // Months of the year the employee won in the candidate pool
+  totalNominations: number; // Nominations across those wins
+}
+
+export interface YearlyRunoff extends RunoffResult {
+  year: number;
+  candidateDetails: YearlyCandidate[];
+}
@@ -0,0 +1,45 @@
+import { Nomination } from './Nomination';
+import { Vote } from './Vote';
+import { VotingPeriod } from './VotingPeriod';
+import { WinnerHistory } from './WinnerHistory';
+import { WinnerReward } from './WinnerReward';
+
+export type RecycleBinEntryStatus = 'archived' | 'restored';
+
+/**
+ * Everything a voting period reset removed, kept so the reset can be undone
+ */
+export interface RecycleBinEntry {
+  id: string; // recycle-{votingPeriodId}-{timestamp}
+  votingPeriodId: string;
+  programId: string;
+  status: RecycleBinEntryStatus;
+  period: VotingPeriod; // The period as it was before the reset
+  periodDeleted: boolean; // The system reset deletes the period itself
+  nominations: Nomination[];
+  winners: WinnerHistory[];
+  votes: Vote[];
+  rewards?: WinnerReward[]; // Pending rewards of the winners; missing in entries archived before rewards
+  archivedAt: Date;
+  archivedBy: string; // userId, 'system' when unknown
+  archivedByName: string;
+  expiresAt: Date; // Restorable until then
+  restoredAt?: Date;
+  restoredBy?: string;
+  purgeConfirmation?: {
+    // SHA-256 of the token a super admin must send back to purge the entry
+    tokenHash: string;
+    expiresAt: Date;
+    requestedBy: string;
+  };
+}
+
+export interface RecycleBinRestoreResult {
+  entryId: string;
+  votingPeriodId: string;
+  periodRestored: boolean;
+  nominationsRestored: number;
+  winnersRestored: number;
+  votesRestored: number;
+  rewardsRestored: number;
+}
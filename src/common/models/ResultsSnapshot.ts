@@ -0,0 +1,42 @@
+import { VotingPeriodResults } from './VoteResult';
+
+export type ResultsSnapshotTrigger = 'close' | 'winner_selection';
+
+/**
+ * Results of a period as they were when it was closed or its winners were selected.
+ * Snapshots are never updated; a new one is stored instead.
+ */
+export interface ResultsSnapshot {
+  id: string;
+  votingPeriodId: string;
+  programId: string;
+  trigger: ResultsSnapshotTrigger;
+  results: VotingPeriodResults;
+  generalWinnerEmployeeId?: string; // Only on winner selection snapshots
+  contentHash: string; // SHA-256 of the canonical JSON of results
+  takenAt: Date;
+  takenBy?: string; // userId, 'system' for the lifecycle job
+}
+
+export interface ResultsDriftChange {
+  employeeId: string;
+  employeeName: string;
+  field: string;
+  snapshotValue: unknown;
+  currentValue: unknown;
+}
+
+export interface ResultsDrift {
+  votingPeriodId: string;
+  snapshotId: string;
+  snapshotTakenAt: Date;
+  contentHash: string;
+  hashVerified: boolean; // The stored results still match the stored hash
+  currentHash: string; // Hash of a fresh recompute
+  hasDrift: boolean;
+  totalNominations: { snapshot: number; current: number };
+  winnersChanged: boolean;
+  addedEmployeeIds: string[]; // In the recompute but not in the snapshot
+  removedEmployeeIds: string[]; // In the snapshot but not in the recompute
+  changes: ResultsDriftChange[];
+}
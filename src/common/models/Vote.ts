@@ -0,0 +1,26 @@
+export const DEFAULT_SHORTLIST_SIZE = 3;
+
+export interface VotingPhase {
+  startDate: Date; // Nominations close and the final vote opens
+  endDate: Date;
+  shortlistSize: number; // Top nominees per voting group (by nomination rank) on the ballot
+  shortlist?: string[]; // Employee IDs, frozen when the first vote is cast
+}
+
+export interface Vote {
+  id: string;
+  votingPeriodId: string;
+  voterUserId: string;
+  voterUserName: string;
+  nominatedEmployeeId: string;
+  votingGroup?: string;
+  createdAt: Date;
+}
+
+export interface ShortlistedNominee {
+  employeeId: string;
+  employeeName: string;
+  department: string;
+  position: string;
+  votingGroup?: string;
+}
@@ -1,4 +1,6 @@
 import { Criteria } from '../../modules/voting/dto/create-nomination.dto';
+import { CriterionDefinition } from '../../modules/configuration/models/criteria-config.model';
+import { WinnerCitation, WinnerType } from './WinnerHistory';
 
 export interface VoteResult {
   votingPeriodId: string;
@@ -9,14 +11,31 @@ export interface VoteResult {
   nominationCount: number;
   percentage: number;
   rank: number;
+  compositeScore?: number; // Weighted criteria score used by the ranking policy
+  isTied?: boolean; // Still tied after the tie-breakers, or left for the committee to decide
   averageCriteria: Criteria;
   votingGroup?: string;
+  shortlisted?: boolean; // On the ballot of the voting phase
+  finalVotes?: number; // Votes received in the voting phase, counted apart from nominations
+  finalVotePercentage?: number;
   reasons?: {
+    nominationId?: string;
     comment: string;
     username: string;
     date: Date;
     criteria: Criteria;
   }[];
+  citation?: WinnerCitation; // Approved citation, only on saved winners
+}
+
+// A top-ranked employee passed over by the winner cooldown
+export interface WinnerCooldownSkip {
+  employeeId: string;
+  employeeName: string;
+  votingGroup?: string;
+  winnerType: WinnerType; // The win that was refused
+  lastWinVotingPeriodId: string; // Most recent period they won in
+  reason: string;
 }
 
 export interface VotingPeriodResults {
@@ -25,12 +44,15 @@ export interface VotingPeriodResults {
     year: number;
     month: number;
     status: string;
+    criteria: CriterionDefinition[];
   };
   totalNominations: number;
+  totalFinalVotes?: number; // Only for periods with a voting phase
   averageVotes: number;
   results: VoteResult[];
   winner?: VoteResult;
   winners?: VoteResult[];
+  skippedWinners?: WinnerCooldownSkip[]; // Group winners replaced by the next person in the group
 }
 
 export interface WinnersContainer {
@@ -1,16 +1,59 @@
+import { CriterionDefinition } from '../../modules/configuration/models/criteria-config.model';
+import { GeneralWinnerStrategy } from '../../modules/configuration/models/winner-selection-config.model';
+import { PeriodCadence } from '../../modules/configuration/models/period-template-config.model';
+import { JudgingRound } from './Judging';
+import { VotingPhase } from './Vote';
+
 export enum VotingPeriodStatus {
   ACTIVE = 'active',
+  JUDGING = 'judging', // Nominations closed, finalists are being scored by the judging panel
   CLOSED = 'closed',
   PENDING = 'pending'
 }
 
+export interface PeriodAdjustment {
+  type: 'extend' | 'reopen';
+  reason: string;
+  previousEndDate: Date;
+  newEndDate: Date;
+  previousStatus: VotingPeriodStatus;
+  adjustedAt: Date;
+  adjustedBy: string; // userId
+  adjustedByName: string;
+}
+
+// Dates of a period rendered in the organization's timezone, e.g. 2025-10-31T23:59:59.999-06:00
+export interface VotingPeriodLocalTimes {
+  timezone: string;
+  startDate: string;
+  endDate: string;
+  votingPhase?: { startDate: string; endDate: string };
+}
+
 export interface VotingPeriod {
   id: string;
-  year: number;
+  programId?: string; // Recognition program, missing on periods created before programs existed
+  name?: string; // Display name rendered from the period template's naming pattern
+  cadence?: PeriodCadence; // Set on periods generated from the period template
+  year: number; // Year and month of the start date
   month: number;
   startDate: Date;
   endDate: Date;
   status: VotingPeriodStatus;
+  criteria?: CriterionDefinition[]; // Snapshot of the criteria catalog when the period was created
+  generalWinnerStrategy?: GeneralWinnerStrategy; // Overrides the global winner selection setting
+  judging?: JudgingRound; // Optional committee judging round after nominations close
+  votingPhase?: VotingPhase; // Optional peer vote among the shortlisted nominees
+  publishedAt?: Date; // Results stay hidden from regular users until an admin publishes them
+  publishedBy?: string; // userId of the admin who published the results
+  publishedByName?: string;
+  adjustments?: PeriodAdjustment[]; // Extensions and reopenings, oldest first
+  drawCommitment?: {
+    // SHA-256 of the winner draw seed, stored before the draw runs
+    seedHash: string;
+    committedAt: Date;
+  };
+  localTimes?: VotingPeriodLocalTimes; // Added to responses, not stored
   createdAt: Date;
   updatedAt: Date;
 }
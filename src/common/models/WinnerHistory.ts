@@ -1,4 +1,6 @@
 import { Criteria } from '../../modules/voting/dto/create-nomination.dto';
+import { GeneralWinnerStrategy } from '../../modules/configuration/models/winner-selection-config.model';
+import { WinnerCooldownSkip } from './VoteResult';
 
 export enum WinnerType {
   GENERAL = 'general', // Ganador único del período (seleccionado aleatoriamente)
@@ -12,9 +14,90 @@ export interface Reaction {
   timestamp: Date;
 }
 
+export interface WinnerDraw {
+  seed: string; // Semilla revelada después del sorteo
+  seedHash: string; // SHA-256 de la semilla, comprometido antes del sorteo
+  committedAt: Date;
+  candidateOrder: string[]; // employeeIds en el orden usado para el sorteo
+  weights?: number[]; // Número de nominaciones por candidato en un sorteo ponderado
+  index: number; // Posición ganadora dentro de candidateOrder
+  drawnAt: Date;
+  redrawReason?: string; // Motivo dado por el admin si es un nuevo sorteo
+  redrawnBy?: string;
+  uncommittedSeedReason?: string; // Motivo del admin para sortear sin semilla comprometida de antemano
+}
+
+// Semilla del próximo sorteo de un período. Solo su hash se publica en el período; la semilla
+// se revela en el registro del ganador al sortear
+export interface DrawSeed {
+  id: string; // votingPeriodId
+  votingPeriodId: string;
+  seed: string;
+  seedHash: string;
+  committedAt: Date;
+}
+
+export interface DrawVerification {
+  votingPeriodId: string;
+  winnerId: string;
+  winnerEmployeeId: string;
+  superseded: boolean; // Sorteo reemplazado por un nuevo sorteo
+  draw: WinnerDraw;
+  seedMatchesCommitment: boolean; // SHA-256(seed) === seedHash
+  recomputedIndex: number;
+  recomputedEmployeeId: string;
+  verified: boolean;
+}
+
+export interface WinnerDisqualification {
+  reason: string;
+  disqualifiedAt: Date;
+  disqualifiedBy: string; // userId
+  disqualifiedByName: string;
+  replacedByWinnerId?: string; // Registro que ocupa su lugar, si hubo a quién promover
+}
+
+export interface WinnerDisqualificationResult {
+  disqualified: WinnerHistory[]; // Registros del empleado en el período (por grupo y general)
+  promotedWinner?: WinnerHistory; // Siguiente en el ranking del grupo
+  generalWinner?: WinnerHistory; // Nuevo ganador general, si el descalificado lo era
+}
+
+export interface CitationQuote {
+  nominationId: string;
+  text: string; // Motivo de la nominación, tal cual o editado por el admin
+  edited: boolean;
+  nominatorName?: string; // Se omite si la cita anonimiza a los nominadores
+}
+
+export interface WinnerCitation {
+  summary?: string; // Introducción escrita por el admin
+  quotes: CitationQuote[]; // En el orden en que aparecen
+  anonymizeNominators: boolean;
+  text: string; // Cita compuesta, tal como aparece en el anuncio
+  approvedAt: Date;
+  approvedBy: string; // userId
+  approvedByName: string;
+}
+
+// Motivos de nominación entre los que el admin elige las citas
+export interface WinnerCitationDraft {
+  winnerId: string;
+  employeeId: string;
+  employeeName: string;
+  reasons: {
+    nominationId: string;
+    comment: string;
+    nominatorName: string;
+    date: Date;
+  }[];
+  citation?: WinnerCitation; // Cita aprobada actualmente
+}
+
 export interface WinnerHistory {
   id: string;
   votingPeriodId: string;
+  programId?: string; // Copied from the voting period
   year: number;
   month: number;
   employeeId: string;
@@ -24,10 +107,23 @@ export interface WinnerHistory {
   nominationCount: number;
   percentage: number;
   rank: number;
+  compositeScore?: number; // Puntuación compuesta según la política de ranking
+  isTied?: boolean; // Empate no resuelto por los criterios de desempate
   averageCriteria: Criteria;
   votingGroup?: string;
   winnerType: WinnerType; // Tipo de ganador
   isYearlyWinner?: boolean; // Marca si es el ganador del año
   reactions?: Reaction[]; // Reacciones de los usuarios al ganador
+  selectionStrategy?: GeneralWinnerStrategy; // Estrategia que produjo el ganador general
+  draw?: WinnerDraw; // Datos del sorteo verificable (solo ganador general)
+  cooldownSkips?: WinnerCooldownSkip[]; // Candidatos omitidos por haber ganado recientemente (solo ganador general)
+  disqualified?: boolean; // Se conserva para auditoría, pero ya no cuenta como ganador
+  disqualification?: WinnerDisqualification;
+  replacesWinnerId?: string; // Registro descalificado al que sustituye
+  superseded?: boolean; // Ganador general reemplazado por un nuevo sorteo; se conserva para verificar su sorteo
+  supersededAt?: Date;
+  supersededByWinnerId?: string;
+  citation?: WinnerCitation; // Cita aprobada a partir de los motivos de nominación
+  publishedAt?: Date; // Copiado del período al publicar los resultados
   createdAt: Date;
 }
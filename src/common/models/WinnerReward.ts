@@ -0,0 +1,63 @@
+import { WinnerType } from './WinnerHistory';
+
+export enum RewardStatus {
+  PENDING = 'pending', // Assigned, nobody has acted on it yet
+  ORDERED = 'ordered',
+  DELIVERED = 'delivered',
+  DECLINED = 'declined', // The winner turned it down
+}
+
+// Rewards the owner still has to take care of
+export const OUTSTANDING_REWARD_STATUSES: RewardStatus[] = [
+  RewardStatus.PENDING,
+  RewardStatus.ORDERED,
+];
+
+// Statuses a reward can move to from each status. Delivered and declined are final.
+export const REWARD_STATUS_TRANSITIONS: Record<RewardStatus, RewardStatus[]> = {
+  [RewardStatus.PENDING]: [RewardStatus.ORDERED, RewardStatus.DELIVERED, RewardStatus.DECLINED],
+  [RewardStatus.ORDERED]: [RewardStatus.DELIVERED, RewardStatus.DECLINED],
+  [RewardStatus.DELIVERED]: [],
+  [RewardStatus.DECLINED]: [],
+};
+
+/**
+ * Entry of a program's reward catalogue. Every winner of the given type gets one reward per
+ * matching entry when the winners are saved.
+ */
+export interface RewardDefinition {
+  id: string; // Slug, unique within the program, e.g. 'gift-card'
+  winnerType: WinnerType;
+  name: string; // e.g. 'Gift card', 'Parking spot for a month', 'Day off'
+  description?: string;
+  ownerUserId: string; // Person responsible for ordering and handing it over
+  ownerName: string;
+  ownerEmail?: string;
+}
+
+export interface WinnerReward {
+  id: string; // reward-{winnerId}-{rewardId}
+  rewardId: string; // RewardDefinition the reward was assigned from
+  name: string;
+  description?: string;
+  programId: string;
+  votingPeriodId: string;
+  year: number;
+  month: number;
+  winnerId: string; // WinnerHistory record
+  winnerType: WinnerType;
+  employeeId: string;
+  employeeName: string;
+  status: RewardStatus;
+  ownerUserId: string;
+  ownerName: string;
+  ownerEmail?: string;
+  notes?: string; // e.g. order number, parking spot, the date of the day off
+  assignedAt: Date;
+  orderedAt?: Date;
+  deliveredAt?: Date;
+  declinedAt?: Date;
+  updatedAt: Date;
+  updatedBy?: string; // userId
+  updatedByName?: string;
+}
@@ -0,0 +1,38 @@
+import {
+  YearlyCandidatePool,
+  YearlySelectionMethod,
+} from '../../modules/configuration/models/yearly-award-config.model';
+import { YearlyCandidate, YearlyRunoff } from './RankedBallot';
+
+export enum YearlyAwardStatus {
+  OPEN = 'open', // Candidates are fixed and ballots are taken
+  DECIDED = 'decided',
+}
+
+/**
+ * Yearly award of the Employee of the Month program. There is one document per year, so
+ * opening or marking a second yearly winner for the same year fails on the duplicate id.
+ */
+export interface YearlyAward {
+  id: string; // yearly-award-{year}
+  year: number;
+  candidatePool: YearlyCandidatePool;
+  selectionMethod: YearlySelectionMethod | 'manual'; // manual: flagged by an admin by hand
+  status: YearlyAwardStatus;
+  candidates: YearlyCandidate[]; // Fixed when the award is opened
+  openedAt: Date;
+  openedBy: string; // userId
+  openedByName: string;
+  winnerRecordId?: string; // WinnerHistory record flagged as the yearly winner
+  winnerEmployeeId?: string;
+  tieBrokenBy?: string; // userId of the admin who broke a tie
+  decidedAt?: Date;
+  decidedBy?: string; // userId
+  decidedByName?: string;
+  _etag?: string; // Cosmos DB concurrency token, checked when the award is decided
+}
+
+export interface YearlyAwardDecision {
+  award: YearlyAward;
+  runoff?: YearlyRunoff; // Only for the vote methods
+}
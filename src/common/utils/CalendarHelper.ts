@@ -0,0 +1,187 @@
+import { CalendarConfig } from '../../modules/configuration/models/calendar-config.model';
+import { VotingPeriod, VotingPeriodLocalTimes } from '../models/VotingPeriod';
+
+// Longest run of non-business days a period end is moved over before giving up
+const MAX_SHIFT_DAYS = 366;
+
+export interface LocalDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  weekday: number; // 0 = Sunday
+}
+
+/**
+ * Date arithmetic in the organization's timezone. Azure Functions run in UTC, so anything
+ * built with the server's local time (new Date(year, month, day)) is off by the UTC offset.
+ */
+export class CalendarHelper {
+  static isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Wall-clock date and time of an instant in the timezone
+   */
+  static getLocalParts(date: Date, timezone: string): LocalDateParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(date);
+    const value = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find(part => part.type === type)?.value);
+
+    const year = value('year');
+    const month = value('month');
+    const day = value('day');
+    return {
+      year,
+      month,
+      day,
+      // Some ICU versions render midnight as 24 with hour12: false
+      hour: value('hour') % 24,
+      minute: value('minute'),
+      second: value('second'),
+      millisecond: date.getUTCMilliseconds(),
+      weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    };
+  }
+
+  /**
+   * Instant of a wall-clock time in the timezone. Out-of-range values roll over like they do
+   * with Date (month 13 is January of the next year, day 0 the last day of the previous month).
+   */
+  static fromLocal(
+    timezone: string,
+    year: number,
+    month: number,
+    day = 1,
+    hour = 0,
+    minute = 0,
+    second = 0,
+    millisecond = 0
+  ): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+    const offset = this.getOffsetMs(new Date(wallClock), timezone);
+    const result = wallClock - offset;
+    // The offset at the result differs when a DST change falls between both instants
+    const correctedOffset = this.getOffsetMs(new Date(result), timezone);
+    return new Date(correctedOffset === offset ? result : wallClock - correctedOffset);
+  }
+
+  static getMonthStart(year: number, month: number, timezone: string): Date {
+    return this.fromLocal(timezone, year, month, 1);
+  }
+
+  static getMonthEnd(year: number, month: number, timezone: string): Date {
+    return new Date(this.fromLocal(timezone, year, month + 1, 1).getTime() - 1);
+  }
+
+  /**
+   * Date in the timezone as YYYY-MM-DD, the format holidays are configured in
+   */
+  static toLocalDateKey(date: Date, timezone: string): string {
+    const { year, month, day } = this.getLocalParts(date, timezone);
+    return `${year}-${this.pad(month)}-${this.pad(day)}`;
+  }
+
+  /**
+   * ISO 8601 rendering with the timezone's offset, e.g. 2025-10-31T23:59:59.999-06:00
+   */
+  static formatLocal(date: Date, timezone: string): string {
+    const parts = this.getLocalParts(date, timezone);
+    const offsetMinutes = Math.round(this.getOffsetMs(date, timezone) / 60000);
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const absolute = Math.abs(offsetMinutes);
+
+    return (
+      `${parts.year}-${this.pad(parts.month)}-${this.pad(parts.day)}` +
+      `T${this.pad(parts.hour)}:${this.pad(parts.minute)}:${this.pad(parts.second)}` +
+      `.${parts.millisecond.toString().padStart(3, '0')}` +
+      `${sign}${this.pad(Math.floor(absolute / 60))}:${this.pad(absolute % 60)}`
+    );
+  }
+
+  static isBusinessDay(date: Date, calendar: CalendarConfig): boolean {
+    const { weekday } = this.getLocalParts(date, calendar.timezone);
+    return (
+      !calendar.weekendDays.includes(weekday) &&
+      !calendar.holidays.includes(this.toLocalDateKey(date, calendar.timezone))
+    );
+  }
+
+  /**
+   * Move a period end that falls on a weekend or holiday to the same local time of the next
+   * business day. Returns the date unchanged when shifting is disabled.
+   */
+  static shiftToBusinessDay(date: Date, calendar: CalendarConfig): Date {
+    if (!calendar.shiftEndToBusinessDay) {
+      return date;
+    }
+
+    let shifted = date;
+    for (let i = 0; i < MAX_SHIFT_DAYS && !this.isBusinessDay(shifted, calendar); i++) {
+      const parts = this.getLocalParts(shifted, calendar.timezone);
+      shifted = this.fromLocal(
+        calendar.timezone,
+        parts.year,
+        parts.month,
+        parts.day + 1,
+        parts.hour,
+        parts.minute,
+        parts.second,
+        parts.millisecond
+      );
+    }
+    return shifted;
+  }
+
+  static getLocalTimes(period: VotingPeriod, timezone: string): VotingPeriodLocalTimes {
+    const render = (date: Date) => this.formatLocal(new Date(date), timezone);
+    return {
+      timezone,
+      startDate: render(period.startDate),
+      endDate: render(period.endDate),
+      ...(period.votingPhase && {
+        votingPhase: {
+          startDate: render(period.votingPhase.startDate),
+          endDate: render(period.votingPhase.endDate),
+        },
+      }),
+    };
+  }
+
+  // Wall-clock time in the timezone minus UTC, at the given instant
+  private static getOffsetMs(date: Date, timezone: string): number {
+    const parts = this.getLocalParts(date, timezone);
+    const wallClock = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      parts.millisecond
+    );
+    return wallClock - date.getTime();
+  }
+
+  private static pad(value: number): string {
+    return value.toString().padStart(2, '0');
+  }
+}
@@ -34,7 +34,7 @@ export class CosmosClient {
   }
 
   async initializeContainers(): Promise<void> {
-    const containers = ["employees", "nominations", "votingPeriods", "winnerHistory", "auditLogs"];
+    const containers = ["employees", "nominations", "votingPeriods", "winnerHistory", "auditLogs", "judgeScores", "votes", "rankedBallots", "programs", "resultsSnapshots", "periodMemberships", "recycleBin", "yearlyAwards", "winnerRewards", "drawSeeds"];
 
     for (const containerId of containers) {
       await this.getContainer(containerId);
@@ -1,9 +1,18 @@
+import { CalendarHelper } from './CalendarHelper';
+
 export class DateHelper {
-  static getMonthStart(year: number, month: number): Date {
+  // Without a timezone these use the server's local time, which is UTC on Azure Functions
+  static getMonthStart(year: number, month: number, timezone?: string): Date {
+    if (timezone) {
+      return CalendarHelper.getMonthStart(year, month, timezone);
+    }
     return new Date(year, month - 1, 1);
   }
 
-  static getMonthEnd(year: number, month: number): Date {
+  static getMonthEnd(year: number, month: number, timezone?: string): Date {
+    if (timezone) {
+      return CalendarHelper.getMonthEnd(year, month, timezone);
+    }
     return new Date(year, month, 0, 23, 59, 59, 999);
   }
 
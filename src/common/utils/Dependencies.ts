@@ -3,8 +3,27 @@ import { EmployeeRepository } from '../../modules/employee/repositories/Employee
 import { NominationRepository } from '../../modules/voting/repositories/NominationRepository';
 import { VotingPeriodRepository } from '../../modules/voting/repositories/VotingPeriodRepository';
 import { WinnerHistoryRepository } from '../../modules/voting/repositories/WinnerHistoryRepository';
+import { JudgeScoreRepository } from '../../modules/voting/repositories/JudgeScoreRepository';
+import { VoteRepository } from '../../modules/voting/repositories/VoteRepository';
+import { RankedBallotRepository } from '../../modules/voting/repositories/RankedBallotRepository';
+import { YearlyAwardRepository } from '../../modules/voting/repositories/YearlyAwardRepository';
+import { WinnerRewardRepository } from '../../modules/voting/repositories/WinnerRewardRepository';
+import { DrawSeedRepository } from '../../modules/voting/repositories/DrawSeedRepository';
+import { ResultsSnapshotRepository } from '../../modules/voting/repositories/ResultsSnapshotRepository';
+import { PeriodMembershipRepository } from '../../modules/voting/repositories/PeriodMembershipRepository';
+import { RecycleBinRepository } from '../../modules/voting/repositories/RecycleBinRepository';
 import { EligibilityConfigRepository } from '../../modules/configuration/repositories/EligibilityConfigRepository';
 import { VotingGroupConfigRepository } from '../../modules/configuration/repositories/VotingGroupConfigRepository';
+import { ModerationConfigRepository } from '../../modules/configuration/repositories/ModerationConfigRepository';
+import { NominationPolicyConfigRepository } from '../../modules/configuration/repositories/NominationPolicyConfigRepository';
+import { CriteriaConfigRepository } from '../../modules/configuration/repositories/CriteriaConfigRepository';
+import { RankingPolicyConfigRepository } from '../../modules/configuration/repositories/RankingPolicyConfigRepository';
+import { WinnerSelectionConfigRepository } from '../../modules/configuration/repositories/WinnerSelectionConfigRepository';
+import { LifecycleConfigRepository } from '../../modules/configuration/repositories/LifecycleConfigRepository';
+import { PeriodTemplateConfigRepository } from '../../modules/configuration/repositories/PeriodTemplateConfigRepository';
+import { CalendarConfigRepository } from '../../modules/configuration/repositories/CalendarConfigRepository';
+import { YearlyAwardConfigRepository } from '../../modules/configuration/repositories/YearlyAwardConfigRepository';
+import { ProgramRepository } from '../../modules/program/repositories/ProgramRepository';
 import { AuditLogRepository } from '../repositories/AuditLogRepository';
 import { EmployeeDirectoryService } from '../../modules/employee/services/EmployeeDirectoryService';
 import { EmployeeService } from '../../modules/employee/employee.service';
@@ -13,8 +32,16 @@ import { EmployeeSyncService } from '../EmployeeSyncService';
 import { VotingGroupService } from '../VotingGroupService';
 import { VotingService } from '../../modules/voting/services/VotingService';
 import { ValidationService } from '../../modules/voting/services/ValidationService';
+import { MembershipService } from '../../modules/voting/services/MembershipService';
+import { RecycleBinService } from '../../modules/voting/services/RecycleBinService';
+import { RewardService } from '../../modules/voting/services/RewardService';
+import { CitationService } from '../../modules/voting/services/CitationService';
 import { NotificationService } from '../../modules/voting/services/NotificationService';
+import { JudgingService } from '../../modules/voting/services/JudgingService';
+import { YearlyAwardService } from '../../modules/voting/services/YearlyAwardService';
+import { VotingLifecycleService } from '../../modules/voting/services/VotingLifecycleService';
 import { ConfigurationService } from '../../modules/configuration/configuration.service';
+import { ProgramService } from '../../modules/program/program.service';
 import { AuthService } from '../../modules/auth/auth.service';
 import { AuditService } from '../services/AuditService';
 import {
@@ -30,18 +57,45 @@ interface Dependencies {
   nominationRepository: NominationRepository;
   votingPeriodRepository: VotingPeriodRepository;
   winnerHistoryRepository: WinnerHistoryRepository;
+  judgeScoreRepository: JudgeScoreRepository;
+  voteRepository: VoteRepository;
+  rankedBallotRepository: RankedBallotRepository;
+  yearlyAwardRepository: YearlyAwardRepository;
+  winnerRewardRepository: WinnerRewardRepository;
+  drawSeedRepository: DrawSeedRepository;
+  resultsSnapshotRepository: ResultsSnapshotRepository;
+  periodMembershipRepository: PeriodMembershipRepository;
+  recycleBinRepository: RecycleBinRepository;
   eligibilityConfigRepository: EligibilityConfigRepository;
   votingGroupConfigRepository: VotingGroupConfigRepository;
+  moderationConfigRepository: ModerationConfigRepository;
+  nominationPolicyConfigRepository: NominationPolicyConfigRepository;
+  criteriaConfigRepository: CriteriaConfigRepository;
+  rankingPolicyConfigRepository: RankingPolicyConfigRepository;
+  winnerSelectionConfigRepository: WinnerSelectionConfigRepository;
+  lifecycleConfigRepository: LifecycleConfigRepository;
+  periodTemplateConfigRepository: PeriodTemplateConfigRepository;
+  calendarConfigRepository: CalendarConfigRepository;
+  yearlyAwardConfigRepository: YearlyAwardConfigRepository;
+  programRepository: ProgramRepository;
   auditLogRepository: AuditLogRepository;
   employeeService: EmployeeService;
   azureEmployeeService: AzureEmployeeService;
   employeeSyncService: EmployeeSyncService;
   votingService: VotingService;
   validationService: ValidationService;
+  membershipService: MembershipService;
+  recycleBinService: RecycleBinService;
+  rewardService: RewardService;
+  citationService: CitationService;
   notificationService: NotificationService;
+  judgingService: JudgingService;
+  yearlyAwardService: YearlyAwardService;
+  votingLifecycleService: VotingLifecycleService;
   employeeDirectoryService: EmployeeDirectoryService;
   votingGroupService: VotingGroupService;
   configurationService: ConfigurationService;
+  programService: ProgramService;
   authService: AuthService;
   auditService: AuditService;
 }
@@ -68,13 +122,42 @@ export async function getDependencies(): Promise<Dependencies> {
     const nominationRepository = new NominationRepository(cosmosClient);
     const votingPeriodRepository = new VotingPeriodRepository(cosmosClient);
     const winnerHistoryRepository = new WinnerHistoryRepository(cosmosClient);
+    const judgeScoreRepository = new JudgeScoreRepository(cosmosClient);
+    const voteRepository = new VoteRepository(cosmosClient);
+    const rankedBallotRepository = new RankedBallotRepository(cosmosClient);
+    const yearlyAwardRepository = new YearlyAwardRepository(cosmosClient);
+    const winnerRewardRepository = new WinnerRewardRepository(cosmosClient);
+    const drawSeedRepository = new DrawSeedRepository(cosmosClient);
+    const resultsSnapshotRepository = new ResultsSnapshotRepository(cosmosClient);
+    const periodMembershipRepository = new PeriodMembershipRepository(cosmosClient);
+    const recycleBinRepository = new RecycleBinRepository(cosmosClient);
     const eligibilityConfigRepository = new EligibilityConfigRepository(cosmosClient);
     const votingGroupConfigRepository = new VotingGroupConfigRepository(cosmosClient);
+    const moderationConfigRepository = new ModerationConfigRepository(cosmosClient);
+    const nominationPolicyConfigRepository = new NominationPolicyConfigRepository(cosmosClient);
+    const criteriaConfigRepository = new CriteriaConfigRepository(cosmosClient);
+    const rankingPolicyConfigRepository = new RankingPolicyConfigRepository(cosmosClient);
+    const winnerSelectionConfigRepository = new WinnerSelectionConfigRepository(cosmosClient);
+    const lifecycleConfigRepository = new LifecycleConfigRepository(cosmosClient);
+    const periodTemplateConfigRepository = new PeriodTemplateConfigRepository(cosmosClient);
+    const calendarConfigRepository = new CalendarConfigRepository(cosmosClient);
+    const yearlyAwardConfigRepository = new YearlyAwardConfigRepository(cosmosClient);
+    const programRepository = new ProgramRepository(cosmosClient);
     const auditLogRepository = new AuditLogRepository(cosmosClient);
 
     const configurationService = new ConfigurationService(
       eligibilityConfigRepository,
-      votingGroupConfigRepository
+      votingGroupConfigRepository,
+      moderationConfigRepository,
+      nominationPolicyConfigRepository,
+      criteriaConfigRepository,
+      rankingPolicyConfigRepository,
+      winnerSelectionConfigRepository,
+      lifecycleConfigRepository,
+      periodTemplateConfigRepository,
+      calendarConfigRepository,
+      yearlyAwardConfigRepository,
+      programRepository
     );
 
     const auditService = new AuditService(auditLogRepository);
@@ -96,8 +179,38 @@ export async function getDependencies(): Promise<Dependencies> {
     );
     const votingGroupService = new VotingGroupService(votingGroupConfig);
 
-    const validationService = new ValidationService(nominationRepository, employeeRepository);
+    const membershipService = new MembershipService(
+      periodMembershipRepository,
+      votingPeriodRepository,
+      employeeRepository,
+      configurationService,
+      auditService
+    );
+    const recycleBinService = new RecycleBinService(
+      recycleBinRepository,
+      votingPeriodRepository,
+      nominationRepository,
+      winnerHistoryRepository,
+      voteRepository,
+      auditService,
+      winnerRewardRepository
+    );
+    const validationService = new ValidationService(
+      nominationRepository,
+      employeeRepository,
+      configurationService,
+      membershipService
+    );
     const notificationService = new NotificationService();
+    const programService = new ProgramService(
+      programRepository,
+      votingPeriodRepository,
+      nominationRepository,
+      winnerHistoryRepository,
+      configurationService,
+      auditService
+    );
+    const rewardService = new RewardService(winnerRewardRepository, programService, auditService);
     const employeeSyncService = new EmployeeSyncService(
       azureEmployeeService,
       employeeRepository,
@@ -113,6 +226,43 @@ export async function getDependencies(): Promise<Dependencies> {
       notificationService,
       employeeService,
       configurationService,
+      auditService,
+      voteRepository,
+      programService,
+      resultsSnapshotRepository,
+      membershipService,
+      recycleBinService,
+      rewardService,
+      drawSeedRepository,
+      judgeScoreRepository
+    );
+    const citationService = new CitationService(
+      winnerHistoryRepository,
+      nominationRepository,
+      employeeRepository,
+      auditService
+    );
+    const judgingService = new JudgingService(
+      votingPeriodRepository,
+      judgeScoreRepository,
+      nominationRepository,
+      employeeService,
+      votingService,
+      validationService,
+      auditService
+    );
+    const yearlyAwardService = new YearlyAwardService(
+      winnerHistoryRepository,
+      rankedBallotRepository,
+      yearlyAwardRepository,
+      validationService,
+      auditService,
+      configurationService
+    );
+    const votingLifecycleService = new VotingLifecycleService(
+      votingPeriodRepository,
+      votingService,
+      configurationService,
       auditService
     );
     const authService = new AuthService(employeeRepository);
@@ -123,18 +273,45 @@ export async function getDependencies(): Promise<Dependencies> {
       nominationRepository,
       votingPeriodRepository,
       winnerHistoryRepository,
+      judgeScoreRepository,
+      voteRepository,
+      rankedBallotRepository,
+      yearlyAwardRepository,
+      winnerRewardRepository,
+      drawSeedRepository,
+      resultsSnapshotRepository,
+      periodMembershipRepository,
+      recycleBinRepository,
       eligibilityConfigRepository,
       votingGroupConfigRepository,
+      moderationConfigRepository,
+      nominationPolicyConfigRepository,
+      criteriaConfigRepository,
+      rankingPolicyConfigRepository,
+      winnerSelectionConfigRepository,
+      lifecycleConfigRepository,
+      periodTemplateConfigRepository,
+      calendarConfigRepository,
+      yearlyAwardConfigRepository,
+      programRepository,
       auditLogRepository,
       employeeService,
       azureEmployeeService,
       employeeSyncService,
       votingService,
       validationService,
+      membershipService,
+      recycleBinService,
+      rewardService,
+      citationService,
       notificationService,
+      judgingService,
+      yearlyAwardService,
+      votingLifecycleService,
       employeeDirectoryService,
       votingGroupService,
       configurationService,
+      programService,
       authService,
       auditService,
     };
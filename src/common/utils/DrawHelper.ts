@@ -0,0 +1,58 @@
+import { createHash, randomBytes } from 'crypto';
+
+export class DrawHelper {
+  /**
+   * Generate a random 256-bit seed as a hex string
+   */
+  static generateSeed(): string {
+    return randomBytes(32).toString('hex');
+  }
+
+  /**
+   * SHA-256 commitment of a seed. Publishing it before the draw proves the seed wasn't changed
+   */
+  static hashSeed(seed: string): string {
+    return createHash('sha256').update(seed).digest('hex');
+  }
+
+  /**
+   * Deterministically pick an index from the seed and the ordered candidate list.
+   * Anyone with the seed and the list can re-run it and get the same index.
+   * @param seed - Revealed seed
+   * @param candidateOrder - Candidate identifiers in draw order
+   * @param weights - Optional positive integer weight per candidate (e.g. nomination count)
+   * @returns Index into candidateOrder
+   */
+  static drawIndex(seed: string, candidateOrder: string[], weights?: number[]): number {
+    if (candidateOrder.length === 0) {
+      throw new Error('Cannot draw from an empty candidate list');
+    }
+    if (weights && weights.length !== candidateOrder.length) {
+      throw new Error('Each candidate needs exactly one weight');
+    }
+
+    const digest = createHash('sha256')
+      .update(`${seed}:${candidateOrder.join(',')}`)
+      .digest('hex');
+    // The first 48 bits are plenty for a handful of candidates and stay within Number precision
+    const value = parseInt(digest.slice(0, 12), 16);
+
+    if (!weights) {
+      return value % candidateOrder.length;
+    }
+
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) {
+      throw new Error('Draw weights must add up to more than zero');
+    }
+
+    let ticket = value % totalWeight;
+    for (let i = 0; i < weights.length; i++) {
+      if (ticket < weights[i]) {
+        return i;
+      }
+      ticket -= weights[i];
+    }
+    return weights.length - 1;
+  }
+}
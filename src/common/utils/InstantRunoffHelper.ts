@@ -0,0 +1,72 @@
+import { RunoffResult, RunoffRound } from '../models/RankedBallot';
+
+export class InstantRunoffHelper {
+  /**
+   * Instant-runoff tally. Each round counts every ballot for its highest-ranked remaining
+   * candidate; a candidate with more than half of the continuing ballots wins, otherwise the
+   * candidates with the fewest ballots are all eliminated together and the next round runs.
+   * @param candidates - Candidate identifiers on the ballot
+   * @param ballots - Rankings per ballot, most preferred first
+   * @returns Winner (if any) and every round with its tallies and eliminations
+   */
+  static tally(candidates: string[], ballots: string[][]): RunoffResult {
+    const result: RunoffResult = {
+      candidates,
+      totalBallots: ballots.length,
+      rounds: [],
+      isTied: false,
+    };
+    if (candidates.length === 0 || ballots.length === 0) {
+      return result;
+    }
+
+    const remaining = new Set(candidates);
+
+    while (remaining.size > 0) {
+      const round: RunoffRound = {
+        round: result.rounds.length + 1,
+        tallies: {},
+        exhaustedBallots: 0,
+        eliminated: [],
+      };
+      for (const candidate of remaining) {
+        round.tallies[candidate] = 0;
+      }
+
+      for (const ballot of ballots) {
+        const choice = ballot.find(candidate => remaining.has(candidate));
+        if (choice) {
+          round.tallies[choice]++;
+        } else {
+          round.exhaustedBallots++;
+        }
+      }
+      result.rounds.push(round);
+
+      const counts = Object.values(round.tallies);
+      const highest = Math.max(...counts);
+      const lowest = Math.min(...counts);
+      const continuingBallots = ballots.length - round.exhaustedBallots;
+
+      if (highest * 2 > continuingBallots || remaining.size === 1) {
+        result.winner = Object.keys(round.tallies).find(
+          candidate => round.tallies[candidate] === highest
+        );
+        return result;
+      }
+
+      // Everyone left is level, so there is nobody to eliminate
+      if (highest === lowest) {
+        result.isTied = true;
+        return result;
+      }
+
+      round.eliminated = Object.keys(round.tallies).filter(
+        candidate => round.tallies[candidate] === lowest
+      );
+      round.eliminated.forEach(candidate => remaining.delete(candidate));
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,173 @@
+import { VotingPeriod, VotingPeriodStatus } from '../models/VotingPeriod';
+import { DEFAULT_CALENDAR_CONFIG } from '../../modules/configuration/models/calendar-config.model';
+import { CalendarHelper } from './CalendarHelper';
+import { ProgramHelper } from './ProgramHelper';
+
+export type PeriodConsistencyIssueType =
+  | 'invalid_dates'
+  | 'end_before_start'
+  | 'year_month_mismatch'
+  | 'multiple_active'
+  | 'overlap';
+
+export interface PeriodConsistencyIssue {
+  type: PeriodConsistencyIssueType;
+  programId: string;
+  votingPeriodId: string;
+  relatedPeriodIds?: string[];
+  message: string;
+}
+
+export interface PeriodConsistencyReport {
+  checkedAt: Date;
+  periodsChecked: number;
+  consistent: boolean;
+  issues: PeriodConsistencyIssue[];
+}
+
+type PeriodFields = Pick<
+  VotingPeriod,
+  'id' | 'programId' | 'year' | 'month' | 'startDate' | 'endDate' | 'status'
+>;
+
+export class PeriodConsistencyHelper {
+  /**
+   * Problems a period would have next to the other periods. Periods of other programs and the
+   * stored copy of the period itself are ignored.
+   */
+  static validate(
+    period: PeriodFields,
+    others: PeriodFields[],
+    timezone = DEFAULT_CALENDAR_CONFIG.timezone
+  ): PeriodConsistencyIssue[] {
+    const programId = ProgramHelper.resolveId(period.programId);
+    const siblings = others.filter(
+      other => other.id !== period.id && ProgramHelper.resolveId(other.programId) === programId
+    );
+
+    const issues = this.checkDates(period, timezone);
+    if (period.status === VotingPeriodStatus.ACTIVE) {
+      const active = siblings.filter(other => other.status === VotingPeriodStatus.ACTIVE);
+      if (active.length > 0) {
+        issues.push({
+          type: 'multiple_active',
+          programId,
+          votingPeriodId: period.id,
+          relatedPeriodIds: active.map(other => other.id),
+          message: `Voting period ${active[0].id} is already active`,
+        });
+      }
+    }
+    if (issues.some(issue => issue.type !== 'multiple_active')) {
+      // Overlaps can't be worked out from broken dates
+      return issues;
+    }
+
+    const overlapping = siblings.filter(other => this.overlaps(period, other));
+    if (overlapping.length > 0) {
+      issues.push({
+        type: 'overlap',
+        programId,
+        votingPeriodId: period.id,
+        relatedPeriodIds: overlapping.map(other => other.id),
+        message: `The dates overlap with voting period ${overlapping.map(other => other.id).join(', ')}`,
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Every inconsistency among stored periods, each reported once
+   */
+  static check(
+    periods: PeriodFields[],
+    timezone = DEFAULT_CALENDAR_CONFIG.timezone
+  ): PeriodConsistencyIssue[] {
+    const issues: PeriodConsistencyIssue[] = [];
+    const byProgram = new Map<string, PeriodFields[]>();
+    for (const period of periods) {
+      issues.push(...this.checkDates(period, timezone));
+      const programId = ProgramHelper.resolveId(period.programId);
+      byProgram.set(programId, [...(byProgram.get(programId) || []), period]);
+    }
+
+    for (const [programId, programPeriods] of byProgram) {
+      const active = programPeriods.filter(period => period.status === VotingPeriodStatus.ACTIVE);
+      if (active.length > 1) {
+        issues.push({
+          type: 'multiple_active',
+          programId,
+          votingPeriodId: active[0].id,
+          relatedPeriodIds: active.slice(1).map(period => period.id),
+          message: `${active.length} voting periods are active: ${active.map(period => period.id).join(', ')}`,
+        });
+      }
+
+      const valid = programPeriods
+        .filter(period => this.checkDates(period, timezone).length === 0)
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+      for (let i = 0; i < valid.length; i++) {
+        for (let j = i + 1; j < valid.length; j++) {
+          // Sorted by start, so no later period can overlap once one starts after this one ends
+          if (new Date(valid[j].startDate) >= new Date(valid[i].endDate)) {
+            break;
+          }
+          issues.push({
+            type: 'overlap',
+            programId,
+            votingPeriodId: valid[i].id,
+            relatedPeriodIds: [valid[j].id],
+            message: `Voting periods ${valid[i].id} and ${valid[j].id} overlap`,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  private static checkDates(period: PeriodFields, timezone: string): PeriodConsistencyIssue[] {
+    const programId = ProgramHelper.resolveId(period.programId);
+    const startDate = new Date(period.startDate);
+    const endDate = new Date(period.endDate);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return [
+        {
+          type: 'invalid_dates',
+          programId,
+          votingPeriodId: period.id,
+          message: 'startDate and endDate must be valid dates',
+        },
+      ];
+    }
+
+    const issues: PeriodConsistencyIssue[] = [];
+    if (endDate <= startDate) {
+      issues.push({
+        type: 'end_before_start',
+        programId,
+        votingPeriodId: period.id,
+        message: 'endDate must be later than startDate',
+      });
+    }
+    // Same rule the period template uses: year and month are those of the start date
+    const { year, month } = CalendarHelper.getLocalParts(startDate, timezone);
+    if (period.year !== year || period.month !== month) {
+      issues.push({
+        type: 'year_month_mismatch',
+        programId,
+        votingPeriodId: period.id,
+        message: `year and month (${period.year}-${period.month}) don't match the start date`,
+      });
+    }
+    return issues;
+  }
+
+  // Touching periods (one ends when the next starts) don't overlap
+  private static overlaps(a: PeriodFields, b: PeriodFields): boolean {
+    return (
+      new Date(a.startDate) < new Date(b.endDate) && new Date(b.startDate) < new Date(a.endDate)
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { PeriodTemplateConfig } from '../../modules/configuration/models/period-template-config.model';
+import {
+  CalendarConfig,
+  DEFAULT_CALENDAR_CONFIG,
+} from '../../modules/configuration/models/calendar-config.model';
+import { CalendarHelper } from './CalendarHelper';
+import { ProgramHelper } from './ProgramHelper';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BIWEEKLY_INTERVAL_DAYS = 14;
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+export interface PeriodWindow {
+  id: string;
+  name: string;
+  year: number;
+  month: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+export class PeriodTemplateHelper {
+  /**
+   * First period start on or after the given date. Monthly and quarterly periods snap to the
+   * first day of the next month or quarter; other cadences start at midnight of that day.
+   * Days and midnights are those of the organization's timezone.
+   */
+  static alignStart(
+    template: PeriodTemplateConfig,
+    date: Date,
+    timezone = DEFAULT_CALENDAR_CONFIG.timezone
+  ): Date {
+    const { year, month, day: dayOfMonth } = CalendarHelper.getLocalParts(date, timezone);
+    const day = CalendarHelper.fromLocal(timezone, year, month, dayOfMonth);
+
+    switch (template.cadence) {
+      case 'monthly':
+        return dayOfMonth === 1 ? day : CalendarHelper.fromLocal(timezone, year, month + 1, 1);
+      case 'quarterly': {
+        const quarterMonth = Math.floor((month - 1) / 3) * 3 + 1;
+        const quarterStart = CalendarHelper.fromLocal(timezone, year, quarterMonth, 1);
+        return quarterStart.getTime() === day.getTime()
+          ? quarterStart
+          : CalendarHelper.fromLocal(timezone, year, quarterMonth + 3, 1);
+      }
+      default:
+        return day;
+    }
+  }
+
+  /**
+   * Start of the period that follows the one starting at the given date
+   */
+  static nextStart(
+    template: PeriodTemplateConfig,
+    start: Date,
+    timezone = DEFAULT_CALENDAR_CONFIG.timezone
+  ): Date {
+    const { year, month, day } = CalendarHelper.getLocalParts(start, timezone);
+    switch (template.cadence) {
+      case 'monthly':
+        return CalendarHelper.fromLocal(timezone, year, month + 1, 1);
+      case 'quarterly':
+        return CalendarHelper.fromLocal(timezone, year, month + 3, 1);
+      default:
+        return CalendarHelper.fromLocal(
+          timezone,
+          year,
+          month,
+          day + this.getIntervalDays(template)
+        );
+    }
+  }
+
+  /**
+   * Dates, id and display name of the program's period starting at the given date. With
+   * shiftEndToBusinessDay, an end on a weekend or holiday moves to the next business day.
+   */
+  static buildWindow(
+    template: PeriodTemplateConfig,
+    start: Date,
+    programId?: string,
+    calendar: CalendarConfig = DEFAULT_CALENDAR_CONFIG
+  ): PeriodWindow {
+    const { timezone } = calendar;
+    const { year, month, day } = CalendarHelper.getLocalParts(start, timezone);
+    const quarter = Math.floor((month - 1) / 3) + 1;
+    const pad = (value: number) => value.toString().padStart(2, '0');
+
+    const end = template.durationDays
+      ? CalendarHelper.fromLocal(timezone, year, month, day + template.durationDays)
+      : this.nextStart(template, start, timezone);
+
+    let suffix: string;
+    let sequence: number;
+    switch (template.cadence) {
+      case 'monthly':
+        suffix = `${year}-${pad(month)}`;
+        sequence = month;
+        break;
+      case 'quarterly':
+        suffix = `${year}-q${quarter}`;
+        sequence = quarter;
+        break;
+      default: {
+        // Several periods can start in the same month, so the id carries the start day
+        suffix = `${year}-${pad(month)}-${pad(day)}`;
+        const dayOfYear = Math.round(
+          (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / DAY_MS
+        );
+        sequence = Math.floor(dayOfYear / this.getIntervalDays(template)) + 1;
+      }
+    }
+
+    return {
+      id: ProgramHelper.scopedId('vp', programId, suffix),
+      name: this.renderName(template.namePattern, { year, month, quarter, sequence }),
+      year,
+      month,
+      startDate: start,
+      endDate: CalendarHelper.shiftToBusinessDay(new Date(end.getTime() - 1), calendar),
+    };
+  }
+
+  static renderName(
+    pattern: string,
+    values: { year: number; month: number; quarter: number; sequence: number }
+  ): string {
+    return pattern
+      .replace(/\{year\}/g, values.year.toString())
+      .replace(/\{month\}/g, values.month.toString())
+      .replace(/\{monthName\}/g, MONTH_NAMES[values.month - 1])
+      .replace(/\{quarter\}/g, values.quarter.toString())
+      .replace(/\{sequence\}/g, values.sequence.toString());
+  }
+
+  private static getIntervalDays(template: PeriodTemplateConfig): number {
+    if (template.cadence === 'biweekly') {
+      return BIWEEKLY_INTERVAL_DAYS;
+    }
+    if (!template.intervalDays) {
+      throw new Error('intervalDays is required for the custom cadence');
+    }
+    return template.intervalDays;
+  }
+}
@@ -0,0 +1,41 @@
+import { DEFAULT_PROGRAM_ID } from '../models/Program';
+
+export class ProgramHelper {
+  /**
+   * Program a request or record belongs to, falling back to the default program
+   */
+  static resolveId(programId?: string): string {
+    return programId || DEFAULT_PROGRAM_ID;
+  }
+
+  static isInProgram(record: { programId?: string }, programId: string): boolean {
+    return this.resolveId(record.programId) === programId;
+  }
+
+  /**
+   * Cosmos DB filter on c.programId. The default program also matches records that were
+   * created before programs existed and were never migrated.
+   */
+  static queryFilter(programId: string): {
+    clause: string;
+    parameter: { name: string; value: string };
+  } {
+    const clause =
+      programId === DEFAULT_PROGRAM_ID
+        ? '(NOT IS_DEFINED(c.programId) OR c.programId = @programId)'
+        : 'c.programId = @programId';
+    return { clause, parameter: { name: '@programId', value: programId } };
+  }
+
+  /**
+   * Document id that doesn't collide across programs. The default program keeps the ids it
+   * had before programs existed (e.g. vp-2025-01), other programs get their id as prefix
+   * (e.g. vp-safety-champion-2025-01).
+   */
+  static scopedId(prefix: string, programId: string | undefined, suffix: string): string {
+    const resolvedId = this.resolveId(programId);
+    return resolvedId === DEFAULT_PROGRAM_ID
+      ? `${prefix}-${suffix}`
+      : `${prefix}-${resolvedId}-${suffix}`;
+  }
+}
@@ -0,0 +1,131 @@
+import { Criteria } from '../../modules/voting/dto/create-nomination.dto';
+import {
+  RankingPolicyConfig,
+  TieBreaker,
+} from '../../modules/configuration/models/ranking-policy-config.model';
+
+export interface RankingCandidate {
+  employeeId: string;
+  count: number;
+  averageCriteria: Criteria;
+  firstNominatedAt: Date;
+}
+
+export type RankedCandidate<T extends RankingCandidate> = T & {
+  compositeScore: number;
+  rank: number;
+  isTied: boolean;
+};
+
+export class RankingHelper {
+  /**
+   * Weighted average of the criteria averages, rounded to two decimals
+   * @param averageCriteria - Average score per criterion
+   * @param weights - Weight per criterion key, missing keys weigh 1
+   */
+  static calculateCompositeScore(
+    averageCriteria: Criteria,
+    weights: Record<string, number> = {}
+  ): number {
+    let weightedTotal = 0;
+    let totalWeight = 0;
+
+    for (const [key, score] of Object.entries(averageCriteria)) {
+      const weight = weights[key] ?? 1;
+      weightedTotal += score * weight;
+      totalWeight += weight;
+    }
+
+    return totalWeight > 0 ? Math.round((weightedTotal / totalWeight) * 100) / 100 : 0;
+  }
+
+  /**
+   * Sort candidates according to the ranking policy. Candidates still equal after every
+   * tie-breaker (or when the 'committee' tie-breaker is reached) share a rank and are flagged.
+   * @param candidates - Aggregated nominations per employee
+   * @param policy - Ranking policy configuration
+   * @returns Candidates ordered by rank with compositeScore and isTied
+   */
+  static rank<T extends RankingCandidate>(
+    candidates: T[],
+    policy: RankingPolicyConfig
+  ): RankedCandidate<T>[] {
+    const scored = candidates.map(candidate => ({
+      ...candidate,
+      compositeScore: this.calculateCompositeScore(
+        candidate.averageCriteria,
+        policy.criteriaWeights
+      ),
+      rank: 0,
+      isTied: false,
+    }));
+
+    const compare = (a: RankedCandidate<T>, b: RankedCandidate<T>): number => {
+      const primary = this.comparePrimary(a, b, policy);
+      if (primary !== 0) {
+        return primary;
+      }
+      for (const tieBreaker of policy.tieBreakers) {
+        if (tieBreaker === 'committee') {
+          return 0;
+        }
+        const result = this.compareTieBreaker(a, b, tieBreaker);
+        if (result !== 0) {
+          return result;
+        }
+      }
+      return 0;
+    };
+
+    // Stable sort on employeeId first so unresolved ties come out in a predictable order
+    scored.sort((a, b) => a.employeeId.localeCompare(b.employeeId));
+    scored.sort(compare);
+
+    scored.forEach((candidate, index) => {
+      const previous = scored[index - 1];
+      if (previous && compare(previous, candidate) === 0) {
+        candidate.rank = previous.rank;
+        candidate.isTied = true;
+        previous.isTied = true;
+      } else {
+        candidate.rank = index + 1;
+      }
+    });
+
+    return scored;
+  }
+
+  private static comparePrimary(
+    a: RankedCandidate<RankingCandidate>,
+    b: RankedCandidate<RankingCandidate>,
+    policy: RankingPolicyConfig
+  ): number {
+    switch (policy.mode) {
+      case 'count':
+        return b.count - a.count;
+      case 'weighted_score':
+        return b.compositeScore - a.compositeScore;
+      case 'count_then_score':
+      default:
+        return b.count - a.count || b.compositeScore - a.compositeScore;
+    }
+  }
+
+  private static compareTieBreaker(
+    a: RankingCandidate,
+    b: RankingCandidate,
+    tieBreaker: TieBreaker
+  ): number {
+    switch (tieBreaker) {
+      case 'earliest_nomination':
+        return new Date(a.firstNominatedAt).getTime() - new Date(b.firstNominatedAt).getTime();
+      case 'higher_average':
+        return (
+          this.calculateCompositeScore(b.averageCriteria) -
+          this.calculateCompositeScore(a.averageCriteria)
+        );
+      default:
+        return 0;
+    }
+  }
+}
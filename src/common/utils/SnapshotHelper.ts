@@ -0,0 +1,38 @@
+import { createHash } from 'crypto';
+
+export class SnapshotHelper {
+  /**
+   * JSON with object keys sorted, so the same content always gives the same string.
+   * Dates become ISO strings, which is also how Cosmos DB stores them.
+   */
+  static canonicalize(value: unknown): string {
+    return JSON.stringify(this.normalize(value));
+  }
+
+  /**
+   * SHA-256 of the canonical JSON of a value
+   */
+  static hash(value: unknown): string {
+    return createHash('sha256').update(this.canonicalize(value)).digest('hex');
+  }
+
+  private static normalize(value: unknown): unknown {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.normalize(item));
+    }
+    if (value && typeof value === 'object') {
+      const normalized: Record<string, unknown> = {};
+      for (const key of Object.keys(value).sort()) {
+        const item = (value as Record<string, unknown>)[key];
+        if (item !== undefined) {
+          normalized[key] = this.normalize(item);
+        }
+      }
+      return normalized;
+    }
+    return value;
+  }
+}
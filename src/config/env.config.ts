@@ -28,6 +28,12 @@ export const SEARCH_MIN_QUERY_LENGTH = parseInt(process.env.SEARCH_MIN_QUERY_LEN
 export const VOTING_GROUP_STRATEGY = process.env.VOTING_GROUP_STRATEGY || 'location';
 export const VOTING_GROUP_CUSTOM_MAPPINGS = process.env.VOTING_GROUP_CUSTOM_MAPPINGS || '';
 
+// Voting period lifecycle job (NCRONTAB, every 15 minutes by default)
+export const VOTING_LIFECYCLE_SCHEDULE = process.env.VOTING_LIFECYCLE_SCHEDULE || '0 */15 * * * *';
+
+// Days a reset voting period can still be restored from the recycle bin
+export const RECYCLE_BIN_RETENTION_DAYS = parseInt(process.env.RECYCLE_BIN_RETENTION_DAYS || '30');
+
 // JWT Authentication configuration
 export const JWT_SECRET = process.env.JWT_SECRET || 'default-secret-change-in-production';
 export const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '24h';
@@ -4,7 +4,14 @@ import '../modules/employee/employee.controller';
 import '../modules/employee/employee-sync.controller';
 import '../modules/employee/employee-diagnostic.controller';
 import '../modules/voting/voting.controller';
+import '../modules/voting/judging.controller';
+import '../modules/voting/membership.controller';
+import '../modules/voting/recycle-bin.controller';
+import '../modules/voting/yearly-award.controller';
+import '../modules/voting/reward.controller';
+import '../modules/voting/voting-lifecycle.controller';
 import '../modules/voting/voting-diagnostic.controller';
+import '../modules/program/program.controller';
 import '../modules/admin/admin.controller';
 import '../modules/auth/auth.controller';
 import '../modules/configuration/configuration.controller';
@@ -78,7 +78,12 @@ export class AdminController {
       }
 
       context.log(`Resetting voting period: ${votingPeriodId}`);
-      const result = await this.adminService.resetVotingPeriod(votingPeriodId);
+      const user = authResult.user;
+      const result = await this.adminService.resetVotingPeriod(votingPeriodId, {
+        userId: user.userId,
+        userName: user.username || user.email || "unknown",
+        userEmail: user.email || undefined,
+      });
 
       context.log(`Reset completed: ${result.affectedRecords} records affected`);
       return ResponseHelper.ok(result);
@@ -1,4 +1,9 @@
 import { VotingPeriod, VotingPeriodStatus } from '../../../common/models/VotingPeriod';
+import { DEFAULT_PROGRAM_ID } from '../../../common/models/Program';
+import { DEFAULT_CRITERIA } from '../../configuration/models/criteria-config.model';
+import { DEFAULT_CALENDAR_CONFIG } from '../../configuration/models/calendar-config.model';
+import { CalendarHelper } from '../../../common/utils/CalendarHelper';
+import { DateHelper } from '../../../common/utils/DateHelper';
 import { SetupResponseDto, SetupStatusDto } from '../dto/setup-response.dto';
 
 export class AdminService {
@@ -9,24 +14,32 @@ export class AdminService {
   }
 
   async setupVotingPeriod(): Promise<SetupResponseDto> {
-    const { votingPeriodRepository } = this.dependencies;
+    const { votingPeriodRepository, configurationService, membershipService } = this.dependencies;
 
-    // Create current voting period (this month)
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = now.getMonth() + 1; // JavaScript months are 0-indexed
+    // Create current voting period (this month in the organization's timezone)
+    const calendar = configurationService
+      ? await configurationService.getCalendarConfig()
+      : DEFAULT_CALENDAR_CONFIG;
+    const { year, month } = CalendarHelper.getLocalParts(new Date(), calendar.timezone);
 
-    // Start of month to end of month
-    const startDate = new Date(year, now.getMonth(), 1);
-    const endDate = new Date(year, now.getMonth() + 1, 0, 23, 59, 59);
+    // Start of month to end of month, or the next business day after it
+    const startDate = DateHelper.getMonthStart(year, month, calendar.timezone);
+    const endDate = CalendarHelper.shiftToBusinessDay(
+      DateHelper.getMonthEnd(year, month, calendar.timezone),
+      calendar
+    );
 
     const votingPeriod: VotingPeriod = {
       id: `vp-${year}-${month.toString().padStart(2, "0")}`,
+      programId: DEFAULT_PROGRAM_ID,
       year,
       month,
       startDate,
       endDate,
       status: VotingPeriodStatus.ACTIVE,
+      criteria: configurationService
+        ? await configurationService.getCriteriaForYear(year, DEFAULT_PROGRAM_ID)
+        : DEFAULT_CRITERIA,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -43,6 +56,15 @@ export class AdminService {
     // Create the voting period
     const createdPeriod = await votingPeriodRepository.create(votingPeriod);
 
+    // It opens right away, so its voting groups and eligibility are captured now
+    if (membershipService) {
+      try {
+        await membershipService.captureMembership(createdPeriod);
+      } catch (error) {
+        console.error("Failed to capture period membership:", error);
+      }
+    }
+
     return {
       message: "Setup completed successfully",
       votingPeriod: createdPeriod,
@@ -59,7 +81,7 @@ export class AdminService {
     const { votingPeriodRepository, nominationRepository, azureEmployeeService } = this.dependencies;
 
     // Get current voting period
-    const currentPeriod = await votingPeriodRepository.findActiveVotingPeriod();
+    const currentPeriod = await votingPeriodRepository.findActiveVotingPeriod(DEFAULT_PROGRAM_ID);
 
     // Get employee count
     const totalEmployees = await azureEmployeeService.getEmployeeCount();
@@ -102,30 +124,58 @@ export class AdminService {
     };
   }
 
-  async resetVotingPeriod(votingPeriodId: string): Promise<{ message: string; affectedRecords: number }> {
-    const { votingPeriodRepository, nominationRepository } = this.dependencies;
+  async resetVotingPeriod(
+    votingPeriodId: string,
+    userContext?: { userId: string; userName: string; userEmail?: string }
+  ): Promise<{ message: string; affectedRecords: number; recycleBinEntryId: string }> {
+    const {
+      votingPeriodRepository,
+      nominationRepository,
+      winnerHistoryRepository,
+      voteRepository,
+      recycleBinService,
+      rewardService,
+    } = this.dependencies;
 
     // Find the voting period
     const period = await votingPeriodRepository.findById(votingPeriodId);
     if (!period) {
       throw new Error('Voting period not found');
     }
+    if (period.publishedAt) {
+      throw new Error('The results of this voting period are published and cannot be reset');
+    }
 
-    // Count nominations to be deleted
+    // Count nominations, winners and final-round votes to be deleted
     const nominations = await nominationRepository.findByVotingPeriod(votingPeriodId);
-    const affectedRecords = nominations.length;
+    const winners = await winnerHistoryRepository.findByVotingPeriod(votingPeriodId);
+    const votes = await voteRepository.findByVotingPeriod(votingPeriodId);
+    const affectedRecords = nominations.length + winners.length + votes.length;
+
+    // Archive the period with everything in it so the reset can be undone
+    const entry = await recycleBinService.archivePeriodReset(
+      period,
+      { nominations, winners, votes, periodDeleted: true },
+      userContext
+    );
 
     // Delete all nominations for this period
     for (const nomination of nominations) {
       await nominationRepository.delete(nomination.id);
     }
 
+    // Delete its winners, the rewards nobody has acted on yet and its votes
+    await winnerHistoryRepository.deleteByVotingPeriod(votingPeriodId);
+    await rewardService.removePendingRewards(votingPeriodId);
+    await voteRepository.deleteByVotingPeriod(votingPeriodId);
+
     // Delete the voting period
     await votingPeriodRepository.delete(votingPeriodId);
 
     return {
       message: `Successfully reset voting period ${votingPeriodId}`,
       affectedRecords,
+      recycleBinEntryId: entry.id,
     };
   }
 }
\ No newline at end of file
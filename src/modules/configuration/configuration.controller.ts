@@ -5,6 +5,15 @@ import { AuthHelper } from '../../common/utils/AuthHelper';
 import { getDependencies } from '../../common/utils/Dependencies';
 import { EligibilityConfig } from './models/eligibility-config.model';
 import { VotingGroupConfig } from './models/voting-group-config.model';
+import { ModerationConfig } from './models/moderation-config.model';
+import { NominationPolicyConfig } from './models/nomination-policy-config.model';
+import { CriteriaConfig } from './models/criteria-config.model';
+import { RankingPolicyConfig } from './models/ranking-policy-config.model';
+import { WinnerSelectionConfig } from './models/winner-selection-config.model';
+import { LifecycleConfig } from './models/lifecycle-config.model';
+import { PeriodTemplateConfig } from './models/period-template-config.model';
+import { CalendarConfig } from './models/calendar-config.model';
+import { YearlyAwardConfig } from './models/yearly-award-config.model';
 
 export class ConfigurationController {
   constructor(private configurationService: ConfigurationService) {}
@@ -234,10 +243,946 @@ export class ConfigurationController {
       return ResponseHelper.internalServerError('Failed to reset voting group configuration');
     }
   }
+
+  async getModerationConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getModerationConfig();
+
+      return ResponseHelper.ok({
+        message: 'Moderation configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting moderation configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get moderation configuration');
+    }
+  }
+
+  async updateModerationConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<ModerationConfig>;
+
+      const updatedConfig = await this.configurationService.updateModerationConfig(body);
+
+      context.log('Moderation configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Moderation configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating moderation configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update moderation configuration');
+    }
+  }
+
+  async resetModerationConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetModerationConfig();
+
+      context.log('Moderation configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Moderation configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting moderation configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset moderation configuration');
+    }
+  }
+
+  async getNominationPolicyConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getNominationPolicyConfig();
+
+      return ResponseHelper.ok({
+        message: 'Nomination policy configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting nomination policy configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get nomination policy configuration');
+    }
+  }
+
+  async updateNominationPolicyConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<NominationPolicyConfig>;
+
+      const updatedConfig = await this.configurationService.updateNominationPolicyConfig(body);
+
+      context.log('Nomination policy configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Nomination policy configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating nomination policy configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update nomination policy configuration');
+    }
+  }
+
+  async resetNominationPolicyConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetNominationPolicyConfig();
+
+      context.log('Nomination policy configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Nomination policy configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting nomination policy configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset nomination policy configuration');
+    }
+  }
+
+  async getCriteriaConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getCriteriaConfig();
+
+      return ResponseHelper.ok({
+        message: 'Criteria configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting criteria configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get criteria configuration');
+    }
+  }
+
+  async updateCriteriaConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<CriteriaConfig>;
+
+      const updatedConfig = await this.configurationService.updateCriteriaConfig(body);
+
+      context.log('Criteria configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Criteria configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating criteria configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update criteria configuration');
+    }
+  }
+
+  async resetCriteriaConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetCriteriaConfig();
+
+      context.log('Criteria configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Criteria configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting criteria configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset criteria configuration');
+    }
+  }
+
+  async getRankingPolicyConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getRankingPolicyConfig();
+
+      return ResponseHelper.ok({
+        message: 'Ranking policy configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting ranking policy configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get ranking policy configuration');
+    }
+  }
+
+  async updateRankingPolicyConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<RankingPolicyConfig>;
+
+      const updatedConfig = await this.configurationService.updateRankingPolicyConfig(body);
+
+      context.log('Ranking policy configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Ranking policy configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating ranking policy configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update ranking policy configuration');
+    }
+  }
+
+  async resetRankingPolicyConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetRankingPolicyConfig();
+
+      context.log('Ranking policy configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Ranking policy configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting ranking policy configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset ranking policy configuration');
+    }
+  }
+
+  async getWinnerSelectionConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getWinnerSelectionConfig();
+
+      return ResponseHelper.ok({
+        message: 'Winner selection configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting winner selection configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get winner selection configuration');
+    }
+  }
+
+  async updateWinnerSelectionConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<WinnerSelectionConfig>;
+
+      const updatedConfig = await this.configurationService.updateWinnerSelectionConfig(body);
+
+      context.log('Winner selection configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Winner selection configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating winner selection configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update winner selection configuration');
+    }
+  }
+
+  async resetWinnerSelectionConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetWinnerSelectionConfig();
+
+      context.log('Winner selection configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Winner selection configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting winner selection configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset winner selection configuration');
+    }
+  }
+
+  async getLifecycleConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getLifecycleConfig();
+
+      return ResponseHelper.ok({
+        message: 'Lifecycle configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting lifecycle configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get lifecycle configuration');
+    }
+  }
+
+  async updateLifecycleConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<LifecycleConfig>;
+
+      const updatedConfig = await this.configurationService.updateLifecycleConfig(body);
+
+      context.log('Lifecycle configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Lifecycle configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating lifecycle configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update lifecycle configuration');
+    }
+  }
+
+  async resetLifecycleConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetLifecycleConfig();
+
+      context.log('Lifecycle configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Lifecycle configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting lifecycle configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset lifecycle configuration');
+    }
+  }
+
+  async getPeriodTemplateConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getPeriodTemplateConfig();
+
+      return ResponseHelper.ok({
+        message: 'Period template configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting period template configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get period template configuration');
+    }
+  }
+
+  async updatePeriodTemplateConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<PeriodTemplateConfig>;
+
+      const updatedConfig = await this.configurationService.updatePeriodTemplateConfig(body);
+
+      context.log('Period template configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Period template configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating period template configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update period template configuration');
+    }
+  }
+
+  async resetPeriodTemplateConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetPeriodTemplateConfig();
+
+      context.log('Period template configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Period template configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting period template configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset period template configuration');
+    }
+  }
+
+  async getCalendarConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getCalendarConfig();
+
+      return ResponseHelper.ok({
+        message: 'Calendar configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting calendar configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get calendar configuration');
+    }
+  }
+
+  async updateCalendarConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<CalendarConfig>;
+
+      const updatedConfig = await this.configurationService.updateCalendarConfig(body);
+
+      context.log('Calendar configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Calendar configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating calendar configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update calendar configuration');
+    }
+  }
+
+  async resetCalendarConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetCalendarConfig();
+
+      context.log('Calendar configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Calendar configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting calendar configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset calendar configuration');
+    }
+  }
+
+  async getYearlyAwardConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const config = await this.configurationService.getYearlyAwardConfig();
+
+      return ResponseHelper.ok({
+        message: 'Yearly award configuration retrieved successfully',
+        config,
+      });
+    } catch (error) {
+      context.error('Error getting yearly award configuration:', error);
+      return ResponseHelper.internalServerError('Failed to get yearly award configuration');
+    }
+  }
+
+  async updateYearlyAwardConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as Partial<YearlyAwardConfig>;
+
+      const updatedConfig = await this.configurationService.updateYearlyAwardConfig(body);
+
+      context.log('Yearly award configuration updated:', updatedConfig);
+
+      return ResponseHelper.ok({
+        message: 'Yearly award configuration updated successfully',
+        config: updatedConfig,
+      });
+    } catch (error) {
+      context.error('Error updating yearly award configuration:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError('Failed to update yearly award configuration');
+    }
+  }
+
+  async resetYearlyAwardConfig(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      if (!authResult.user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const resetConfig = await this.configurationService.resetYearlyAwardConfig();
+
+      context.log('Yearly award configuration reset to defaults');
+
+      return ResponseHelper.ok({
+        message: 'Yearly award configuration reset to defaults successfully',
+        config: resetConfig,
+      });
+    } catch (error) {
+      context.error('Error resetting yearly award configuration:', error);
+      return ResponseHelper.internalServerError('Failed to reset yearly award configuration');
+    }
+  }
 }
 
-// Azure Functions endpoints - Consolidated handlers
-const eligibilityConfigHandler = async (
+// Azure Functions endpoints - Consolidated handlers
+const eligibilityConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getEligibilityConfig(request, context);
+    case 'PUT':
+      return controller.updateEligibilityConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const eligibilityConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetEligibilityConfig(request, context);
+};
+
+const votingGroupConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getVotingGroupConfig(request, context);
+    case 'PUT':
+      return controller.updateVotingGroupConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const votingGroupConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetVotingGroupConfig(request, context);
+};
+
+// Register Azure Functions
+app.http('eligibility-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/eligibility',
+  handler: eligibilityConfigHandler,
+});
+
+app.http('eligibility-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/eligibility/reset',
+  handler: eligibilityConfigResetHandler,
+});
+
+app.http('voting-group-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/voting-groups',
+  handler: votingGroupConfigHandler,
+});
+
+app.http('voting-group-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/voting-groups/reset',
+  handler: votingGroupConfigResetHandler,
+});
+
+const moderationConfigHandler = async (
   request: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
@@ -246,24 +1191,38 @@ const eligibilityConfigHandler = async (
 
   switch (request.method) {
     case 'GET':
-      return controller.getEligibilityConfig(request, context);
+      return controller.getModerationConfig(request, context);
     case 'PUT':
-      return controller.updateEligibilityConfig(request, context);
+      return controller.updateModerationConfig(request, context);
     default:
       return ResponseHelper.methodNotAllowed();
   }
 };
 
-const eligibilityConfigResetHandler = async (
+const moderationConfigResetHandler = async (
   request: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
   const { configurationService } = await getDependencies();
   const controller = new ConfigurationController(configurationService);
-  return controller.resetEligibilityConfig(request, context);
+  return controller.resetModerationConfig(request, context);
 };
 
-const votingGroupConfigHandler = async (
+app.http('moderation-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/moderation',
+  handler: moderationConfigHandler,
+});
+
+app.http('moderation-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/moderation/reset',
+  handler: moderationConfigResetHandler,
+});
+
+const nominationPolicyConfigHandler = async (
   request: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
@@ -272,48 +1231,313 @@ const votingGroupConfigHandler = async (
 
   switch (request.method) {
     case 'GET':
-      return controller.getVotingGroupConfig(request, context);
+      return controller.getNominationPolicyConfig(request, context);
     case 'PUT':
-      return controller.updateVotingGroupConfig(request, context);
+      return controller.updateNominationPolicyConfig(request, context);
     default:
       return ResponseHelper.methodNotAllowed();
   }
 };
 
-const votingGroupConfigResetHandler = async (
+const nominationPolicyConfigResetHandler = async (
   request: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
   const { configurationService } = await getDependencies();
   const controller = new ConfigurationController(configurationService);
-  return controller.resetVotingGroupConfig(request, context);
+  return controller.resetNominationPolicyConfig(request, context);
 };
 
-// Register Azure Functions
-app.http('eligibility-config', {
+app.http('nomination-policy-config', {
   methods: ['GET', 'PUT', 'OPTIONS'],
   authLevel: 'anonymous',
-  route: 'configuration/eligibility',
-  handler: eligibilityConfigHandler,
+  route: 'configuration/nomination-policy',
+  handler: nominationPolicyConfigHandler,
 });
 
-app.http('eligibility-config-reset', {
+app.http('nomination-policy-config-reset', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
-  route: 'configuration/eligibility/reset',
-  handler: eligibilityConfigResetHandler,
+  route: 'configuration/nomination-policy/reset',
+  handler: nominationPolicyConfigResetHandler,
 });
 
-app.http('voting-group-config', {
+const criteriaConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getCriteriaConfig(request, context);
+    case 'PUT':
+      return controller.updateCriteriaConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const criteriaConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetCriteriaConfig(request, context);
+};
+
+app.http('criteria-config', {
   methods: ['GET', 'PUT', 'OPTIONS'],
   authLevel: 'anonymous',
-  route: 'configuration/voting-groups',
-  handler: votingGroupConfigHandler,
+  route: 'configuration/criteria',
+  handler: criteriaConfigHandler,
 });
 
-app.http('voting-group-config-reset', {
+app.http('criteria-config-reset', {
   methods: ['POST', 'OPTIONS'],
   authLevel: 'anonymous',
-  route: 'configuration/voting-groups/reset',
-  handler: votingGroupConfigResetHandler,
+  route: 'configuration/criteria/reset',
+  handler: criteriaConfigResetHandler,
+});
+
+const rankingPolicyConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getRankingPolicyConfig(request, context);
+    case 'PUT':
+      return controller.updateRankingPolicyConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const rankingPolicyConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetRankingPolicyConfig(request, context);
+};
+
+app.http('ranking-policy-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/ranking-policy',
+  handler: rankingPolicyConfigHandler,
+});
+
+app.http('ranking-policy-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/ranking-policy/reset',
+  handler: rankingPolicyConfigResetHandler,
+});
+
+const winnerSelectionConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getWinnerSelectionConfig(request, context);
+    case 'PUT':
+      return controller.updateWinnerSelectionConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const winnerSelectionConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetWinnerSelectionConfig(request, context);
+};
+
+app.http('winner-selection-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/winner-selection',
+  handler: winnerSelectionConfigHandler,
+});
+
+app.http('winner-selection-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/winner-selection/reset',
+  handler: winnerSelectionConfigResetHandler,
+});
+
+const lifecycleConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getLifecycleConfig(request, context);
+    case 'PUT':
+      return controller.updateLifecycleConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const lifecycleConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetLifecycleConfig(request, context);
+};
+
+app.http('lifecycle-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/lifecycle',
+  handler: lifecycleConfigHandler,
+});
+
+app.http('lifecycle-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/lifecycle/reset',
+  handler: lifecycleConfigResetHandler,
+});
+
+const periodTemplateConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getPeriodTemplateConfig(request, context);
+    case 'PUT':
+      return controller.updatePeriodTemplateConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const periodTemplateConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetPeriodTemplateConfig(request, context);
+};
+
+app.http('period-template-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/period-template',
+  handler: periodTemplateConfigHandler,
+});
+
+app.http('period-template-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/period-template/reset',
+  handler: periodTemplateConfigResetHandler,
+});
+
+const calendarConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getCalendarConfig(request, context);
+    case 'PUT':
+      return controller.updateCalendarConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const calendarConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetCalendarConfig(request, context);
+};
+
+app.http('calendar-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/calendar',
+  handler: calendarConfigHandler,
+});
+
+app.http('calendar-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/calendar/reset',
+  handler: calendarConfigResetHandler,
+});
+
+const yearlyAwardConfigHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getYearlyAwardConfig(request, context);
+    case 'PUT':
+      return controller.updateYearlyAwardConfig(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const yearlyAwardConfigResetHandler = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const { configurationService } = await getDependencies();
+  const controller = new ConfigurationController(configurationService);
+  return controller.resetYearlyAwardConfig(request, context);
+};
+
+app.http('yearly-award-config', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/yearly-award',
+  handler: yearlyAwardConfigHandler,
+});
+
+app.http('yearly-award-config-reset', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'configuration/yearly-award/reset',
+  handler: yearlyAwardConfigResetHandler,
 });
@@ -1,27 +1,67 @@
 import { CosmosClient } from '../../common/utils/CosmosClient';
 import { EligibilityConfigRepository } from './repositories/EligibilityConfigRepository';
 import { VotingGroupConfigRepository } from './repositories/VotingGroupConfigRepository';
+import { ModerationConfigRepository } from './repositories/ModerationConfigRepository';
+import { NominationPolicyConfigRepository } from './repositories/NominationPolicyConfigRepository';
+import { CriteriaConfigRepository } from './repositories/CriteriaConfigRepository';
+import { RankingPolicyConfigRepository } from './repositories/RankingPolicyConfigRepository';
+import { WinnerSelectionConfigRepository } from './repositories/WinnerSelectionConfigRepository';
+import { LifecycleConfigRepository } from './repositories/LifecycleConfigRepository';
+import { PeriodTemplateConfigRepository } from './repositories/PeriodTemplateConfigRepository';
+import { CalendarConfigRepository } from './repositories/CalendarConfigRepository';
+import { YearlyAwardConfigRepository } from './repositories/YearlyAwardConfigRepository';
+import { ProgramRepository } from '../program/repositories/ProgramRepository';
 import { ConfigurationService } from './configuration.service';
 
 /**
  * Configuration Module
  *
  * Provides centralized access to configuration repositories and services.
- * This module manages both eligibility and voting group configurations.
+ * This module manages eligibility, voting group and moderation configurations.
  */
 export class ConfigurationModule {
   private static instance: ConfigurationModule;
 
   private eligibilityConfigRepository: EligibilityConfigRepository;
   private votingGroupConfigRepository: VotingGroupConfigRepository;
+  private moderationConfigRepository: ModerationConfigRepository;
+  private nominationPolicyConfigRepository: NominationPolicyConfigRepository;
+  private criteriaConfigRepository: CriteriaConfigRepository;
+  private rankingPolicyConfigRepository: RankingPolicyConfigRepository;
+  private winnerSelectionConfigRepository: WinnerSelectionConfigRepository;
+  private lifecycleConfigRepository: LifecycleConfigRepository;
+  private periodTemplateConfigRepository: PeriodTemplateConfigRepository;
+  private calendarConfigRepository: CalendarConfigRepository;
+  private yearlyAwardConfigRepository: YearlyAwardConfigRepository;
+  private programRepository: ProgramRepository;
   private configurationService: ConfigurationService;
 
   private constructor(cosmosClient: CosmosClient) {
     this.eligibilityConfigRepository = new EligibilityConfigRepository(cosmosClient);
     this.votingGroupConfigRepository = new VotingGroupConfigRepository(cosmosClient);
+    this.moderationConfigRepository = new ModerationConfigRepository(cosmosClient);
+    this.nominationPolicyConfigRepository = new NominationPolicyConfigRepository(cosmosClient);
+    this.criteriaConfigRepository = new CriteriaConfigRepository(cosmosClient);
+    this.rankingPolicyConfigRepository = new RankingPolicyConfigRepository(cosmosClient);
+    this.winnerSelectionConfigRepository = new WinnerSelectionConfigRepository(cosmosClient);
+    this.lifecycleConfigRepository = new LifecycleConfigRepository(cosmosClient);
+    this.periodTemplateConfigRepository = new PeriodTemplateConfigRepository(cosmosClient);
+    this.calendarConfigRepository = new CalendarConfigRepository(cosmosClient);
+    this.yearlyAwardConfigRepository = new YearlyAwardConfigRepository(cosmosClient);
+    this.programRepository = new ProgramRepository(cosmosClient);
     this.configurationService = new ConfigurationService(
       this.eligibilityConfigRepository,
-      this.votingGroupConfigRepository
+      this.votingGroupConfigRepository,
+      this.moderationConfigRepository,
+      this.nominationPolicyConfigRepository,
+      this.criteriaConfigRepository,
+      this.rankingPolicyConfigRepository,
+      this.winnerSelectionConfigRepository,
+      this.lifecycleConfigRepository,
+      this.periodTemplateConfigRepository,
+      this.calendarConfigRepository,
+      this.yearlyAwardConfigRepository,
+      this.programRepository
     );
   }
 
@@ -59,6 +99,76 @@ export class ConfigurationModule {
     return this.votingGroupConfigRepository;
   }
 
+  /**
+   * Get the moderation configuration repository
+   */
+  getModerationConfigRepository(): ModerationConfigRepository {
+    return this.moderationConfigRepository;
+  }
+
+  /**
+   * Get the nomination policy configuration repository
+   */
+  getNominationPolicyConfigRepository(): NominationPolicyConfigRepository {
+    return this.nominationPolicyConfigRepository;
+  }
+
+  /**
+   * Get the criteria configuration repository
+   */
+  getCriteriaConfigRepository(): CriteriaConfigRepository {
+    return this.criteriaConfigRepository;
+  }
+
+  /**
+   * Get the ranking policy configuration repository
+   */
+  getRankingPolicyConfigRepository(): RankingPolicyConfigRepository {
+    return this.rankingPolicyConfigRepository;
+  }
+
+  /**
+   * Get the winner selection configuration repository
+   */
+  getWinnerSelectionConfigRepository(): WinnerSelectionConfigRepository {
+    return this.winnerSelectionConfigRepository;
+  }
+
+  /**
+   * Get the lifecycle configuration repository
+   */
+  getLifecycleConfigRepository(): LifecycleConfigRepository {
+    return this.lifecycleConfigRepository;
+  }
+
+  /**
+   * Get the period template configuration repository
+   */
+  getPeriodTemplateConfigRepository(): PeriodTemplateConfigRepository {
+    return this.periodTemplateConfigRepository;
+  }
+
+  /**
+   * Get the calendar configuration repository
+   */
+  getCalendarConfigRepository(): CalendarConfigRepository {
+    return this.calendarConfigRepository;
+  }
+
+  /**
+   * Get the yearly award configuration repository
+   */
+  getYearlyAwardConfigRepository(): YearlyAwardConfigRepository {
+    return this.yearlyAwardConfigRepository;
+  }
+
+  /**
+   * Get the program repository, used for per-program eligibility and criteria overrides
+   */
+  getProgramRepository(): ProgramRepository {
+    return this.programRepository;
+  }
+
   /**
    * Get the configuration service
    */
@@ -1,24 +1,73 @@
 import { EligibilityConfigRepository } from './repositories/EligibilityConfigRepository';
 import { VotingGroupConfigRepository } from './repositories/VotingGroupConfigRepository';
+import { ModerationConfigRepository } from './repositories/ModerationConfigRepository';
+import { NominationPolicyConfigRepository } from './repositories/NominationPolicyConfigRepository';
+import { CriteriaConfigRepository } from './repositories/CriteriaConfigRepository';
+import { RankingPolicyConfigRepository } from './repositories/RankingPolicyConfigRepository';
+import { WinnerSelectionConfigRepository } from './repositories/WinnerSelectionConfigRepository';
+import { LifecycleConfigRepository } from './repositories/LifecycleConfigRepository';
+import { PeriodTemplateConfigRepository } from './repositories/PeriodTemplateConfigRepository';
+import { CalendarConfigRepository } from './repositories/CalendarConfigRepository';
+import { YearlyAwardConfigRepository } from './repositories/YearlyAwardConfigRepository';
 import { EligibilityConfig } from './models/eligibility-config.model';
 import { VotingGroupConfig } from './models/voting-group-config.model';
+import { ModerationConfig } from './models/moderation-config.model';
+import {
+  NominationPolicyConfig,
+  NominationPolicyRules,
+} from './models/nomination-policy-config.model';
+import { CriteriaConfig, CriterionDefinition } from './models/criteria-config.model';
+import { RankingPolicyConfig } from './models/ranking-policy-config.model';
+import {
+  GENERAL_WINNER_STRATEGIES,
+  WinnerSelectionConfig,
+} from './models/winner-selection-config.model';
+import { LifecycleConfig } from './models/lifecycle-config.model';
+import { PERIOD_CADENCES, PeriodTemplateConfig } from './models/period-template-config.model';
+import { CalendarConfig } from './models/calendar-config.model';
+import {
+  YEARLY_CANDIDATE_POOLS,
+  YEARLY_SELECTION_METHODS,
+  YearlyAwardConfig,
+} from './models/yearly-award-config.model';
+import { CalendarHelper } from '../../common/utils/CalendarHelper';
+import { ProgramRepository } from '../program/repositories/ProgramRepository';
 
 export class ConfigurationService {
   constructor(
     private eligibilityConfigRepository: EligibilityConfigRepository,
-    private votingGroupConfigRepository: VotingGroupConfigRepository
+    private votingGroupConfigRepository: VotingGroupConfigRepository,
+    private moderationConfigRepository: ModerationConfigRepository,
+    private nominationPolicyConfigRepository: NominationPolicyConfigRepository,
+    private criteriaConfigRepository: CriteriaConfigRepository,
+    private rankingPolicyConfigRepository: RankingPolicyConfigRepository,
+    private winnerSelectionConfigRepository: WinnerSelectionConfigRepository,
+    private lifecycleConfigRepository: LifecycleConfigRepository,
+    private periodTemplateConfigRepository: PeriodTemplateConfigRepository,
+    private calendarConfigRepository: CalendarConfigRepository,
+    private yearlyAwardConfigRepository: YearlyAwardConfigRepository,
+    private programRepository?: ProgramRepository
   ) {}
 
   // Eligibility Configuration Methods
-  async getEligibilityConfig(): Promise<EligibilityConfig> {
-    return this.eligibilityConfigRepository.getConfig();
+  /**
+   * Global eligibility config, with the program's overrides applied when a programId is given
+   */
+  async getEligibilityConfig(programId?: string): Promise<EligibilityConfig> {
+    const config = await this.eligibilityConfigRepository.getConfig();
+    if (!programId || !this.programRepository) {
+      return config;
+    }
+
+    const program = await this.programRepository.findById(programId);
+    if (!program?.eligibility) {
+      return config;
+    }
+    return { ...config, ...program.eligibility, id: config.id };
   }
 
   async updateEligibilityConfig(config: Partial<EligibilityConfig>): Promise<EligibilityConfig> {
-    // Validate input
-    if (config.minimumDaysForEligibility !== undefined && config.minimumDaysForEligibility < 0) {
-      throw new Error('minimumDaysForEligibility must be >= 0');
-    }
+    this.validateEligibilityConfig(config);
 
     return this.eligibilityConfigRepository.upsertConfig(config);
   }
@@ -27,6 +76,22 @@ export class ConfigurationService {
     return this.eligibilityConfigRepository.resetToDefaults();
   }
 
+  validateEligibilityConfig(config: Partial<EligibilityConfig>): void {
+    if (config.minimumDaysForEligibility !== undefined && config.minimumDaysForEligibility < 0) {
+      throw new Error('minimumDaysForEligibility must be >= 0');
+    }
+
+    if (config.winnerCooldown !== undefined) {
+      const fields = ['groupWinPeriods', 'generalWinPeriods'] as const;
+      for (const field of fields) {
+        const value = config.winnerCooldown?.[field];
+        if (!Number.isInteger(value) || (value as number) < 0) {
+          throw new Error(`winnerCooldown.${field} must be an integer >= 0`);
+        }
+      }
+    }
+  }
+
   // Voting Group Configuration Methods
   async getVotingGroupConfig(): Promise<VotingGroupConfig> {
     return this.votingGroupConfigRepository.getConfig();
@@ -44,4 +109,432 @@ export class ConfigurationService {
   async resetVotingGroupConfig(): Promise<VotingGroupConfig> {
     return this.votingGroupConfigRepository.resetToDefaults();
   }
+
+  // Moderation Configuration Methods
+  async getModerationConfig(programId?: string): Promise<ModerationConfig> {
+    const config = await this.moderationConfigRepository.getConfig();
+    if (!programId || !this.programRepository) {
+      return config;
+    }
+
+    const program = await this.programRepository.findById(programId);
+    if (!program?.moderation) {
+      return config;
+    }
+    return { ...config, ...program.moderation, id: config.id };
+  }
+
+  async updateModerationConfig(config: Partial<ModerationConfig>): Promise<ModerationConfig> {
+    this.validateModerationConfig(config);
+
+    return this.moderationConfigRepository.upsertConfig(config);
+  }
+
+  validateModerationConfig(config: Partial<ModerationConfig>): void {
+    if (config.enabled !== undefined && typeof config.enabled !== 'boolean') {
+      throw new Error('enabled must be a boolean');
+    }
+    if (config.exemptVotingGroups !== undefined && !Array.isArray(config.exemptVotingGroups)) {
+      throw new Error('exemptVotingGroups must be an array of voting group names');
+    }
+  }
+
+  async resetModerationConfig(): Promise<ModerationConfig> {
+    return this.moderationConfigRepository.resetToDefaults();
+  }
+
+  /**
+   * Whether nominations for the given voting group must go through the moderation queue.
+   * A program's moderation settings override the global ones.
+   */
+  async requiresModeration(votingGroup?: string, programId?: string): Promise<boolean> {
+    const config = await this.getModerationConfig(programId);
+    if (!config.enabled) {
+      return false;
+    }
+    return !votingGroup || !config.exemptVotingGroups.includes(votingGroup);
+  }
+
+  // Nomination Policy Configuration Methods
+  /**
+   * Global nomination policy, with the program's overrides applied when a programId is given.
+   * A program's votingGroupOverrides replace the global list.
+   */
+  async getNominationPolicyConfig(programId?: string): Promise<NominationPolicyConfig> {
+    const config = await this.nominationPolicyConfigRepository.getConfig();
+    if (!programId || !this.programRepository) {
+      return config;
+    }
+
+    const program = await this.programRepository.findById(programId);
+    if (!program?.nominationPolicy) {
+      return config;
+    }
+    return { ...config, ...program.nominationPolicy, id: config.id };
+  }
+
+  async updateNominationPolicyConfig(
+    config: Partial<NominationPolicyConfig>
+  ): Promise<NominationPolicyConfig> {
+    this.validateNominationPolicyConfig(config);
+
+    return this.nominationPolicyConfigRepository.upsertConfig(config);
+  }
+
+  validateNominationPolicyConfig(config: Partial<NominationPolicyConfig>): void {
+    if (
+      config.maxNominationsPerNominator !== undefined &&
+      (!Number.isInteger(config.maxNominationsPerNominator) ||
+        config.maxNominationsPerNominator < 1)
+    ) {
+      throw new Error('maxNominationsPerNominator must be an integer >= 1');
+    }
+
+    if (
+      config.sameVotingGroupRule !== undefined &&
+      !['strict', 'warn', 'off'].includes(config.sameVotingGroupRule)
+    ) {
+      throw new Error('sameVotingGroupRule must be one of: strict, warn, off');
+    }
+
+    for (const override of config.votingGroupOverrides ?? []) {
+      if (!override.votingGroup) {
+        throw new Error('Each voting group override must specify a votingGroup');
+      }
+      if (
+        override.maxNominationsPerNominator !== undefined &&
+        (!Number.isInteger(override.maxNominationsPerNominator) ||
+          override.maxNominationsPerNominator < 1)
+      ) {
+        throw new Error(
+          `maxNominationsPerNominator for ${override.votingGroup} must be an integer >= 1`
+        );
+      }
+    }
+  }
+
+  async resetNominationPolicyConfig(): Promise<NominationPolicyConfig> {
+    return this.nominationPolicyConfigRepository.resetToDefaults();
+  }
+
+  /**
+   * Resolve the nomination rules that apply to a nominator, merging any override for their voting group
+   */
+  async getNominationPolicyForGroup(
+    votingGroup?: string,
+    programId?: string
+  ): Promise<NominationPolicyRules> {
+    const config = await this.getNominationPolicyConfig(programId);
+    const override = votingGroup
+      ? config.votingGroupOverrides?.find(o => o.votingGroup === votingGroup)
+      : undefined;
+
+    return {
+      maxNominationsPerNominator:
+        override?.maxNominationsPerNominator ?? config.maxNominationsPerNominator,
+      forbidDuplicateNominee: override?.forbidDuplicateNominee ?? config.forbidDuplicateNominee,
+    };
+  }
+
+  // Criteria Configuration Methods
+  async getCriteriaConfig(): Promise<CriteriaConfig> {
+    return this.criteriaConfigRepository.getConfig();
+  }
+
+  async updateCriteriaConfig(config: Partial<CriteriaConfig>): Promise<CriteriaConfig> {
+    if (config.criteria !== undefined) {
+      this.validateCriteriaDefinitions(config.criteria, 'criteria');
+    }
+
+    for (const set of config.yearlyCriteria ?? []) {
+      if (!Number.isInteger(set.year)) {
+        throw new Error('Each yearly criteria set must specify a year');
+      }
+      this.validateCriteriaDefinitions(set.criteria, `criteria for ${set.year}`);
+    }
+
+    return this.criteriaConfigRepository.upsertConfig(config);
+  }
+
+  async resetCriteriaConfig(): Promise<CriteriaConfig> {
+    return this.criteriaConfigRepository.resetToDefaults();
+  }
+
+  /**
+   * Criteria set that new voting periods of the given year should snapshot. A program with its
+   * own criteria catalog uses it instead of the global one.
+   */
+  async getCriteriaForYear(year: number, programId?: string): Promise<CriterionDefinition[]> {
+    if (programId && this.programRepository) {
+      const program = await this.programRepository.findById(programId);
+      if (program?.criteria?.length) {
+        return program.criteria;
+      }
+    }
+
+    const config = await this.getCriteriaConfig();
+    const yearlySet = config.yearlyCriteria?.find(set => set.year === year);
+    return yearlySet ? yearlySet.criteria : config.criteria;
+  }
+
+  validateCriteriaDefinitions(criteria: CriterionDefinition[], name: string): void {
+    if (!Array.isArray(criteria) || criteria.length === 0) {
+      throw new Error(`${name} must contain at least one criterion`);
+    }
+
+    const keys = new Set<string>();
+    for (const criterion of criteria) {
+      if (!criterion.key || !/^[A-Za-z][A-Za-z0-9]*$/.test(criterion.key)) {
+        throw new Error(`${name}: each criterion needs an alphanumeric key`);
+      }
+      if (keys.has(criterion.key)) {
+        throw new Error(`${name}: duplicate criterion key ${criterion.key}`);
+      }
+      keys.add(criterion.key);
+
+      if (!criterion.label || criterion.label.trim().length === 0) {
+        throw new Error(`${name}: criterion ${criterion.key} needs a label`);
+      }
+      if (
+        !Number.isInteger(criterion.min) ||
+        !Number.isInteger(criterion.max) ||
+        criterion.min >= criterion.max
+      ) {
+        throw new Error(`${name}: criterion ${criterion.key} needs integer min < max`);
+      }
+    }
+  }
+
+  // Ranking Policy Configuration Methods
+  async getRankingPolicyConfig(programId?: string): Promise<RankingPolicyConfig> {
+    const config = await this.rankingPolicyConfigRepository.getConfig();
+    if (!programId || !this.programRepository) {
+      return config;
+    }
+
+    const program = await this.programRepository.findById(programId);
+    if (!program?.rankingPolicy) {
+      return config;
+    }
+    return { ...config, ...program.rankingPolicy, id: config.id };
+  }
+
+  async updateRankingPolicyConfig(
+    config: Partial<RankingPolicyConfig>
+  ): Promise<RankingPolicyConfig> {
+    this.validateRankingPolicyConfig(config);
+
+    return this.rankingPolicyConfigRepository.upsertConfig(config);
+  }
+
+  validateRankingPolicyConfig(config: Partial<RankingPolicyConfig>): void {
+    if (
+      config.mode !== undefined &&
+      !['count', 'weighted_score', 'count_then_score'].includes(config.mode)
+    ) {
+      throw new Error('mode must be one of: count, weighted_score, count_then_score');
+    }
+
+    for (const [key, weight] of Object.entries(config.criteriaWeights ?? {})) {
+      if (typeof weight !== 'number' || weight < 0) {
+        throw new Error(`Weight for ${key} must be a number >= 0`);
+      }
+    }
+
+    for (const tieBreaker of config.tieBreakers ?? []) {
+      if (!['earliest_nomination', 'higher_average', 'committee'].includes(tieBreaker)) {
+        throw new Error(
+          'tieBreakers must only contain: earliest_nomination, higher_average, committee'
+        );
+      }
+    }
+  }
+
+  async resetRankingPolicyConfig(): Promise<RankingPolicyConfig> {
+    return this.rankingPolicyConfigRepository.resetToDefaults();
+  }
+
+  // Winner Selection Configuration Methods
+  async getWinnerSelectionConfig(programId?: string): Promise<WinnerSelectionConfig> {
+    const config = await this.winnerSelectionConfigRepository.getConfig();
+    if (!programId || !this.programRepository) {
+      return config;
+    }
+
+    const program = await this.programRepository.findById(programId);
+    if (!program?.winnerSelection) {
+      return config;
+    }
+    return { ...config, ...program.winnerSelection, id: config.id };
+  }
+
+  async updateWinnerSelectionConfig(
+    config: Partial<WinnerSelectionConfig>
+  ): Promise<WinnerSelectionConfig> {
+    this.validateWinnerSelectionConfig(config);
+
+    return this.winnerSelectionConfigRepository.upsertConfig(config);
+  }
+
+  validateWinnerSelectionConfig(config: Partial<WinnerSelectionConfig>): void {
+    if (
+      config.generalWinnerStrategy !== undefined &&
+      !GENERAL_WINNER_STRATEGIES.includes(config.generalWinnerStrategy)
+    ) {
+      throw new Error(
+        `generalWinnerStrategy must be one of: ${GENERAL_WINNER_STRATEGIES.join(', ')}`
+      );
+    }
+  }
+
+  async resetWinnerSelectionConfig(): Promise<WinnerSelectionConfig> {
+    return this.winnerSelectionConfigRepository.resetToDefaults();
+  }
+
+  // Lifecycle Configuration Methods
+  async getLifecycleConfig(): Promise<LifecycleConfig> {
+    return this.lifecycleConfigRepository.getConfig();
+  }
+
+  async updateLifecycleConfig(config: Partial<LifecycleConfig>): Promise<LifecycleConfig> {
+    const flags: (keyof LifecycleConfig)[] = [
+      'enabled',
+      'activatePendingPeriods',
+      'closeExpiredPeriods',
+      'selectWinnersOnClose',
+    ];
+    for (const flag of flags) {
+      if (config[flag] !== undefined && typeof config[flag] !== 'boolean') {
+        throw new Error(`${flag} must be a boolean`);
+      }
+    }
+
+    return this.lifecycleConfigRepository.upsertConfig(config);
+  }
+
+  async resetLifecycleConfig(): Promise<LifecycleConfig> {
+    return this.lifecycleConfigRepository.resetToDefaults();
+  }
+
+  // Period Template Configuration Methods
+  async getPeriodTemplateConfig(): Promise<PeriodTemplateConfig> {
+    return this.periodTemplateConfigRepository.getConfig();
+  }
+
+  async updatePeriodTemplateConfig(
+    config: Partial<PeriodTemplateConfig>
+  ): Promise<PeriodTemplateConfig> {
+    if (config.cadence !== undefined && !PERIOD_CADENCES.includes(config.cadence)) {
+      throw new Error(`cadence must be one of: ${PERIOD_CADENCES.join(', ')}`);
+    }
+
+    const current = await this.periodTemplateConfigRepository.getConfig();
+    const cadence = config.cadence ?? current.cadence;
+    const intervalDays = config.intervalDays ?? current.intervalDays;
+    if (cadence === 'custom' && !intervalDays) {
+      throw new Error('intervalDays is required for the custom cadence');
+    }
+
+    const positiveIntegerFields = [
+      'intervalDays',
+      'durationDays',
+      'votingPhaseDays',
+      'shortlistSize',
+    ] as const;
+    for (const field of positiveIntegerFields) {
+      const value = config[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`${field} must be a positive integer`);
+      }
+    }
+
+    if (config.namePattern !== undefined && !config.namePattern.trim()) {
+      throw new Error('namePattern cannot be empty');
+    }
+
+    return this.periodTemplateConfigRepository.upsertConfig(config);
+  }
+
+  async resetPeriodTemplateConfig(): Promise<PeriodTemplateConfig> {
+    return this.periodTemplateConfigRepository.resetToDefaults();
+  }
+
+  // Calendar Configuration Methods
+  async getCalendarConfig(): Promise<CalendarConfig> {
+    return this.calendarConfigRepository.getConfig();
+  }
+
+  async updateCalendarConfig(config: Partial<CalendarConfig>): Promise<CalendarConfig> {
+    if (config.timezone !== undefined && !CalendarHelper.isValidTimezone(config.timezone)) {
+      throw new Error(`Unknown timezone: ${config.timezone}`);
+    }
+
+    if (config.weekendDays !== undefined) {
+      if (
+        !Array.isArray(config.weekendDays) ||
+        config.weekendDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)
+      ) {
+        throw new Error('weekendDays must be a list of days between 0 (Sunday) and 6 (Saturday)');
+      }
+      if (new Set(config.weekendDays).size > 6) {
+        throw new Error('At least one day of the week must be a business day');
+      }
+    }
+
+    if (config.holidays !== undefined) {
+      if (
+        !Array.isArray(config.holidays) ||
+        config.holidays.some(
+          holiday => !/^\d{4}-\d{2}-\d{2}$/.test(holiday) || isNaN(Date.parse(holiday))
+        )
+      ) {
+        throw new Error('holidays must be a list of dates in YYYY-MM-DD format');
+      }
+      config.holidays = [...new Set(config.holidays)].sort();
+    }
+
+    if (
+      config.shiftEndToBusinessDay !== undefined &&
+      typeof config.shiftEndToBusinessDay !== 'boolean'
+    ) {
+      throw new Error('shiftEndToBusinessDay must be a boolean');
+    }
+
+    return this.calendarConfigRepository.upsertConfig(config);
+  }
+
+  async resetCalendarConfig(): Promise<CalendarConfig> {
+    return this.calendarConfigRepository.resetToDefaults();
+  }
+
+  // Yearly Award Configuration Methods
+  async getYearlyAwardConfig(): Promise<YearlyAwardConfig> {
+    return this.yearlyAwardConfigRepository.getConfig();
+  }
+
+  async updateYearlyAwardConfig(config: Partial<YearlyAwardConfig>): Promise<YearlyAwardConfig> {
+    this.validateYearlyAwardConfig(config);
+
+    return this.yearlyAwardConfigRepository.upsertConfig(config);
+  }
+
+  async resetYearlyAwardConfig(): Promise<YearlyAwardConfig> {
+    return this.yearlyAwardConfigRepository.resetToDefaults();
+  }
+
+  validateYearlyAwardConfig(config: Partial<YearlyAwardConfig>): void {
+    if (
+      config.candidatePool !== undefined &&
+      !YEARLY_CANDIDATE_POOLS.includes(config.candidatePool)
+    ) {
+      throw new Error(`candidatePool must be one of: ${YEARLY_CANDIDATE_POOLS.join(', ')}`);
+    }
+
+    if (
+      config.selectionMethod !== undefined &&
+      !YEARLY_SELECTION_METHODS.includes(config.selectionMethod)
+    ) {
+      throw new Error(`selectionMethod must be one of: ${YEARLY_SELECTION_METHODS.join(', ')}`);
+    }
+  }
 }
@@ -0,0 +1,17 @@
+export interface CalendarConfig {
+  id: string; // Use 'calendar' as single document ID
+  timezone: string; // IANA timezone period boundaries are calculated in, e.g. 'America/Mexico_City'
+  weekendDays: number[]; // Days that aren't business days, 0 = Sunday ... 6 = Saturday
+  holidays: string[]; // Non-business dates as YYYY-MM-DD in the organization's timezone
+  shiftEndToBusinessDay: boolean; // Move calculated period ends off weekends and holidays
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_CALENDAR_CONFIG: CalendarConfig = {
+  id: 'calendar',
+  timezone: 'UTC',
+  weekendDays: [0, 6],
+  holidays: [],
+  shiftEndToBusinessDay: false,
+};
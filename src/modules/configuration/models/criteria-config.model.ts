@@ -0,0 +1,52 @@
+export interface CriterionDefinition {
+  key: string; // Property name used in nomination.criteria (e.g. 'customerFocus')
+  label: string; // Display name shown in the nomination form
+  min: number; // Lowest allowed score
+  max: number; // Highest allowed score
+  required: boolean; // Optional criteria may be left out of a nomination
+}
+
+export interface YearlyCriteriaSet {
+  year: number;
+  criteria: CriterionDefinition[];
+}
+
+export interface CriteriaConfig {
+  id: string; // Use 'criteria' as single document ID
+  criteria: CriterionDefinition[]; // Default criteria set
+  yearlyCriteria?: YearlyCriteriaSet[]; // Replaces the default set for voting periods of that year
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_CRITERIA: CriterionDefinition[] = [
+  { key: 'communication', label: 'Communication', min: 1, max: 5, required: true },
+  { key: 'innovation', label: 'Innovation', min: 1, max: 5, required: true },
+  { key: 'leadership', label: 'Leadership', min: 1, max: 5, required: true },
+  { key: 'problemSolving', label: 'Problem Solving', min: 1, max: 5, required: true },
+  { key: 'reliability', label: 'Reliability', min: 1, max: 5, required: true },
+  { key: 'teamwork', label: 'Teamwork', min: 1, max: 5, required: true },
+];
+
+export const DEFAULT_CRITERIA_CONFIG: CriteriaConfig = {
+  id: 'criteria',
+  criteria: DEFAULT_CRITERIA,
+  yearlyCriteria: [],
+};
+
+/**
+ * Example configuration:
+ * {
+ *   criteria: [...DEFAULT_CRITERIA],
+ *   yearlyCriteria: [
+ *     {
+ *       year: 2026,
+ *       criteria: [
+ *         { key: 'communication', label: 'Communication', min: 1, max: 5, required: true },
+ *         { key: 'customerFocus', label: 'Customer Focus', min: 1, max: 5, required: true },
+ *         { key: 'safety', label: 'Safety', min: 1, max: 5, required: false }
+ *       ]
+ *     }
+ *   ]
+ * }
+ */
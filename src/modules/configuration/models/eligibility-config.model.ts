@@ -11,6 +11,11 @@ export interface EligibilityConfig {
     divisor: number; // Divide total votes by this number (e.g., 25 means 1 winner per 25 votes)
     minWinners: number; // Minimum number of winners (e.g., 1)
   };
+  winnerCooldown?: {
+    // Recent winners are skipped when tallying and the next person is promoted
+    groupWinPeriods: number; // No group win within the program's last N periods (0 = off)
+    generalWinPeriods: number; // No general win within the program's last M periods (0 = off)
+  };
   customRules?: {
     // Optional custom rules
     allowedCompanyCodes?: string[]; // If set, only these company codes are eligible
@@ -33,5 +38,9 @@ export const DEFAULT_ELIGIBILITY_CONFIG: EligibilityConfig = {
     divisor: 25, // 1 winner per 25 votes
     minWinners: 1, // At least 1 winner
   },
+  winnerCooldown: {
+    groupWinPeriods: 0,
+    generalWinPeriods: 0,
+  },
   customRules: {},
 };
@@ -0,0 +1,17 @@
+export interface LifecycleConfig {
+  id: string; // Use 'lifecycle' as single document ID
+  enabled: boolean; // Master switch for the scheduled lifecycle job
+  activatePendingPeriods: boolean; // Open the next pending period once its startDate is reached
+  closeExpiredPeriods: boolean; // Close active periods whose endDate has passed
+  selectWinnersOnClose: boolean; // Select the general winner right after the job closes a period
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_LIFECYCLE_CONFIG: LifecycleConfig = {
+  id: 'lifecycle',
+  enabled: false,
+  activatePendingPeriods: true,
+  closeExpiredPeriods: true,
+  selectWinnersOnClose: false,
+};
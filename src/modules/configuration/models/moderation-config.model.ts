@@ -0,0 +1,13 @@
+export interface ModerationConfig {
+  id: string; // Use 'moderation' as single document ID
+  enabled: boolean; // When true, new nominations start as pending and must be approved by a moderator
+  exemptVotingGroups: string[]; // Voting groups (usually small ones) whose nominations are approved automatically
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_MODERATION_CONFIG: ModerationConfig = {
+  id: 'moderation',
+  enabled: true,
+  exemptVotingGroups: [],
+};
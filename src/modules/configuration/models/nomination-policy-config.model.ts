@@ -0,0 +1,40 @@
+// strict: reject cross-group nominations, warn: accept but flag them, off: no check
+export type SameVotingGroupRule = 'strict' | 'warn' | 'off';
+
+export interface NominationPolicyRules {
+  maxNominationsPerNominator: number; // How many nominations an employee can submit per voting period
+  forbidDuplicateNominee: boolean; // Prevent nominating the same colleague more than once per period
+}
+
+export interface NominationPolicyOverride extends Partial<NominationPolicyRules> {
+  votingGroup: string; // Voting group of the nominator this override applies to
+}
+
+export interface NominationPolicyConfig extends NominationPolicyRules {
+  id: string; // Use 'nomination-policy' as single document ID
+  sameVotingGroupRule: SameVotingGroupRule; // Whether nominator and nominee must share a voting group
+  votingGroupOverrides?: NominationPolicyOverride[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_NOMINATION_POLICY_CONFIG: NominationPolicyConfig = {
+  id: 'nomination-policy',
+  maxNominationsPerNominator: 1,
+  forbidDuplicateNominee: true,
+  sameVotingGroupRule: 'warn',
+  votingGroupOverrides: [],
+};
+
+/**
+ * Example configuration:
+ * {
+ *   maxNominationsPerNominator: 1,
+ *   forbidDuplicateNominee: true,
+ *   sameVotingGroupRule: 'strict',
+ *   votingGroupOverrides: [
+ *     { votingGroup: 'Miami', maxNominationsPerNominator: 3 },
+ *     { votingGroup: 'Orlando', maxNominationsPerNominator: 2 }
+ *   ]
+ * }
+ */
@@ -0,0 +1,25 @@
+// monthly: calendar months
+// quarterly: calendar quarters
+// biweekly: every 14 days from the first start date
+// custom: every intervalDays days from the first start date
+export type PeriodCadence = 'monthly' | 'quarterly' | 'biweekly' | 'custom';
+
+export const PERIOD_CADENCES: PeriodCadence[] = ['monthly', 'quarterly', 'biweekly', 'custom'];
+
+export interface PeriodTemplateConfig {
+  id: string; // Use 'period-template' as single document ID
+  cadence: PeriodCadence;
+  intervalDays?: number; // Days between period starts, required for the 'custom' cadence
+  namePattern: string; // Tokens: {year} {month} {monthName} {quarter} {sequence}
+  durationDays?: number; // Days each period stays open, defaults to the whole interval
+  votingPhaseDays?: number; // When set, the last N days of each period are the voting phase
+  shortlistSize?: number; // Shortlist size of the voting phase
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_PERIOD_TEMPLATE_CONFIG: PeriodTemplateConfig = {
+  id: 'period-template',
+  cadence: 'monthly',
+  namePattern: '{monthName} {year}',
+};
@@ -0,0 +1,33 @@
+// count: nominations only, weighted_score: composite criteria score only,
+// count_then_score: nominations first, composite score breaks ties
+export type RankingMode = 'count' | 'weighted_score' | 'count_then_score';
+
+// earliest_nomination: whoever received their first nomination earlier ranks higher
+// higher_average: higher unweighted average of all criteria ranks higher
+// committee: stop here and flag the tie so the committee decides
+export type TieBreaker = 'earliest_nomination' | 'higher_average' | 'committee';
+
+export interface RankingPolicyConfig {
+  id: string; // Use 'ranking-policy' as single document ID
+  mode: RankingMode;
+  criteriaWeights: Record<string, number>; // Weight per criterion key, criteria not listed weigh 1
+  tieBreakers: TieBreaker[]; // Applied in order until the tie is resolved
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_RANKING_POLICY_CONFIG: RankingPolicyConfig = {
+  id: 'ranking-policy',
+  mode: 'count_then_score',
+  criteriaWeights: {},
+  tieBreakers: ['earliest_nomination'],
+};
+
+/**
+ * Example configuration:
+ * {
+ *   mode: 'weighted_score',
+ *   criteriaWeights: { leadership: 2, teamwork: 1.5 },
+ *   tieBreakers: ['higher_average', 'committee']
+ * }
+ */
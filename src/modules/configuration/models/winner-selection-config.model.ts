@@ -0,0 +1,24 @@
+// random: uniform draw among group winners
+// highest_score: group winner with the highest normalized score (share of their group's nominations)
+// weighted_random: draw among group winners weighted by nomination count
+// committee: an admin records the committee's choice among group winners
+export type GeneralWinnerStrategy = 'random' | 'highest_score' | 'weighted_random' | 'committee';
+
+export const GENERAL_WINNER_STRATEGIES: GeneralWinnerStrategy[] = [
+  'random',
+  'highest_score',
+  'weighted_random',
+  'committee',
+];
+
+export interface WinnerSelectionConfig {
+  id: string; // Use 'winner-selection' as single document ID
+  generalWinnerStrategy: GeneralWinnerStrategy; // Used when the voting period doesn't set its own
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_WINNER_SELECTION_CONFIG: WinnerSelectionConfig = {
+  id: 'winner-selection',
+  generalWinnerStrategy: 'random',
+};
@@ -0,0 +1,30 @@
+// general: the monthly general winners of the year
+// group: every group winner of the year
+export type YearlyCandidatePool = 'general' | 'group';
+
+export const YEARLY_CANDIDATE_POOLS: YearlyCandidatePool[] = ['general', 'group'];
+
+// committee_vote: ranked ballots from committee members (judges), counted by instant runoff
+// employee_vote: ranked ballots from every employee, counted by instant runoff
+// highest_nominations: candidate with the most nominations across their wins of the year
+export type YearlySelectionMethod = 'committee_vote' | 'employee_vote' | 'highest_nominations';
+
+export const YEARLY_SELECTION_METHODS: YearlySelectionMethod[] = [
+  'committee_vote',
+  'employee_vote',
+  'highest_nominations',
+];
+
+export interface YearlyAwardConfig {
+  id: string; // Use 'yearly-award' as single document ID
+  candidatePool: YearlyCandidatePool; // Used when opening the yearly award doesn't set its own
+  selectionMethod: YearlySelectionMethod;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const DEFAULT_YEARLY_AWARD_CONFIG: YearlyAwardConfig = {
+  id: 'yearly-award',
+  candidatePool: 'general',
+  selectionMethod: 'employee_vote',
+};
@@ -0,0 +1,69 @@
+import { CalendarConfig, DEFAULT_CALENDAR_CONFIG } from '../models/calendar-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class CalendarConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'calendar';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the calendar configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<CalendarConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<CalendarConfig>();
+      return resource || DEFAULT_CALENDAR_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_CALENDAR_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the calendar configuration
+   */
+  async upsertConfig(config: Partial<CalendarConfig>): Promise<CalendarConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: CalendarConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'calendar'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<CalendarConfig>(updatedConfig);
+    return resource as CalendarConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<CalendarConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: CalendarConfig = {
+      ...DEFAULT_CALENDAR_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<CalendarConfig>(config);
+    return resource as CalendarConfig;
+  }
+}
@@ -0,0 +1,69 @@
+import { CriteriaConfig, DEFAULT_CRITERIA_CONFIG } from '../models/criteria-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class CriteriaConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'criteria';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the criteria configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<CriteriaConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<CriteriaConfig>();
+      return resource || DEFAULT_CRITERIA_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_CRITERIA_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the criteria configuration
+   */
+  async upsertConfig(config: Partial<CriteriaConfig>): Promise<CriteriaConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: CriteriaConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'criteria'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<CriteriaConfig>(updatedConfig);
+    return resource as CriteriaConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<CriteriaConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: CriteriaConfig = {
+      ...DEFAULT_CRITERIA_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<CriteriaConfig>(config);
+    return resource as CriteriaConfig;
+  }
+}
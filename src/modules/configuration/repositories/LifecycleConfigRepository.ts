@@ -0,0 +1,69 @@
+import { LifecycleConfig, DEFAULT_LIFECYCLE_CONFIG } from '../models/lifecycle-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class LifecycleConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'lifecycle';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the lifecycle configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<LifecycleConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<LifecycleConfig>();
+      return resource || DEFAULT_LIFECYCLE_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_LIFECYCLE_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the lifecycle configuration
+   */
+  async upsertConfig(config: Partial<LifecycleConfig>): Promise<LifecycleConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: LifecycleConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'lifecycle'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<LifecycleConfig>(updatedConfig);
+    return resource as LifecycleConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<LifecycleConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: LifecycleConfig = {
+      ...DEFAULT_LIFECYCLE_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<LifecycleConfig>(config);
+    return resource as LifecycleConfig;
+  }
+}
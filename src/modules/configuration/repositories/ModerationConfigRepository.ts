@@ -0,0 +1,69 @@
+import { ModerationConfig, DEFAULT_MODERATION_CONFIG } from '../models/moderation-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class ModerationConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'moderation';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the moderation configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<ModerationConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<ModerationConfig>();
+      return resource || DEFAULT_MODERATION_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_MODERATION_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the moderation configuration
+   */
+  async upsertConfig(config: Partial<ModerationConfig>): Promise<ModerationConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: ModerationConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'moderation'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<ModerationConfig>(updatedConfig);
+    return resource as ModerationConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<ModerationConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: ModerationConfig = {
+      ...DEFAULT_MODERATION_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<ModerationConfig>(config);
+    return resource as ModerationConfig;
+  }
+}
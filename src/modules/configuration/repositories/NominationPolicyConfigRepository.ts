@@ -0,0 +1,72 @@
+import {
+  NominationPolicyConfig,
+  DEFAULT_NOMINATION_POLICY_CONFIG,
+} from '../models/nomination-policy-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class NominationPolicyConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'nomination-policy';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the nomination policy configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<NominationPolicyConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<NominationPolicyConfig>();
+      return resource || DEFAULT_NOMINATION_POLICY_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_NOMINATION_POLICY_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the nomination policy configuration
+   */
+  async upsertConfig(config: Partial<NominationPolicyConfig>): Promise<NominationPolicyConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: NominationPolicyConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'nomination-policy'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<NominationPolicyConfig>(updatedConfig);
+    return resource as NominationPolicyConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<NominationPolicyConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: NominationPolicyConfig = {
+      ...DEFAULT_NOMINATION_POLICY_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<NominationPolicyConfig>(config);
+    return resource as NominationPolicyConfig;
+  }
+}
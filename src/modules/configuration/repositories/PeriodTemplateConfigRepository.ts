@@ -0,0 +1,72 @@
+import {
+  PeriodTemplateConfig,
+  DEFAULT_PERIOD_TEMPLATE_CONFIG,
+} from '../models/period-template-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class PeriodTemplateConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'period-template';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the period template configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<PeriodTemplateConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<PeriodTemplateConfig>();
+      return resource || DEFAULT_PERIOD_TEMPLATE_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_PERIOD_TEMPLATE_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the period template configuration
+   */
+  async upsertConfig(config: Partial<PeriodTemplateConfig>): Promise<PeriodTemplateConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: PeriodTemplateConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'period-template'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<PeriodTemplateConfig>(updatedConfig);
+    return resource as PeriodTemplateConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<PeriodTemplateConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: PeriodTemplateConfig = {
+      ...DEFAULT_PERIOD_TEMPLATE_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<PeriodTemplateConfig>(config);
+    return resource as PeriodTemplateConfig;
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  RankingPolicyConfig,
+  DEFAULT_RANKING_POLICY_CONFIG,
+} from '../models/ranking-policy-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class RankingPolicyConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'ranking-policy';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the ranking policy configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<RankingPolicyConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<RankingPolicyConfig>();
+      return resource || DEFAULT_RANKING_POLICY_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_RANKING_POLICY_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the ranking policy configuration
+   */
+  async upsertConfig(config: Partial<RankingPolicyConfig>): Promise<RankingPolicyConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: RankingPolicyConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'ranking-policy'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<RankingPolicyConfig>(updatedConfig);
+    return resource as RankingPolicyConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<RankingPolicyConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: RankingPolicyConfig = {
+      ...DEFAULT_RANKING_POLICY_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<RankingPolicyConfig>(config);
+    return resource as RankingPolicyConfig;
+  }
+}
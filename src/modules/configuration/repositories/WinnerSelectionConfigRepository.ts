@@ -0,0 +1,72 @@
+import {
+  WinnerSelectionConfig,
+  DEFAULT_WINNER_SELECTION_CONFIG,
+} from '../models/winner-selection-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class WinnerSelectionConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'winner-selection';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the winner selection configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<WinnerSelectionConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<WinnerSelectionConfig>();
+      return resource || DEFAULT_WINNER_SELECTION_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_WINNER_SELECTION_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the winner selection configuration
+   */
+  async upsertConfig(config: Partial<WinnerSelectionConfig>): Promise<WinnerSelectionConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: WinnerSelectionConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'winner-selection'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<WinnerSelectionConfig>(updatedConfig);
+    return resource as WinnerSelectionConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<WinnerSelectionConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: WinnerSelectionConfig = {
+      ...DEFAULT_WINNER_SELECTION_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<WinnerSelectionConfig>(config);
+    return resource as WinnerSelectionConfig;
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  YearlyAwardConfig,
+  DEFAULT_YEARLY_AWARD_CONFIG,
+} from '../models/yearly-award-config.model';
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+
+export class YearlyAwardConfigRepository {
+  private readonly containerName = 'configuration';
+  private readonly configId = 'yearly-award';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Get the yearly award configuration. Returns default config if not found.
+   */
+  async getConfig(): Promise<YearlyAwardConfig> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container
+        .item(this.configId, this.configId)
+        .read<YearlyAwardConfig>();
+      return resource || DEFAULT_YEARLY_AWARD_CONFIG;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        // Config doesn't exist, return default
+        return DEFAULT_YEARLY_AWARD_CONFIG;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update or create the yearly award configuration
+   */
+  async upsertConfig(config: Partial<YearlyAwardConfig>): Promise<YearlyAwardConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const currentConfig = await this.getConfig();
+
+    const updatedConfig: YearlyAwardConfig = {
+      ...currentConfig,
+      ...config,
+      id: this.configId, // Ensure ID is always 'yearly-award'
+      updatedAt: new Date(),
+    };
+
+    // Set createdAt only if it doesn't exist
+    if (!updatedConfig.createdAt) {
+      updatedConfig.createdAt = new Date();
+    }
+
+    const { resource } = await container.items.upsert<YearlyAwardConfig>(updatedConfig);
+    return resource as YearlyAwardConfig;
+  }
+
+  /**
+   * Reset configuration to defaults
+   */
+  async resetToDefaults(): Promise<YearlyAwardConfig> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+
+    const config: YearlyAwardConfig = {
+      ...DEFAULT_YEARLY_AWARD_CONFIG,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const { resource } = await container.items.upsert<YearlyAwardConfig>(config);
+    return resource as YearlyAwardConfig;
+  }
+}
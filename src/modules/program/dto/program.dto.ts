@@ -0,0 +1,33 @@
+import { EligibilityConfig } from '../../configuration/models/eligibility-config.model';
+import { CriterionDefinition } from '../../configuration/models/criteria-config.model';
+import { ModerationConfig } from '../../configuration/models/moderation-config.model';
+import { NominationPolicyConfig } from '../../configuration/models/nomination-policy-config.model';
+import { RankingPolicyConfig } from '../../configuration/models/ranking-policy-config.model';
+import { WinnerSelectionConfig } from '../../configuration/models/winner-selection-config.model';
+import { RewardDefinition } from '../../../common/models/WinnerReward';
+
+export interface CreateProgramDto {
+  id: string; // Lowercase slug, e.g. 'safety-champion'
+  name: string;
+  description?: string;
+  eligibility?: Partial<EligibilityConfig>;
+  criteria?: CriterionDefinition[];
+  moderation?: Partial<ModerationConfig>;
+  nominationPolicy?: Partial<NominationPolicyConfig>;
+  rankingPolicy?: Partial<RankingPolicyConfig>;
+  winnerSelection?: Partial<WinnerSelectionConfig>;
+  rewards?: RewardDefinition[];
+}
+
+export interface UpdateProgramDto {
+  name?: string;
+  description?: string;
+  isActive?: boolean;
+  eligibility?: Partial<EligibilityConfig> | null; // null removes the overrides
+  criteria?: CriterionDefinition[] | null; // null goes back to the global criteria catalog
+  moderation?: Partial<ModerationConfig> | null; // null goes back to the global moderation config
+  nominationPolicy?: Partial<NominationPolicyConfig> | null; // null goes back to the global policy
+  rankingPolicy?: Partial<RankingPolicyConfig> | null; // null goes back to the global policy
+  winnerSelection?: Partial<WinnerSelectionConfig> | null; // null goes back to the global config
+  rewards?: RewardDefinition[] | null; // null removes the reward catalogue
+}
@@ -0,0 +1,242 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ResponseHelper } from '../../common/utils/ResponseHelper';
+import { getDependencies } from '../../common/utils/Dependencies';
+import { AuthHelper } from '../../common/utils/AuthHelper';
+import { CreateProgramDto, UpdateProgramDto } from './dto/program.dto';
+
+export class ProgramController {
+  private dependencies: any;
+
+  constructor(dependencies: any) {
+    this.dependencies = dependencies;
+  }
+
+  async getPrograms(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const programs = await this.dependencies.programService.getPrograms();
+      return ResponseHelper.ok(programs);
+    } catch (error) {
+      context.error('Error getting programs:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async createProgram(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as CreateProgramDto;
+      if (!body.id || !body.name) {
+        return ResponseHelper.badRequest('Missing required fields: id, name');
+      }
+
+      const program = await this.dependencies.programService.createProgram(body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(`User ${user.email} created program ${program.id}`);
+      return ResponseHelper.created(program);
+    } catch (error) {
+      context.error('Error creating program:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getProgram(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const programId = request.params.programId;
+      if (!programId) {
+        return ResponseHelper.badRequest('Program ID is required');
+      }
+
+      const program = await this.dependencies.programService.getProgram(programId);
+      return ResponseHelper.ok(program);
+    } catch (error) {
+      context.error('Error getting program:', error);
+      if (error instanceof Error && error.message === 'Program not found') {
+        return ResponseHelper.notFound(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async updateProgram(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const programId = request.params.programId;
+      if (!programId) {
+        return ResponseHelper.badRequest('Program ID is required');
+      }
+
+      const body = (await request.json()) as UpdateProgramDto;
+      const program = await this.dependencies.programService.updateProgram(programId, body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(`User ${user.email} updated program ${programId}`);
+      return ResponseHelper.ok(program);
+    } catch (error) {
+      context.error('Error updating program:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Program not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async migrateToDefaultProgram(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const result = await this.dependencies.programService.migrateToDefaultProgram({
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(
+        `User ${user.email} migrated ${result.votingPeriods} periods, ${result.nominations} nominations and ${result.winners} winners to ${result.programId}`
+      );
+      return ResponseHelper.ok(result);
+    } catch (error) {
+      context.error('Error migrating to the default program:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+}
+
+// Azure Functions handlers
+const programsFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new ProgramController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getPrograms(request, context);
+    case 'POST':
+      return controller.createProgram(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const programFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new ProgramController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getProgram(request, context);
+    case 'PUT':
+      return controller.updateProgram(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const migrateToDefaultProgramFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new ProgramController(dependencies);
+  return controller.migrateToDefaultProgram(request, context);
+};
+
+app.http('programs', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'programs',
+  handler: programsFunction,
+});
+
+app.http('program', {
+  methods: ['GET', 'PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'programs/{programId}',
+  handler: programFunction,
+});
+
+app.http('migrate-to-default-program', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'system/programs/migrate',
+  handler: migrateToDefaultProgramFunction,
+});
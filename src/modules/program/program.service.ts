@@ -0,0 +1,364 @@
+import {
+  DEFAULT_PROGRAM,
+  DEFAULT_PROGRAM_ID,
+  Program,
+  ProgramMigrationResult,
+} from '../../common/models/Program';
+import { AuditService } from '../../common/services/AuditService';
+import { AuditEntity, AuditAction, AuditChange } from '../../common/models/AuditLog';
+import { WinnerType } from '../../common/models/WinnerHistory';
+import { RewardDefinition } from '../../common/models/WinnerReward';
+import { ConfigurationService } from '../configuration/configuration.service';
+import { VotingPeriodRepository } from '../voting/repositories/VotingPeriodRepository';
+import { NominationRepository } from '../voting/repositories/NominationRepository';
+import { WinnerHistoryRepository } from '../voting/repositories/WinnerHistoryRepository';
+import { ProgramRepository } from './repositories/ProgramRepository';
+import { CreateProgramDto, UpdateProgramDto } from './dto/program.dto';
+
+type UserContext = { userId: string; userName: string; userEmail?: string };
+
+const PROGRAM_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export class ProgramService {
+  constructor(
+    private programRepository: ProgramRepository,
+    private votingPeriodRepository: VotingPeriodRepository,
+    private nominationRepository: NominationRepository,
+    private winnerHistoryRepository: WinnerHistoryRepository,
+    private configurationService: ConfigurationService,
+    private auditService?: AuditService
+  ) {}
+
+  /**
+   * All programs. The default program is listed even before the migration has stored it.
+   */
+  async getPrograms(): Promise<Program[]> {
+    const programs = await this.programRepository.findAll();
+    if (!programs.some(program => program.id === DEFAULT_PROGRAM_ID)) {
+      programs.unshift(this.buildDefaultProgram());
+    }
+    return programs;
+  }
+
+  async getProgram(programId: string): Promise<Program> {
+    const program = await this.programRepository.findById(programId);
+    if (program) {
+      return program;
+    }
+    if (programId === DEFAULT_PROGRAM_ID) {
+      return this.buildDefaultProgram();
+    }
+    throw new Error('Program not found');
+  }
+
+  /**
+   * Periods can only be created for existing, active programs
+   */
+  async requireActiveProgram(programId: string): Promise<Program> {
+    const program = await this.getProgram(programId);
+    if (!program.isActive) {
+      throw new Error(`Program ${programId} is not active`);
+    }
+    return program;
+  }
+
+  async createProgram(data: CreateProgramDto, userContext?: UserContext): Promise<Program> {
+    if (!data.id || !PROGRAM_ID_PATTERN.test(data.id)) {
+      throw new Error('id must be a lowercase slug, e.g. safety-champion');
+    }
+    if (!data.name || data.name.trim().length === 0) {
+      throw new Error('name is required');
+    }
+    if (await this.programRepository.findById(data.id)) {
+      throw new Error(`A program with id ${data.id} already exists`);
+    }
+    this.validateOverrides(data);
+
+    const program: Program = {
+      id: data.id,
+      name: data.name.trim(),
+      ...(data.description && { description: data.description }),
+      isActive: true,
+      ...(data.eligibility && { eligibility: data.eligibility }),
+      ...(data.criteria && { criteria: data.criteria }),
+      ...(data.moderation && { moderation: data.moderation }),
+      ...(data.nominationPolicy && { nominationPolicy: data.nominationPolicy }),
+      ...(data.rankingPolicy && { rankingPolicy: data.rankingPolicy }),
+      ...(data.winnerSelection && { winnerSelection: data.winnerSelection }),
+      ...(data.rewards && { rewards: data.rewards }),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const created = await this.programRepository.create(program);
+
+    // Log audit
+    if (this.auditService && userContext) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.PROGRAM,
+          entityId: created.id,
+          action: AuditAction.CREATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          metadata: {
+            name: created.name,
+            hasEligibilityOverrides: !!created.eligibility,
+            hasCriteria: !!created.criteria,
+            hasModerationOverrides: !!created.moderation,
+            hasNominationPolicyOverrides: !!created.nominationPolicy,
+            hasRankingPolicyOverrides: !!created.rankingPolicy,
+            hasWinnerSelectionOverrides: !!created.winnerSelection,
+            rewards: created.rewards?.length ?? 0,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return created;
+  }
+
+  async updateProgram(
+    programId: string,
+    data: UpdateProgramDto,
+    userContext?: UserContext
+  ): Promise<Program> {
+    const stored = await this.programRepository.findById(programId);
+    const program = stored || (await this.getProgram(programId));
+
+    if (data.name !== undefined && data.name.trim().length === 0) {
+      throw new Error('name cannot be empty');
+    }
+    if (data.isActive === false && programId === DEFAULT_PROGRAM_ID) {
+      throw new Error('The default program cannot be deactivated');
+    }
+    this.validateOverrides({
+      eligibility: data.eligibility ?? undefined,
+      criteria: data.criteria ?? undefined,
+      moderation: data.moderation ?? undefined,
+      nominationPolicy: data.nominationPolicy ?? undefined,
+      rankingPolicy: data.rankingPolicy ?? undefined,
+      winnerSelection: data.winnerSelection ?? undefined,
+      rewards: data.rewards ?? undefined,
+    });
+
+    const changes: AuditChange[] = [];
+    const updated: Program = { ...program, updatedAt: new Date() };
+
+    if (data.name !== undefined && data.name.trim() !== program.name) {
+      changes.push({ field: 'name', oldValue: program.name, newValue: data.name.trim() });
+      updated.name = data.name.trim();
+    }
+    if (data.description !== undefined && data.description !== program.description) {
+      changes.push({
+        field: 'description',
+        oldValue: program.description,
+        newValue: data.description,
+      });
+      updated.description = data.description;
+    }
+    if (data.isActive !== undefined && data.isActive !== program.isActive) {
+      changes.push({ field: 'isActive', oldValue: program.isActive, newValue: data.isActive });
+      updated.isActive = data.isActive;
+    }
+    if (data.eligibility !== undefined) {
+      changes.push({
+        field: 'eligibility',
+        oldValue: program.eligibility,
+        newValue: data.eligibility,
+      });
+      updated.eligibility = data.eligibility ?? undefined;
+    }
+    if (data.criteria !== undefined) {
+      changes.push({ field: 'criteria', oldValue: program.criteria, newValue: data.criteria });
+      updated.criteria = data.criteria ?? undefined;
+    }
+    if (data.moderation !== undefined) {
+      changes.push({
+        field: 'moderation',
+        oldValue: program.moderation,
+        newValue: data.moderation,
+      });
+      updated.moderation = data.moderation ?? undefined;
+    }
+    if (data.nominationPolicy !== undefined) {
+      changes.push({
+        field: 'nominationPolicy',
+        oldValue: program.nominationPolicy,
+        newValue: data.nominationPolicy,
+      });
+      updated.nominationPolicy = data.nominationPolicy ?? undefined;
+    }
+    if (data.rankingPolicy !== undefined) {
+      changes.push({
+        field: 'rankingPolicy',
+        oldValue: program.rankingPolicy,
+        newValue: data.rankingPolicy,
+      });
+      updated.rankingPolicy = data.rankingPolicy ?? undefined;
+    }
+    if (data.winnerSelection !== undefined) {
+      changes.push({
+        field: 'winnerSelection',
+        oldValue: program.winnerSelection,
+        newValue: data.winnerSelection,
+      });
+      updated.winnerSelection = data.winnerSelection ?? undefined;
+    }
+    if (data.rewards !== undefined) {
+      changes.push({ field: 'rewards', oldValue: program.rewards, newValue: data.rewards });
+      updated.rewards = data.rewards ?? undefined;
+    }
+
+    const result = stored
+      ? await this.programRepository.update(programId, updated)
+      : await this.programRepository.create(updated);
+
+    // Log audit
+    if (this.auditService && userContext && changes.length > 0) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.PROGRAM,
+          entityId: programId,
+          action: AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes,
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Store the default program and assign it to every period, nomination and winner created
+   * before programs existed. Safe to run more than once.
+   */
+  async migrateToDefaultProgram(userContext?: UserContext): Promise<ProgramMigrationResult> {
+    if (!(await this.programRepository.findById(DEFAULT_PROGRAM_ID))) {
+      await this.programRepository.create(this.buildDefaultProgram());
+    }
+
+    const periods = await this.votingPeriodRepository.findWithoutProgram();
+    for (const period of periods) {
+      await this.votingPeriodRepository.update(period.id, {
+        ...period,
+        programId: DEFAULT_PROGRAM_ID,
+      });
+    }
+
+    const nominations = await this.nominationRepository.findWithoutProgram();
+    for (const nomination of nominations) {
+      await this.nominationRepository.update(nomination.id, {
+        ...nomination,
+        programId: DEFAULT_PROGRAM_ID,
+      });
+    }
+
+    const winners = await this.winnerHistoryRepository.findWithoutProgram();
+    for (const winner of winners) {
+      await this.winnerHistoryRepository.update(winner.id, {
+        ...winner,
+        programId: DEFAULT_PROGRAM_ID,
+      });
+    }
+
+    const result: ProgramMigrationResult = {
+      programId: DEFAULT_PROGRAM_ID,
+      votingPeriods: periods.length,
+      nominations: nominations.length,
+      winners: winners.length,
+    };
+
+    // Log audit
+    if (this.auditService && userContext) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.PROGRAM,
+          entityId: DEFAULT_PROGRAM_ID,
+          action: AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          metadata: { migration: true, ...result },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+
+  private validateOverrides(
+    data: Pick<
+      CreateProgramDto,
+      | 'eligibility'
+      | 'criteria'
+      | 'moderation'
+      | 'nominationPolicy'
+      | 'rankingPolicy'
+      | 'winnerSelection'
+      | 'rewards'
+    >
+  ): void {
+    if (data.eligibility) {
+      this.configurationService.validateEligibilityConfig(data.eligibility);
+    }
+    if (data.criteria) {
+      this.configurationService.validateCriteriaDefinitions(data.criteria, 'criteria');
+    }
+    if (data.moderation) {
+      this.configurationService.validateModerationConfig(data.moderation);
+    }
+    if (data.nominationPolicy) {
+      this.configurationService.validateNominationPolicyConfig(data.nominationPolicy);
+    }
+    if (data.rankingPolicy) {
+      this.configurationService.validateRankingPolicyConfig(data.rankingPolicy);
+    }
+    if (data.winnerSelection) {
+      this.configurationService.validateWinnerSelectionConfig(data.winnerSelection);
+    }
+    if (data.rewards) {
+      this.validateRewards(data.rewards);
+    }
+  }
+
+  private validateRewards(rewards: RewardDefinition[]): void {
+    if (!Array.isArray(rewards)) {
+      throw new Error('rewards must be an array');
+    }
+    const winnerTypes = Object.values(WinnerType) as string[];
+    const ids = new Set<string>();
+    for (const reward of rewards) {
+      if (!reward.id || !PROGRAM_ID_PATTERN.test(reward.id)) {
+        throw new Error('Each reward id must be a lowercase slug, e.g. gift-card');
+      }
+      if (ids.has(reward.id)) {
+        throw new Error(`Duplicate reward id: ${reward.id}`);
+      }
+      ids.add(reward.id);
+      if (!winnerTypes.includes(reward.winnerType)) {
+        throw new Error(`Reward ${reward.id}: winnerType must be one of ${winnerTypes.join(', ')}`);
+      }
+      if (!reward.name || reward.name.trim().length === 0) {
+        throw new Error(`Reward ${reward.id}: name is required`);
+      }
+      if (!reward.ownerUserId || !reward.ownerName) {
+        throw new Error(`Reward ${reward.id}: ownerUserId and ownerName are required`);
+      }
+    }
+  }
+
+  private buildDefaultProgram(): Program {
+    return { ...DEFAULT_PROGRAM, createdAt: new Date(), updatedAt: new Date() };
+  }
+}
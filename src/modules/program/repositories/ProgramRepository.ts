@@ -0,0 +1,43 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { Program } from '../../../common/models/Program';
+
+export class ProgramRepository {
+  private readonly containerName = 'programs';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  async create(program: Program): Promise<Program> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.create<Program>(program);
+    return resource as Program;
+  }
+
+  async findById(id: string): Promise<Program | null> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container.item(id, id).read<Program>();
+      return (resource as Program) || null;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findAll(): Promise<Program[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c ORDER BY c.name ASC',
+    };
+    const { resources } = await container.items.query<Program>(querySpec).fetchAll();
+    return resources as Program[];
+  }
+
+  async update(id: string, program: Program): Promise<Program> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.item(id, id).replace<Program>(program);
+    return resource as Program;
+  }
+}
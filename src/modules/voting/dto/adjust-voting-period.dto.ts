@@ -0,0 +1,9 @@
+export interface ExtendVotingPeriodDto {
+  endDate: Date; // Must be later than the current end date
+  reason: string;
+}
+
+export interface ReopenVotingPeriodDto {
+  endDate: Date; // New end date; closing a period moves its end date to the closing time
+  reason: string;
+}
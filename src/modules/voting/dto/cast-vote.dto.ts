@@ -0,0 +1,3 @@
+export interface CastVoteDto {
+  nominatedEmployeeId: string;
+}
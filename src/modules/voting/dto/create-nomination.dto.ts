@@ -1,13 +1,10 @@
+// Scores keyed by criterion key. Allowed keys and scales come from the voting period's criteria
 export interface Criteria {
-  communication: number;
-  innovation: number;
-  leadership: number;
-  problemSolving: number;
-  reliability: number;
-  teamwork: number;
+  [key: string]: number;
 }
 
 export interface CreateNominationDto {
+  programId?: string; // Program whose active period receives the nomination
   nominatedEmployeeId: string;
   nominatorUserName?: string;
   nominatorUserId?: string;
@@ -1,10 +1,20 @@
 import { VotingPeriodStatus } from '../../../common/models/VotingPeriod';
+import { GeneralWinnerStrategy } from '../../configuration/models/winner-selection-config.model';
+
+export interface VotingPhaseDto {
+  startDate: Date;
+  endDate: Date;
+  shortlistSize?: number;
+}
 
 export interface CreateVotingPeriodDto {
+  programId?: string; // Defaults to the default program
   year: number;
   month: number;
   startDate: Date;
   endDate: Date;
   description?: string;
   status?: VotingPeriodStatus;
+  generalWinnerStrategy?: GeneralWinnerStrategy;
+  votingPhase?: VotingPhaseDto;
 }
@@ -0,0 +1,4 @@
+export interface DisqualifyWinnerDto {
+  reason: string;
+  committeeEmployeeId?: string; // New general winner when a committee period loses its general winner
+}
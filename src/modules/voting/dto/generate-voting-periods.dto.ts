@@ -0,0 +1,8 @@
+import { VotingPeriodStatus } from '../../../common/models/VotingPeriod';
+
+export interface GenerateVotingPeriodsDto {
+  count: number; // Number of periods to create
+  programId?: string; // Defaults to the default program
+  startDate?: Date; // Defaults to right after the latest existing period
+  status?: VotingPeriodStatus; // Defaults to pending so the lifecycle job opens them
+}
@@ -0,0 +1,22 @@
+import { Criteria } from './create-nomination.dto';
+
+export interface StartJudgingDto {
+  finalistsPerGroup?: number; // Defaults to 3
+  peerWeight?: number; // Defaults to 0.5
+}
+
+export interface AssignJudgesDto {
+  employeeIds: string[];
+}
+
+export interface SubmitJudgeScoreDto {
+  finalistEmployeeId: string;
+  criteria: Criteria;
+  comment?: string;
+}
+
+export interface DeclareConflictDto {
+  finalistEmployeeId: string;
+  reason: string;
+  judgeEmployeeId?: string; // Admins can declare a conflict on behalf of a judge
+}
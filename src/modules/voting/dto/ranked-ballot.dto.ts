@@ -0,0 +1,3 @@
+export interface CastRankedBallotDto {
+  rankings: string[]; // Candidate employee IDs, most preferred first
+}
@@ -0,0 +1,3 @@
+export interface ReviewNominationDto {
+  reason?: string;
+}
@@ -0,0 +1,4 @@
+export interface SelectWinnerDto {
+  reason?: string; // Required when a general winner already exists
+  committeeEmployeeId?: string; // Group winner chosen by the committee
+}
@@ -1,4 +1,6 @@
 import { VotingPeriodStatus } from '../../../common/models/VotingPeriod';
+import { VotingPhaseDto } from './create-voting-period.dto';
+import { GeneralWinnerStrategy } from '../../configuration/models/winner-selection-config.model';
 
 export interface UpdateVotingPeriodDto {
   year?: number;
@@ -6,5 +8,7 @@ export interface UpdateVotingPeriodDto {
   startDate?: Date;
   endDate?: Date;
   status?: VotingPeriodStatus;
+  generalWinnerStrategy?: GeneralWinnerStrategy;
+  votingPhase?: VotingPhaseDto | null;
   description?: string;
 }
@@ -1,3 +1,5 @@
+import { Criteria } from './create-nomination.dto';
+
 export interface VotingResultDto {
   nominatedEmployeeId: string;
   employeeName: string;
@@ -6,12 +8,5 @@ export interface VotingResultDto {
   totalScore: number;
   averageScore: number;
   nominationCount: number;
-  criteria: {
-    communication: number;
-    innovation: number;
-    leadership: number;
-    problemSolving: number;
-    reliability: number;
-    teamwork: number;
-  };
-}
\ No newline at end of file
+  criteria: Criteria;
+}
@@ -0,0 +1,8 @@
+export interface ApproveCitationDto {
+  summary?: string; // Opening lines written by the admin
+  quotes: {
+    nominationId: string; // One of the winner's nomination reasons
+    text?: string; // Edited quote, the nomination reason as written when omitted
+  }[]; // In the order they should appear
+  anonymizeNominators?: boolean;
+}
@@ -0,0 +1,9 @@
+import { RewardStatus } from '../../../common/models/WinnerReward';
+
+export interface UpdateWinnerRewardDto {
+  status?: RewardStatus;
+  notes?: string;
+  ownerUserId?: string; // Hands the reward over to someone else (admins only)
+  ownerName?: string;
+  ownerEmail?: string;
+}
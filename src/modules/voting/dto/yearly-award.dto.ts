@@ -0,0 +1,13 @@
+import {
+  YearlyCandidatePool,
+  YearlySelectionMethod,
+} from '../../configuration/models/yearly-award-config.model';
+
+export interface OpenYearlyAwardDto {
+  candidatePool?: YearlyCandidatePool; // Defaults to the yearly award configuration
+  selectionMethod?: YearlySelectionMethod;
+}
+
+export interface FinalizeYearlyAwardDto {
+  tieBreakEmployeeId?: string; // Needed when the vote or the nomination totals end in a tie
+}
@@ -0,0 +1,481 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import {
+  AssignJudgesDto,
+  DeclareConflictDto,
+  StartJudgingDto,
+  SubmitJudgeScoreDto,
+} from './dto/judging.dto';
+import { ResponseHelper } from '../../common/utils/ResponseHelper';
+import { getDependencies } from '../../common/utils/Dependencies';
+import { AuthHelper } from '../../common/utils/AuthHelper';
+import { AuthMiddleware } from '../../common/middleware/AuthMiddleware';
+import { Permission } from '../../common/constants/roles.constants';
+
+export class JudgingController {
+  private dependencies: any;
+
+  constructor(dependencies: any) {
+    this.dependencies = dependencies;
+  }
+
+  async startJudging(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.JUDGING_MANAGE)) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const body = ((await request.json().catch(() => ({}))) || {}) as StartJudgingDto;
+
+      const round = await this.dependencies.judgingService.startJudging(votingPeriodId, body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(`User ${user.email} started judging for voting period ${votingPeriodId}`);
+      return ResponseHelper.created(round);
+    } catch (error) {
+      context.error('Error starting judging round:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getJudgingRound(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (
+        !AuthMiddleware.hasAnyPermission(user, [
+          Permission.JUDGING_MANAGE,
+          Permission.JUDGING_SCORE,
+        ])
+      ) {
+        return ResponseHelper.forbidden('Judge access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const round = await this.dependencies.judgingService.getJudgingRound(votingPeriodId);
+      return ResponseHelper.ok(round);
+    } catch (error) {
+      context.error('Error getting judging round:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async assignJudges(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.JUDGING_MANAGE)) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const body = (await request.json()) as AssignJudgesDto;
+
+      const round = await this.dependencies.judgingService.assignJudges(votingPeriodId, body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+      return ResponseHelper.ok(round);
+    } catch (error) {
+      context.error('Error assigning judges:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getScores(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      const canManage = AuthMiddleware.hasPermission(user, Permission.JUDGING_MANAGE);
+      if (!canManage && !AuthMiddleware.hasPermission(user, Permission.JUDGING_SCORE)) {
+        return ResponseHelper.forbidden('Judge access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      // Judges only see their own scores
+      const scores = await this.dependencies.judgingService.getScores(
+        votingPeriodId,
+        canManage ? undefined : user.userId
+      );
+      return ResponseHelper.ok(scores);
+    } catch (error) {
+      context.error('Error getting judge scores:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async submitScore(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.JUDGING_SCORE)) {
+        return ResponseHelper.forbidden('Judge access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const body = (await request.json()) as SubmitJudgeScoreDto;
+      if (!body.finalistEmployeeId || !body.criteria) {
+        return ResponseHelper.badRequest('Missing required fields: finalistEmployeeId, criteria');
+      }
+
+      const score = await this.dependencies.judgingService.submitScore(
+        votingPeriodId,
+        user.userId,
+        body
+      );
+      return ResponseHelper.ok(score);
+    } catch (error) {
+      context.error('Error submitting judge score:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getConflicts(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (
+        !AuthMiddleware.hasAnyPermission(user, [
+          Permission.JUDGING_MANAGE,
+          Permission.JUDGING_SCORE,
+        ])
+      ) {
+        return ResponseHelper.forbidden('Judge access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const conflicts = await this.dependencies.judgingService.getConflicts(votingPeriodId);
+      return ResponseHelper.ok(conflicts);
+    } catch (error) {
+      context.error('Error getting conflicts of interest:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async declareConflict(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      const canManage = AuthMiddleware.hasPermission(user, Permission.JUDGING_MANAGE);
+      if (!canManage && !AuthMiddleware.hasPermission(user, Permission.JUDGING_SCORE)) {
+        return ResponseHelper.forbidden('Judge access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const body = (await request.json()) as DeclareConflictDto;
+      if (!body.finalistEmployeeId || !body.reason) {
+        return ResponseHelper.badRequest('Missing required fields: finalistEmployeeId, reason');
+      }
+
+      // Judges declare their own conflicts; admins can declare one for any judge
+      if (body.judgeEmployeeId && body.judgeEmployeeId !== user.userId && !canManage) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const conflict = await this.dependencies.judgingService.declareConflict(
+        votingPeriodId,
+        body.judgeEmployeeId || user.userId,
+        body,
+        {
+          userId: user.userId,
+          userName: user.username || user.email || 'unknown',
+          userEmail: user.email || undefined,
+        }
+      );
+      return ResponseHelper.created(conflict);
+    } catch (error) {
+      context.error('Error declaring conflict of interest:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getJudgingResults(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.JUDGING_MANAGE)) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const results = await this.dependencies.judgingService.getJudgingResults(votingPeriodId);
+      return ResponseHelper.ok(results);
+    } catch (error) {
+      context.error('Error getting judging results:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async completeJudging(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.JUDGING_MANAGE)) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const results = await this.dependencies.judgingService.completeJudging(votingPeriodId, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(`User ${user.email} completed judging for voting period ${votingPeriodId}`);
+      return ResponseHelper.ok(results);
+    } catch (error) {
+      context.error('Error completing judging round:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+}
+
+// Azure Functions handlers
+const judgingFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new JudgingController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getJudgingRound(request, context);
+    case 'POST':
+      return controller.startJudging(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const assignJudgesFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new JudgingController(dependencies);
+  return controller.assignJudges(request, context);
+};
+
+const judgeScoresFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new JudgingController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getScores(request, context);
+    case 'POST':
+      return controller.submitScore(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const conflictsFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new JudgingController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getConflicts(request, context);
+    case 'POST':
+      return controller.declareConflict(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const judgingResultsFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new JudgingController(dependencies);
+  return controller.getJudgingResults(request, context);
+};
+
+const completeJudgingFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new JudgingController(dependencies);
+  return controller.completeJudging(request, context);
+};
+
+app.http('voting-judging', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/judging',
+  handler: judgingFunction,
+});
+
+app.http('voting-judging-judges', {
+  methods: ['PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/judging/judges',
+  handler: assignJudgesFunction,
+});
+
+app.http('voting-judging-scores', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/judging/scores',
+  handler: judgeScoresFunction,
+});
+
+app.http('voting-judging-conflicts', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/judging/conflicts',
+  handler: conflictsFunction,
+});
+
+app.http('voting-judging-results', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/judging/results',
+  handler: judgingResultsFunction,
+});
+
+app.http('voting-judging-complete', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/judging/complete',
+  handler: completeJudgingFunction,
+});
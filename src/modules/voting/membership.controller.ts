@@ -0,0 +1,175 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ResponseHelper } from '../../common/utils/ResponseHelper';
+import { getDependencies } from '../../common/utils/Dependencies';
+import { AuthHelper } from '../../common/utils/AuthHelper';
+
+export class MembershipController {
+  private dependencies: any;
+
+  constructor(dependencies: any) {
+    this.dependencies = dependencies;
+  }
+
+  async getMembership(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const membership = await this.dependencies.membershipService.getMembership(votingPeriodId);
+      return ResponseHelper.ok(membership);
+    } catch (error) {
+      context.error('Error getting period membership:', error);
+      if (error instanceof Error && error.message.includes('No membership snapshot')) {
+        return ResponseHelper.notFound(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async previewRefresh(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const diff = await this.dependencies.membershipService.previewRefresh(votingPeriodId);
+      return ResponseHelper.ok(diff);
+    } catch (error) {
+      context.error('Error previewing period membership refresh:', error);
+      if (error instanceof Error) {
+        if (
+          error.message === 'Voting period not found' ||
+          error.message.includes('No membership snapshot')
+        ) {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async refreshMembership(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const diff = await this.dependencies.membershipService.refreshMembership(votingPeriodId, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(
+        `User ${user.email} refreshed the membership of voting period ${votingPeriodId}: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changes.length} changes`
+      );
+      return ResponseHelper.ok(diff);
+    } catch (error) {
+      context.error('Error refreshing period membership:', error);
+      if (error instanceof Error) {
+        if (
+          error.message === 'Voting period not found' ||
+          error.message.includes('No membership snapshot')
+        ) {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+}
+
+// Azure Functions handlers
+const membershipFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new MembershipController(dependencies);
+  return controller.getMembership(request, context);
+};
+
+const membershipRefreshFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new MembershipController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.previewRefresh(request, context);
+    case 'POST':
+      return controller.refreshMembership(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+app.http('voting-period-membership', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/membership',
+  handler: membershipFunction,
+});
+
+app.http('voting-period-membership-refresh', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/membership/refresh',
+  handler: membershipRefreshFunction,
+});
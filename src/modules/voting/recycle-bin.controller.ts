@@ -0,0 +1,186 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ResponseHelper } from '../../common/utils/ResponseHelper';
+import { getDependencies } from '../../common/utils/Dependencies';
+import { AuthHelper } from '../../common/utils/AuthHelper';
+
+export class RecycleBinController {
+  private dependencies: any;
+
+  constructor(dependencies: any) {
+    this.dependencies = dependencies;
+  }
+
+  async getEntries(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.query.get('votingPeriodId') || undefined;
+      const entries = await this.dependencies.recycleBinService.getEntries(votingPeriodId);
+      return ResponseHelper.ok(entries);
+    } catch (error) {
+      context.error('Error getting recycle bin entries:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async restore(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const entryId = request.params.entryId;
+      if (!entryId) {
+        return ResponseHelper.badRequest('Entry ID is required');
+      }
+
+      const result = await this.dependencies.recycleBinService.restore(entryId, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(
+        `User ${user.email} restored voting period ${result.votingPeriodId} from ${entryId}: ${result.nominationsRestored} nominations, ${result.winnersRestored} winners, ${result.votesRestored} votes, ${result.rewardsRestored} rewards`
+      );
+      return ResponseHelper.ok(result);
+    } catch (error) {
+      context.error('Error restoring recycle bin entry:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Recycle bin entry not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  /**
+   * Without a confirmationToken this issues one; with it, the entry is deleted for good
+   */
+  async purge(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('super_admin')) {
+        return ResponseHelper.forbidden('Super admin access required');
+      }
+
+      const entryId = request.params.entryId;
+      if (!entryId) {
+        return ResponseHelper.badRequest('Entry ID is required');
+      }
+
+      const userContext = {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      };
+      const body = ((await request.json().catch(() => ({}))) || {}) as {
+        confirmationToken?: string;
+      };
+
+      if (!body.confirmationToken) {
+        const confirmation = await this.dependencies.recycleBinService.requestPurge(
+          entryId,
+          userContext
+        );
+        return ResponseHelper.ok(confirmation);
+      }
+
+      await this.dependencies.recycleBinService.purge(entryId, body.confirmationToken, userContext);
+
+      context.log(`User ${user.email} purged recycle bin entry ${entryId}`);
+      return ResponseHelper.ok({ entryId, purged: true });
+    } catch (error) {
+      context.error('Error purging recycle bin entry:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Recycle bin entry not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+}
+
+// Azure Functions handlers
+const recycleBinEntriesFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new RecycleBinController(dependencies);
+  return controller.getEntries(request, context);
+};
+
+const restoreRecycleBinEntryFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new RecycleBinController(dependencies);
+  return controller.restore(request, context);
+};
+
+const purgeRecycleBinEntryFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new RecycleBinController(dependencies);
+  return controller.purge(request, context);
+};
+
+app.http('recycle-bin-entries', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'system/recycle-bin',
+  handler: recycleBinEntriesFunction,
+});
+
+app.http('restore-recycle-bin-entry', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'system/recycle-bin/{entryId}/restore',
+  handler: restoreRecycleBinEntryFunction,
+});
+
+app.http('purge-recycle-bin-entry', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'system/recycle-bin/{entryId}/purge',
+  handler: purgeRecycleBinEntryFunction,
+});
@@ -0,0 +1,45 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { DrawSeed } from '../../../common/models/WinnerHistory';
+
+/**
+ * Seeds committed for upcoming draws. They must never be returned by an endpoint before the
+ * draw reveals them.
+ */
+export class DrawSeedRepository {
+  private readonly containerName = 'drawSeeds';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  async findByVotingPeriod(votingPeriodId: string): Promise<DrawSeed | null> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container.item(votingPeriodId, votingPeriodId).read<DrawSeed>();
+      return (resource as DrawSeed) || null;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // One pending seed per period, a new commitment replaces the previous one
+  async upsert(seed: DrawSeed): Promise<DrawSeed> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.upsert<DrawSeed>(seed);
+    return resource as DrawSeed;
+  }
+
+  async deleteByVotingPeriod(votingPeriodId: string): Promise<void> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      await container.item(votingPeriodId, votingPeriodId).delete();
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code !== 404) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { JudgeScore } from '../../../common/models/Judging';
+
+export class JudgeScoreRepository {
+  private readonly containerName = 'judgeScores';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  async upsert(score: JudgeScore): Promise<JudgeScore> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.upsert<JudgeScore>(score);
+    return resource as JudgeScore;
+  }
+
+  async findById(id: string): Promise<JudgeScore | null> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container.item(id, id).read<JudgeScore>();
+      return (resource as JudgeScore) || null;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findByVotingPeriod(votingPeriodId: string): Promise<JudgeScore[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId',
+      parameters: [{ name: '@votingPeriodId', value: votingPeriodId }],
+    };
+    const { resources } = await container.items.query<JudgeScore>(querySpec).fetchAll();
+    return resources as JudgeScore[];
+  }
+
+  async findByJudgeAndPeriod(
+    judgeEmployeeId: string,
+    votingPeriodId: string
+  ): Promise<JudgeScore[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query:
+        'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId AND c.judgeEmployeeId = @judgeEmployeeId',
+      parameters: [
+        { name: '@votingPeriodId', value: votingPeriodId },
+        { name: '@judgeEmployeeId', value: judgeEmployeeId },
+      ],
+    };
+    const { resources } = await container.items.query<JudgeScore>(querySpec).fetchAll();
+    return resources as JudgeScore[];
+  }
+
+  async delete(id: string): Promise<void> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    await container.item(id, id).delete();
+  }
+
+  async deleteByVotingPeriod(votingPeriodId: string): Promise<void> {
+    const scores = await this.findByVotingPeriod(votingPeriodId);
+    for (const score of scores) {
+      await this.delete(score.id);
+    }
+  }
+}
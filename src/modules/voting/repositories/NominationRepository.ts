@@ -1,5 +1,9 @@
 import { CosmosClient } from '../../../common/utils/CosmosClient';
-import { Nomination, NominationWithEmployee } from '../../../common/models/Nomination';
+import {
+  Nomination,
+  NominationStatus,
+  NominationWithEmployee,
+} from '../../../common/models/Nomination';
 import { Employee } from '../../employee/models/employee.model';
 import { CosmosQueryResult } from '../../../common/models/Pagination';
 
@@ -38,6 +42,47 @@ export class NominationRepository {
     return resources as Nomination[];
   }
 
+  /**
+   * Find the nominations that count towards results.
+   * Nominations without a status predate moderation and are treated as approved.
+   */
+  async findApprovedByVotingPeriod(votingPeriodId: string): Promise<Nomination[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: `SELECT * FROM c
+              WHERE c.votingPeriodId = @votingPeriodId
+              AND (NOT IS_DEFINED(c.status) OR c.status = @status)
+              ORDER BY c.createdAt DESC`,
+      parameters: [
+        { name: '@votingPeriodId', value: votingPeriodId },
+        { name: '@status', value: NominationStatus.APPROVED },
+      ],
+    };
+    const { resources } = await container.items.query<Nomination>(querySpec).fetchAll();
+    return resources as Nomination[];
+  }
+
+  async findByVotingPeriodAndStatus(
+    votingPeriodId: string,
+    status: NominationStatus
+  ): Promise<Nomination[]> {
+    if (status === NominationStatus.APPROVED) {
+      return this.findApprovedByVotingPeriod(votingPeriodId);
+    }
+
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query:
+        'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId AND c.status = @status ORDER BY c.createdAt ASC',
+      parameters: [
+        { name: '@votingPeriodId', value: votingPeriodId },
+        { name: '@status', value: status },
+      ],
+    };
+    const { resources } = await container.items.query<Nomination>(querySpec).fetchAll();
+    return resources as Nomination[];
+  }
+
   /**
    * Find nominations by voting period with offset-based pagination
    *
@@ -161,6 +206,23 @@ export class NominationRepository {
     return resources.length > 0 ? (resources[0] as Nomination) : null;
   }
 
+  async findAllByNominatorAndPeriod(
+    nominatorUserName: string,
+    votingPeriodId: string
+  ): Promise<Nomination[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query:
+        'SELECT * FROM c WHERE c.nominatorUserName = @nominatorUserName AND c.votingPeriodId = @votingPeriodId ORDER BY c.createdAt DESC',
+      parameters: [
+        { name: '@nominatorUserName', value: nominatorUserName },
+        { name: '@votingPeriodId', value: votingPeriodId },
+      ],
+    };
+    const { resources } = await container.items.query<Nomination>(querySpec).fetchAll();
+    return resources as Nomination[];
+  }
+
   async countByEmployeeAndPeriod(employeeId: string, votingPeriodId: string): Promise<number> {
     const container = await this.cosmosClient.getContainer(this.containerName);
     const querySpec = {
@@ -198,6 +260,18 @@ export class NominationRepository {
     return resources.length > 0 ? (resources[0] as Nomination) : null;
   }
 
+  /**
+   * Nominations created before programs existed
+   */
+  async findWithoutProgram(): Promise<Nomination[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE NOT IS_DEFINED(c.programId)',
+    };
+    const { resources } = await container.items.query<Nomination>(querySpec).fetchAll();
+    return resources as Nomination[];
+  }
+
   async delete(id: string): Promise<void> {
     const container = await this.cosmosClient.getContainer(this.containerName);
     await container.item(id, id).delete();
@@ -0,0 +1,48 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { PeriodMembership } from '../../../common/models/PeriodMembership';
+
+export class PeriodMembershipRepository {
+  private readonly containerName = 'periodMemberships';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  async create(membership: PeriodMembership): Promise<PeriodMembership> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.create<PeriodMembership>(membership);
+    return resource as PeriodMembership;
+  }
+
+  async findByVotingPeriod(votingPeriodId: string): Promise<PeriodMembership | null> {
+    const id = `membership-${votingPeriodId}`;
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container.item(id, id).read<PeriodMembership>();
+      return (resource as PeriodMembership) || null;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async update(id: string, membership: PeriodMembership): Promise<PeriodMembership> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.item(id, id).replace<PeriodMembership>(membership);
+    return resource as PeriodMembership;
+  }
+
+  async deleteByVotingPeriod(votingPeriodId: string): Promise<void> {
+    const id = `membership-${votingPeriodId}`;
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      await container.item(id, id).delete();
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code !== 404) {
+        throw error;
+      }
+    }
+  }
+}
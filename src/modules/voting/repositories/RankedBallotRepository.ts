@@ -0,0 +1,37 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { RankedBallot } from '../../../common/models/RankedBallot';
+
+export class RankedBallotRepository {
+  private readonly containerName = 'rankedBallots';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  async create(ballot: RankedBallot): Promise<RankedBallot> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.create<RankedBallot>(ballot);
+    return resource as RankedBallot;
+  }
+
+  async findByYear(year: number): Promise<RankedBallot[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE c.year = @year',
+      parameters: [{ name: '@year', value: year }],
+    };
+    const { resources } = await container.items.query<RankedBallot>(querySpec).fetchAll();
+    return resources as RankedBallot[];
+  }
+
+  async findByVoterAndYear(voterUserId: string, year: number): Promise<RankedBallot | null> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE c.year = @year AND c.voterUserId = @voterUserId',
+      parameters: [
+        { name: '@year', value: year },
+        { name: '@voterUserId', value: voterUserId },
+      ],
+    };
+    const { resources } = await container.items.query<RankedBallot>(querySpec).fetchAll();
+    return resources.length > 0 ? (resources[0] as RankedBallot) : null;
+  }
+}
@@ -0,0 +1,52 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { RecycleBinEntry } from '../../../common/models/RecycleBin';
+
+export class RecycleBinRepository {
+  private readonly containerName = 'recycleBin';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  async create(entry: RecycleBinEntry): Promise<RecycleBinEntry> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.create<RecycleBinEntry>(entry);
+    return resource as RecycleBinEntry;
+  }
+
+  async findById(id: string): Promise<RecycleBinEntry | null> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container.item(id, id).read<RecycleBinEntry>();
+      return (resource as RecycleBinEntry) || null;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findAll(votingPeriodId?: string): Promise<RecycleBinEntry[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = votingPeriodId
+      ? {
+          query:
+            'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId ORDER BY c.archivedAt DESC',
+          parameters: [{ name: '@votingPeriodId', value: votingPeriodId }],
+        }
+      : { query: 'SELECT * FROM c ORDER BY c.archivedAt DESC' };
+    const { resources } = await container.items.query<RecycleBinEntry>(querySpec).fetchAll();
+    return resources as RecycleBinEntry[];
+  }
+
+  async update(id: string, entry: RecycleBinEntry): Promise<RecycleBinEntry> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.item(id, id).replace<RecycleBinEntry>(entry);
+    return resource as RecycleBinEntry;
+  }
+
+  async delete(id: string): Promise<void> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    await container.item(id, id).delete();
+  }
+}
@@ -0,0 +1,44 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { ResultsSnapshot } from '../../../common/models/ResultsSnapshot';
+
+export class ResultsSnapshotRepository {
+  private readonly containerName = 'resultsSnapshots';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  // Snapshots are immutable, so there is no update or upsert; they only go with their period
+  async create(snapshot: ResultsSnapshot): Promise<ResultsSnapshot> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.create<ResultsSnapshot>(snapshot);
+    return resource as ResultsSnapshot;
+  }
+
+  async findByVotingPeriod(votingPeriodId: string): Promise<ResultsSnapshot[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId ORDER BY c.takenAt DESC',
+      parameters: [{ name: '@votingPeriodId', value: votingPeriodId }],
+    };
+    const { resources } = await container.items.query<ResultsSnapshot>(querySpec).fetchAll();
+    return resources as ResultsSnapshot[];
+  }
+
+  async findLatestByVotingPeriod(votingPeriodId: string): Promise<ResultsSnapshot | null> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query:
+        'SELECT TOP 1 * FROM c WHERE c.votingPeriodId = @votingPeriodId ORDER BY c.takenAt DESC',
+      parameters: [{ name: '@votingPeriodId', value: votingPeriodId }],
+    };
+    const { resources } = await container.items.query<ResultsSnapshot>(querySpec).fetchAll();
+    return resources.length > 0 ? (resources[0] as ResultsSnapshot) : null;
+  }
+
+  async deleteByVotingPeriod(votingPeriodId: string): Promise<void> {
+    const snapshots = await this.findByVotingPeriod(votingPeriodId);
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    for (const snapshot of snapshots) {
+      await container.item(snapshot.id, snapshot.id).delete();
+    }
+  }
+}
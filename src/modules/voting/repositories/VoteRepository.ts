@@ -0,0 +1,51 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { Vote } from '../../../common/models/Vote';
+
+export class VoteRepository {
+  private readonly containerName = 'votes';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  async create(vote: Vote): Promise<Vote> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.create<Vote>(vote);
+    return resource as Vote;
+  }
+
+  async findByVotingPeriod(votingPeriodId: string): Promise<Vote[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId',
+      parameters: [{ name: '@votingPeriodId', value: votingPeriodId }],
+    };
+    const { resources } = await container.items.query<Vote>(querySpec).fetchAll();
+    return resources as Vote[];
+  }
+
+  async findByVoterAndPeriod(voterUserId: string, votingPeriodId: string): Promise<Vote | null> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query:
+        'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId AND c.voterUserId = @voterUserId',
+      parameters: [
+        { name: '@votingPeriodId', value: votingPeriodId },
+        { name: '@voterUserId', value: voterUserId },
+      ],
+    };
+    const { resources } = await container.items.query<Vote>(querySpec).fetchAll();
+    return resources.length > 0 ? (resources[0] as Vote) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    await container.item(id, id).delete();
+  }
+
+  async deleteByVotingPeriod(votingPeriodId: string): Promise<number> {
+    const votes = await this.findByVotingPeriod(votingPeriodId);
+    for (const vote of votes) {
+      await this.delete(vote.id);
+    }
+    return votes.length;
+  }
+}
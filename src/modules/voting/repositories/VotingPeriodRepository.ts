@@ -1,5 +1,6 @@
 import { CosmosClient } from '../../../common/utils/CosmosClient';
 import { VotingPeriod, VotingPeriodStatus } from '../../../common/models/VotingPeriod';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
 
 export class VotingPeriodRepository {
   private readonly containerName = 'votingPeriods';
@@ -26,39 +27,82 @@ export class VotingPeriodRepository {
     }
   }
 
-  async findActiveVotingPeriod(): Promise<VotingPeriod | null> {
+  /**
+   * Active period of a program. Without a programId, the latest active period of any program.
+   */
+  async findActiveVotingPeriod(programId?: string): Promise<VotingPeriod | null> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c WHERE c.status = @status ORDER BY c.createdAt DESC',
-      parameters: [{ name: '@status', value: VotingPeriodStatus.ACTIVE }],
+      query: `SELECT * FROM c WHERE c.status = @status${filter ? ` AND ${filter.clause}` : ''} ORDER BY c.createdAt DESC`,
+      parameters: [
+        { name: '@status', value: VotingPeriodStatus.ACTIVE },
+        ...(filter ? [filter.parameter] : []),
+      ],
     };
     const { resources } = await container.items.query<VotingPeriod>(querySpec).fetchAll();
     return resources.length > 0 ? (resources[0] as VotingPeriod) : null;
   }
 
-  async findByYearAndMonth(year: number, month: number): Promise<VotingPeriod | null> {
+  async findByYearAndMonth(
+    year: number,
+    month: number,
+    programId?: string
+  ): Promise<VotingPeriod | null> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c WHERE c.year = @year AND c.month = @month',
+      query: `SELECT * FROM c WHERE c.year = @year AND c.month = @month${filter ? ` AND ${filter.clause}` : ''}`,
       parameters: [
         { name: '@year', value: year },
         { name: '@month', value: month },
+        ...(filter ? [filter.parameter] : []),
       ],
     };
     const { resources } = await container.items.query<VotingPeriod>(querySpec).fetchAll();
     return resources.length > 0 ? (resources[0] as VotingPeriod) : null;
   }
 
-  async findRecentPeriods(limit = 12): Promise<VotingPeriod[]> {
+  /**
+   * Most recent periods first. Ids of the different cadences (vp-2025-01, vp-2025-q1,
+   * vp-2025-01-06) don't sort chronologically, so the start date decides.
+   */
+  async findRecentPeriods(limit = 12, programId?: string): Promise<VotingPeriod[]> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c ORDER BY c.id DESC',
-      parameters: [],
+      query: `SELECT * FROM c${filter ? ` WHERE ${filter.clause}` : ''} ORDER BY c.startDate DESC`,
+      parameters: filter ? [filter.parameter] : [],
     };
     const { resources } = await container.items.query<VotingPeriod>(querySpec).fetchAll();
     return (resources as VotingPeriod[]).slice(0, limit);
   }
 
+  async findLatestPeriod(programId?: string): Promise<VotingPeriod | null> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
+    const querySpec = {
+      query: `SELECT TOP 1 * FROM c${filter ? ` WHERE ${filter.clause}` : ''} ORDER BY c.startDate DESC`,
+      parameters: filter ? [filter.parameter] : [],
+    };
+    const { resources } = await container.items.query<VotingPeriod>(querySpec).fetchAll();
+    return resources.length > 0 ? (resources[0] as VotingPeriod) : null;
+  }
+
+  /**
+   * All periods of a program, or of every program without a programId, oldest first
+   */
+  async findAll(programId?: string): Promise<VotingPeriod[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
+    const querySpec = {
+      query: `SELECT * FROM c${filter ? ` WHERE ${filter.clause}` : ''} ORDER BY c.startDate ASC`,
+      parameters: filter ? [filter.parameter] : [],
+    };
+    const { resources } = await container.items.query<VotingPeriod>(querySpec).fetchAll();
+    return resources as VotingPeriod[];
+  }
+
   async update(id: string, votingPeriod: VotingPeriod): Promise<VotingPeriod> {
     const container = await this.cosmosClient.getContainer(this.containerName);
     const { resource } = await container.item(id, id).replace<VotingPeriod>(votingPeriod);
@@ -79,6 +123,37 @@ export class VotingPeriodRepository {
     return resources as VotingPeriod[];
   }
 
+  /**
+   * Pending periods whose window contains the given date. Periods go back to pending once their
+   * winner is selected, and an extension can move their endDate past the date, so those that
+   * already ran (a committed draw seed or published results) are left out.
+   */
+  async findPendingPeriodsDueToStart(date: Date): Promise<VotingPeriod[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query:
+        'SELECT * FROM c WHERE c.status = @status AND c.startDate <= @date AND c.endDate > @date AND (NOT IS_DEFINED(c.drawCommitment) OR IS_NULL(c.drawCommitment)) AND (NOT IS_DEFINED(c.publishedAt) OR IS_NULL(c.publishedAt)) ORDER BY c.startDate ASC',
+      parameters: [
+        { name: '@status', value: VotingPeriodStatus.PENDING },
+        { name: '@date', value: date.toISOString() },
+      ],
+    };
+    const { resources } = await container.items.query<VotingPeriod>(querySpec).fetchAll();
+    return resources as VotingPeriod[];
+  }
+
+  /**
+   * Periods created before programs existed
+   */
+  async findWithoutProgram(): Promise<VotingPeriod[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE NOT IS_DEFINED(c.programId)',
+    };
+    const { resources } = await container.items.query<VotingPeriod>(querySpec).fetchAll();
+    return resources as VotingPeriod[];
+  }
+
   async delete(id: string): Promise<void> {
     const container = await this.cosmosClient.getContainer(this.containerName);
     await container.item(id, id).delete();
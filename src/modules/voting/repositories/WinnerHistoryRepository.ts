@@ -1,5 +1,11 @@
 import { CosmosClient } from '../../../common/utils/CosmosClient';
 import { WinnerHistory, WinnerType, Reaction } from '../../../common/models/WinnerHistory';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
+
+// Disqualified and superseded winners stay in the history for audit, but they are no longer the
+// period's winners
+const CURRENT_WINNER =
+  '(NOT IS_DEFINED(c.disqualified) OR c.disqualified = false) AND (NOT IS_DEFINED(c.superseded) OR c.superseded = false)';
 
 export class WinnerHistoryRepository {
   private readonly containerName = 'winnerHistory';
@@ -12,10 +18,26 @@ export class WinnerHistoryRepository {
     return resource as WinnerHistory;
   }
 
-  async findAll(): Promise<WinnerHistory[]> {
+  async findById(id: string): Promise<WinnerHistory | null> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container.item(id, id).read<WinnerHistory>();
+      return (resource as WinnerHistory) || null;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findAll(programId?: string): Promise<WinnerHistory[]> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c ORDER BY c.id DESC',
+      query: `SELECT * FROM c${filter ? ` WHERE ${filter.clause}` : ''} ORDER BY c.id DESC`,
+      parameters: filter ? [filter.parameter] : [],
     };
     const { resources } = await container.items.query<WinnerHistory>(querySpec).fetchAll();
     return resources as WinnerHistory[];
@@ -32,11 +54,12 @@ export class WinnerHistoryRepository {
     return (resources as WinnerHistory[]).sort((a, b) => a.rank - b.rank);
   }
 
-  async findByYear(year: number): Promise<WinnerHistory[]> {
+  async findByYear(year: number, programId?: string): Promise<WinnerHistory[]> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c WHERE c.year = @year',
-      parameters: [{ name: '@year', value: year }],
+      query: `SELECT * FROM c WHERE c.year = @year${filter ? ` AND ${filter.clause}` : ''}`,
+      parameters: [{ name: '@year', value: year }, ...(filter ? [filter.parameter] : [])],
     };
     const { resources } = await container.items.query<WinnerHistory>(querySpec).fetchAll();
     // Sort in memory by month DESC, then rank ASC
@@ -48,13 +71,19 @@ export class WinnerHistoryRepository {
     });
   }
 
-  async findByYearAndMonth(year: number, month: number): Promise<WinnerHistory[]> {
+  async findByYearAndMonth(
+    year: number,
+    month: number,
+    programId?: string
+  ): Promise<WinnerHistory[]> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c WHERE c.year = @year AND c.month = @month',
+      query: `SELECT * FROM c WHERE c.year = @year AND c.month = @month${filter ? ` AND ${filter.clause}` : ''}`,
       parameters: [
         { name: '@year', value: year },
         { name: '@month', value: month },
+        ...(filter ? [filter.parameter] : []),
       ],
     };
     const { resources } = await container.items.query<WinnerHistory>(querySpec).fetchAll();
@@ -62,6 +91,29 @@ export class WinnerHistoryRepository {
     return (resources as WinnerHistory[]).sort((a, b) => a.rank - b.rank);
   }
 
+  /**
+   * Winners recorded before programs existed
+   */
+  async findWithoutProgram(): Promise<WinnerHistory[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE NOT IS_DEFINED(c.programId)',
+    };
+    const { resources } = await container.items.query<WinnerHistory>(querySpec).fetchAll();
+    return resources as WinnerHistory[];
+  }
+
+  async update(id: string, winner: WinnerHistory): Promise<WinnerHistory> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.item(id, id).replace<WinnerHistory>(winner);
+    return resource as WinnerHistory;
+  }
+
+  async delete(id: string): Promise<void> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    await container.item(id, id).delete();
+  }
+
   async deleteByVotingPeriod(votingPeriodId: string): Promise<void> {
     const winners = await this.findByVotingPeriod(votingPeriodId);
     const container = await this.cosmosClient.getContainer(this.containerName);
@@ -71,21 +123,29 @@ export class WinnerHistoryRepository {
     }
   }
 
-  async findGeneralWinners(): Promise<WinnerHistory[]> {
+  async findGeneralWinners(programId?: string): Promise<WinnerHistory[]> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c WHERE c.winnerType = @winnerType ORDER BY c.createdAt DESC',
-      parameters: [{ name: '@winnerType', value: WinnerType.GENERAL }],
+      query: `SELECT * FROM c WHERE c.winnerType = @winnerType AND ${CURRENT_WINNER}${filter ? ` AND ${filter.clause}` : ''} ORDER BY c.createdAt DESC`,
+      parameters: [
+        { name: '@winnerType', value: WinnerType.GENERAL },
+        ...(filter ? [filter.parameter] : []),
+      ],
     };
     const { resources } = await container.items.query<WinnerHistory>(querySpec).fetchAll();
     return resources as WinnerHistory[];
   }
 
-  async findGroupWinners(): Promise<WinnerHistory[]> {
+  async findGroupWinners(programId?: string): Promise<WinnerHistory[]> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c WHERE c.winnerType = @winnerType ORDER BY c.createdAt DESC',
-      parameters: [{ name: '@winnerType', value: WinnerType.BY_GROUP }],
+      query: `SELECT * FROM c WHERE c.winnerType = @winnerType AND ${CURRENT_WINNER}${filter ? ` AND ${filter.clause}` : ''} ORDER BY c.createdAt DESC`,
+      parameters: [
+        { name: '@winnerType', value: WinnerType.BY_GROUP },
+        ...(filter ? [filter.parameter] : []),
+      ],
     };
     const { resources } = await container.items.query<WinnerHistory>(querySpec).fetchAll();
     return resources as WinnerHistory[];
@@ -94,8 +154,7 @@ export class WinnerHistoryRepository {
   async findGeneralWinnerByPeriod(periodId: string): Promise<WinnerHistory | null> {
     const container = await this.cosmosClient.getContainer(this.containerName);
     const querySpec = {
-      query:
-        'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId AND c.winnerType = @winnerType',
+      query: `SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId AND c.winnerType = @winnerType AND ${CURRENT_WINNER}`,
       parameters: [
         { name: '@votingPeriodId', value: periodId },
         { name: '@winnerType', value: WinnerType.GENERAL },
@@ -108,8 +167,7 @@ export class WinnerHistoryRepository {
   async findGroupWinnersByPeriod(votingPeriodId: string): Promise<WinnerHistory[]> {
     const container = await this.cosmosClient.getContainer(this.containerName);
     const querySpec = {
-      query:
-        'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId AND c.winnerType = @winnerType',
+      query: `SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId AND c.winnerType = @winnerType AND ${CURRENT_WINNER}`,
       parameters: [
         { name: '@votingPeriodId', value: votingPeriodId },
         { name: '@winnerType', value: WinnerType.BY_GROUP },
@@ -120,20 +178,23 @@ export class WinnerHistoryRepository {
     return (resources as WinnerHistory[]).sort((a, b) => a.rank - b.rank);
   }
 
-  async findYearlyWinners(): Promise<WinnerHistory[]> {
+  async findYearlyWinners(programId?: string): Promise<WinnerHistory[]> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c WHERE c.isYearlyWinner = true ORDER BY c.year DESC',
+      query: `SELECT * FROM c WHERE c.isYearlyWinner = true AND ${CURRENT_WINNER}${filter ? ` AND ${filter.clause}` : ''} ORDER BY c.year DESC`,
+      parameters: filter ? [filter.parameter] : [],
     };
     const { resources } = await container.items.query<WinnerHistory>(querySpec).fetchAll();
     return resources as WinnerHistory[];
   }
 
-  async findYearlyWinnerByYear(year: number): Promise<WinnerHistory | null> {
+  async findYearlyWinnerByYear(year: number, programId?: string): Promise<WinnerHistory | null> {
     const container = await this.cosmosClient.getContainer(this.containerName);
+    const filter = programId ? ProgramHelper.queryFilter(programId) : null;
     const querySpec = {
-      query: 'SELECT * FROM c WHERE c.isYearlyWinner = true AND c.year = @year',
-      parameters: [{ name: '@year', value: year }],
+      query: `SELECT * FROM c WHERE c.isYearlyWinner = true AND c.year = @year AND ${CURRENT_WINNER}${filter ? ` AND ${filter.clause}` : ''}`,
+      parameters: [{ name: '@year', value: year }, ...(filter ? [filter.parameter] : [])],
     };
     const { resources } = await container.items.query<WinnerHistory>(querySpec).fetchAll();
     return resources.length > 0 ? (resources[0] as WinnerHistory) : null;
@@ -147,8 +208,11 @@ export class WinnerHistoryRepository {
       throw new Error('Winner not found');
     }
 
-    // Remove yearly winner flag from other winners of the same year
-    const existingYearlyWinner = await this.findYearlyWinnerByYear(winner.year);
+    // Remove yearly winner flag from other winners of the same year and program
+    const existingYearlyWinner = await this.findYearlyWinnerByYear(
+      winner.year,
+      ProgramHelper.resolveId(winner.programId)
+    );
     if (existingYearlyWinner && existingYearlyWinner.id !== winnerId) {
       const updatedExisting = { ...existingYearlyWinner, isYearlyWinner: false };
       await container
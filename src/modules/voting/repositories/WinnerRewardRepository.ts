@@ -0,0 +1,67 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { OUTSTANDING_REWARD_STATUSES, WinnerReward } from '../../../common/models/WinnerReward';
+
+export class WinnerRewardRepository {
+  private readonly containerName = 'winnerRewards';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  async create(reward: WinnerReward): Promise<WinnerReward> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.create<WinnerReward>(reward);
+    return resource as WinnerReward;
+  }
+
+  async findById(id: string): Promise<WinnerReward | null> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container.item(id, id).read<WinnerReward>();
+      return (resource as WinnerReward) || null;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findByVotingPeriod(votingPeriodId: string): Promise<WinnerReward[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c WHERE c.votingPeriodId = @votingPeriodId',
+      parameters: [{ name: '@votingPeriodId', value: votingPeriodId }],
+    };
+    const { resources } = await container.items.query<WinnerReward>(querySpec).fetchAll();
+    return resources as WinnerReward[];
+  }
+
+  /**
+   * Rewards not yet delivered or declined, oldest first. Optionally only those of one owner
+   * or one program.
+   */
+  async findOutstanding(ownerUserId?: string, programId?: string): Promise<WinnerReward[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: `SELECT * FROM c WHERE ARRAY_CONTAINS(@statuses, c.status)${ownerUserId ? ' AND c.ownerUserId = @ownerUserId' : ''}${programId ? ' AND c.programId = @programId' : ''} ORDER BY c.assignedAt ASC`,
+      parameters: [
+        { name: '@statuses', value: OUTSTANDING_REWARD_STATUSES },
+        ...(ownerUserId ? [{ name: '@ownerUserId', value: ownerUserId }] : []),
+        ...(programId ? [{ name: '@programId', value: programId }] : []),
+      ],
+    };
+    const { resources } = await container.items.query<WinnerReward>(querySpec).fetchAll();
+    return resources as WinnerReward[];
+  }
+
+  async update(id: string, reward: WinnerReward): Promise<WinnerReward> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.item(id, id).replace<WinnerReward>(reward);
+    return resource as WinnerReward;
+  }
+
+  async delete(id: string): Promise<void> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    await container.item(id, id).delete();
+  }
+}
@@ -0,0 +1,60 @@
+import { CosmosClient } from '../../../common/utils/CosmosClient';
+import { YearlyAward } from '../../../common/models/YearlyAward';
+
+export class YearlyAwardRepository {
+  private readonly containerName = 'yearlyAwards';
+
+  constructor(private readonly cosmosClient: CosmosClient) {}
+
+  /**
+   * Fails with a 409 when the year already has an award
+   */
+  async create(award: YearlyAward): Promise<YearlyAward> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container.items.create<YearlyAward>(award);
+    return resource as YearlyAward;
+  }
+
+  async findById(id: string): Promise<YearlyAward | null> {
+    try {
+      const container = await this.cosmosClient.getContainer(this.containerName);
+      const { resource } = await container.item(id, id).read<YearlyAward>();
+      return (resource as YearlyAward) || null;
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async findAll(): Promise<YearlyAward[]> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const querySpec = {
+      query: 'SELECT * FROM c ORDER BY c.year DESC',
+    };
+    const { resources } = await container.items.query<YearlyAward>(querySpec).fetchAll();
+    return resources as YearlyAward[];
+  }
+
+  /**
+   * Replace the award only if it hasn't changed since it was read. Fails with a 412 otherwise,
+   * so two admins can't decide the same award at once.
+   */
+  async update(award: YearlyAward): Promise<YearlyAward> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    const { resource } = await container
+      .item(award.id, award.id)
+      .replace<YearlyAward>(
+        award,
+        award._etag ? { accessCondition: { type: 'IfMatch', condition: award._etag } } : undefined
+      );
+    return resource as YearlyAward;
+  }
+
+  async delete(id: string): Promise<void> {
+    const container = await this.cosmosClient.getContainer(this.containerName);
+    await container.item(id, id).delete();
+  }
+}
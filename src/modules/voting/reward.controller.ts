@@ -0,0 +1,134 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { UpdateWinnerRewardDto } from './dto/winner-reward.dto';
+import { ResponseHelper } from '../../common/utils/ResponseHelper';
+import { getDependencies } from '../../common/utils/Dependencies';
+import { AuthHelper } from '../../common/utils/AuthHelper';
+
+export class RewardController {
+  private dependencies: any;
+
+  constructor(dependencies: any) {
+    this.dependencies = dependencies;
+  }
+
+  /**
+   * Rewards still pending or ordered. Admins see everyone's (optionally one owner's), other
+   * users only the rewards they are responsible for.
+   */
+  async getOutstandingRewards(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      const isAdmin = user.roles?.includes('admin');
+      const ownerUserId = isAdmin ? request.query.get('ownerUserId') || undefined : user.userId;
+
+      const rewards = await this.dependencies.rewardService.getOutstandingRewards({
+        ownerUserId,
+        programId: request.query.get('programId') || undefined,
+      });
+      return ResponseHelper.ok(rewards);
+    } catch (error) {
+      context.error('Error getting outstanding rewards:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async updateReward(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'PUT') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      const rewardId = request.params.rewardId;
+      if (!rewardId) {
+        return ResponseHelper.badRequest('Reward ID is required');
+      }
+
+      const reward = await this.dependencies.rewardService.getReward(rewardId);
+      if (!reward) {
+        return ResponseHelper.notFound('Reward not found');
+      }
+      const isAdmin = !!user.roles?.includes('admin');
+      if (!isAdmin && reward.ownerUserId !== user.userId) {
+        return ResponseHelper.forbidden('Only the reward owner or an admin can update this reward');
+      }
+
+      const body = (await request.json()) as UpdateWinnerRewardDto;
+
+      const updated = await this.dependencies.rewardService.updateReward(
+        rewardId,
+        body,
+        {
+          userId: user.userId,
+          userName: user.username || user.email || 'unknown',
+          userEmail: user.email || undefined,
+        },
+        isAdmin
+      );
+
+      context.log(`User ${user.email} updated reward ${rewardId} (${updated.status})`);
+      return ResponseHelper.ok(updated);
+    } catch (error) {
+      context.error('Error updating reward:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Reward not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+}
+
+const getOutstandingRewardsFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new RewardController(dependencies);
+  return controller.getOutstandingRewards(request, context);
+};
+
+const updateRewardFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new RewardController(dependencies);
+  return controller.updateReward(request, context);
+};
+
+app.http('outstanding-rewards', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/rewards/outstanding',
+  handler: getOutstandingRewardsFunction,
+});
+
+app.http('winner-reward', {
+  methods: ['PUT', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/rewards/{rewardId}',
+  handler: updateRewardFunction,
+});
@@ -0,0 +1,223 @@
+import {
+  CitationQuote,
+  WinnerCitation,
+  WinnerCitationDraft,
+  WinnerHistory,
+} from '../../../common/models/WinnerHistory';
+import { AuditService } from '../../../common/services/AuditService';
+import { AuditEntity, AuditAction } from '../../../common/models/AuditLog';
+import { NominationStatus } from '../../../common/models/Nomination';
+import { ApproveCitationDto } from '../dto/winner-citation.dto';
+import { WinnerHistoryRepository } from '../repositories/WinnerHistoryRepository';
+import { NominationRepository } from '../repositories/NominationRepository';
+import { EmployeeRepository } from '../../employee/repositories/EmployeeRepository';
+
+type UserContext = { userId: string; userName: string; userEmail?: string };
+
+// Attribution of a quote when the citation anonymizes the nominators
+const ANONYMOUS_NOMINATOR = 'A colleague';
+
+export class CitationService {
+  constructor(
+    private winnerHistoryRepository: WinnerHistoryRepository,
+    private nominationRepository: NominationRepository,
+    private employeeRepository: EmployeeRepository,
+    private auditService?: AuditService
+  ) {}
+
+  /**
+   * The winner's nomination reasons to pick the quotes from, with the citation approved so far
+   */
+  async getCitationDraft(winnerId: string): Promise<WinnerCitationDraft> {
+    const winner = await this.requireWinner(winnerId);
+    return {
+      winnerId: winner.id,
+      employeeId: winner.employeeId,
+      employeeName: winner.employeeName,
+      reasons: await this.getReasons(winner),
+      ...(winner.citation && { citation: winner.citation }),
+    };
+  }
+
+  /**
+   * Compose the citation from the picked quotes and store it on the winner. Both records of the
+   * employee in the period (group and general) get it, so every winners endpoint shows the same.
+   */
+  async approveCitation(
+    winnerId: string,
+    dto: ApproveCitationDto,
+    userContext: UserContext
+  ): Promise<WinnerHistory> {
+    const winner = await this.requireWinner(winnerId);
+    const summary = dto.summary?.trim();
+    if (!Array.isArray(dto.quotes)) {
+      throw new Error('quotes must be an array');
+    }
+    if (dto.quotes.length === 0 && !summary) {
+      throw new Error('A citation needs a summary or at least one quote');
+    }
+
+    const reasons = new Map(
+      (await this.getReasons(winner)).map(reason => [reason.nominationId, reason])
+    );
+    const anonymizeNominators = dto.anonymizeNominators ?? false;
+    const quotes: CitationQuote[] = [];
+    for (const quote of dto.quotes) {
+      const reason = reasons.get(quote.nominationId);
+      if (!reason) {
+        throw new Error(`Nomination ${quote.nominationId} is not one of the winner's nominations`);
+      }
+      if (quotes.some(q => q.nominationId === quote.nominationId)) {
+        throw new Error(`Nomination ${quote.nominationId} is quoted more than once`);
+      }
+      const text = (quote.text ?? reason.comment).trim();
+      if (!text) {
+        throw new Error(`The quote of nomination ${quote.nominationId} is empty`);
+      }
+      quotes.push({
+        nominationId: quote.nominationId,
+        text,
+        edited: text !== reason.comment.trim(),
+        ...(!anonymizeNominators && { nominatorName: reason.nominatorName }),
+      });
+    }
+
+    const citation: WinnerCitation = {
+      ...(summary && { summary }),
+      quotes,
+      anonymizeNominators,
+      text: this.composeText(summary, quotes),
+      approvedAt: new Date(),
+      approvedBy: userContext.userId,
+      approvedByName: userContext.userName,
+    };
+
+    const updated = await this.saveCitation(winner, citation);
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.WINNER,
+          entityId: winnerId,
+          action: AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [
+            { field: 'citation', oldValue: winner.citation?.text, newValue: citation.text },
+          ],
+          metadata: {
+            votingPeriodId: winner.votingPeriodId,
+            employeeId: winner.employeeId,
+            quotedNominationIds: quotes.map(q => q.nominationId),
+            editedQuotes: quotes.filter(q => q.edited).length,
+            anonymizeNominators,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return updated;
+  }
+
+  async removeCitation(winnerId: string, userContext: UserContext): Promise<WinnerHistory> {
+    const winner = await this.requireWinner(winnerId);
+    if (!winner.citation) {
+      throw new Error('This winner has no citation');
+    }
+
+    const updated = await this.saveCitation(winner, undefined);
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.WINNER,
+          entityId: winnerId,
+          action: AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [{ field: 'citation', oldValue: winner.citation.text, newValue: null }],
+          metadata: { votingPeriodId: winner.votingPeriodId, employeeId: winner.employeeId },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return updated;
+  }
+
+  private async requireWinner(winnerId: string): Promise<WinnerHistory> {
+    const winner = await this.winnerHistoryRepository.findById(winnerId);
+    if (!winner) {
+      throw new Error('Winner not found');
+    }
+    if (winner.disqualified) {
+      throw new Error('This winner is disqualified');
+    }
+    if (winner.superseded) {
+      throw new Error('This winner was replaced by a redraw');
+    }
+    return winner;
+  }
+
+  /**
+   * Reasons of the winner's approved nominations in the period, read from the nominations
+   * themselves since older results snapshots don't carry the nomination IDs
+   */
+  private async getReasons(winner: WinnerHistory): Promise<WinnerCitationDraft['reasons']> {
+    const nominations = (
+      await this.nominationRepository.findByPeriodAndEmployeeId(
+        winner.votingPeriodId,
+        winner.employeeId
+      )
+    ).filter(n => (!n.status || n.status === NominationStatus.APPROVED) && n.reason?.trim());
+
+    const nominatorNames = new Map<string, string>();
+    for (const userName of new Set(nominations.map(n => n.nominatorUserName))) {
+      const nominator = await this.employeeRepository.findByUsername(userName);
+      nominatorNames.set(userName, nominator?.fullName || userName);
+    }
+
+    return nominations.map(nomination => ({
+      nominationId: nomination.id,
+      comment: nomination.reason,
+      nominatorName:
+        nominatorNames.get(nomination.nominatorUserName) || nomination.nominatorUserName,
+      date: nomination.createdAt,
+    }));
+  }
+
+  /**
+   * Stores the citation on every record of the employee in the period and returns the one asked for
+   */
+  private async saveCitation(
+    winner: WinnerHistory,
+    citation: WinnerCitation | undefined
+  ): Promise<WinnerHistory> {
+    const records = (
+      await this.winnerHistoryRepository.findByVotingPeriod(winner.votingPeriodId)
+    ).filter(w => w.employeeId === winner.employeeId && !w.disqualified && !w.superseded);
+
+    let updated = winner;
+    for (const record of records) {
+      const saved = await this.winnerHistoryRepository.update(record.id, { ...record, citation });
+      if (record.id === winner.id) {
+        updated = saved;
+      }
+    }
+    return updated;
+  }
+
+  private composeText(summary: string | undefined, quotes: CitationQuote[]): string {
+    const lines = quotes.map(
+      quote => `"${quote.text}" — ${quote.nominatorName || ANONYMOUS_NOMINATOR}`
+    );
+    return [...(summary ? [summary] : []), ...lines].join('\n\n');
+  }
+}
@@ -0,0 +1,479 @@
+import { VotingPeriod, VotingPeriodStatus } from '../../../common/models/VotingPeriod';
+import {
+  ConflictOfInterest,
+  JudgeScore,
+  JudgingResult,
+  JudgingRound,
+} from '../../../common/models/Judging';
+import { UserRole } from '../../../common/constants/roles.constants';
+import { AuditService } from '../../../common/services/AuditService';
+import { AuditEntity, AuditAction, CreateAuditLogDto } from '../../../common/models/AuditLog';
+import { Criteria } from '../dto/create-nomination.dto';
+import {
+  AssignJudgesDto,
+  DeclareConflictDto,
+  StartJudgingDto,
+  SubmitJudgeScoreDto,
+} from '../dto/judging.dto';
+import { VotingPeriodRepository } from '../repositories/VotingPeriodRepository';
+import { JudgeScoreRepository } from '../repositories/JudgeScoreRepository';
+import { NominationRepository } from '../repositories/NominationRepository';
+import { EmployeeService } from '../../employee/employee.service';
+import { VotingService } from './VotingService';
+import { ValidationService } from './ValidationService';
+import {
+  CriterionDefinition,
+  DEFAULT_CRITERIA,
+} from '../../configuration/models/criteria-config.model';
+
+const DEFAULT_FINALISTS_PER_GROUP = 3;
+const DEFAULT_PEER_WEIGHT = 0.5;
+
+type UserContext = { userId: string; userName: string; userEmail?: string };
+
+export class JudgingService {
+  constructor(
+    private votingPeriodRepository: VotingPeriodRepository,
+    private judgeScoreRepository: JudgeScoreRepository,
+    private nominationRepository: NominationRepository,
+    private employeeService: EmployeeService,
+    private votingService: VotingService,
+    private validationService: ValidationService,
+    private auditService?: AuditService
+  ) {}
+
+  /**
+   * Close nominations and snapshot the top-N per voting group as finalists
+   */
+  async startJudging(
+    votingPeriodId: string,
+    data: StartJudgingDto,
+    userContext: UserContext
+  ): Promise<JudgingRound> {
+    const period = await this.getPeriod(votingPeriodId);
+
+    if (
+      period.status !== VotingPeriodStatus.ACTIVE &&
+      period.status !== VotingPeriodStatus.CLOSED
+    ) {
+      throw new Error('Judging can only start on an active or closed voting period');
+    }
+    if (period.judging) {
+      throw new Error('A judging round already exists for this voting period');
+    }
+
+    const finalistsPerGroup = data.finalistsPerGroup ?? DEFAULT_FINALISTS_PER_GROUP;
+    if (!Number.isInteger(finalistsPerGroup) || finalistsPerGroup < 1) {
+      throw new Error('finalistsPerGroup must be an integer >= 1');
+    }
+    const peerWeight = data.peerWeight ?? DEFAULT_PEER_WEIGHT;
+    if (typeof peerWeight !== 'number' || peerWeight < 0 || peerWeight > 1) {
+      throw new Error('peerWeight must be a number between 0 and 1');
+    }
+
+    const results = await this.votingService.getVotingResults(votingPeriodId);
+    if (results.results.length === 0) {
+      throw new Error('No nominations found for this voting period');
+    }
+
+    const finalists = results.results.filter(r => r.rank <= finalistsPerGroup);
+    const winnersPerGroup: Record<string, number> = {};
+    for (const winner of results.winners || []) {
+      const group = winner.votingGroup || 'default';
+      winnersPerGroup[group] = (winnersPerGroup[group] || 0) + 1;
+    }
+
+    // Scores left over from a round discarded by a period reset must not leak into this one
+    await this.judgeScoreRepository.deleteByVotingPeriod(votingPeriodId);
+
+    const round: JudgingRound = {
+      finalistsPerGroup,
+      peerWeight,
+      finalists,
+      winnersPerGroup,
+      judges: [],
+      conflicts: [],
+      startedAt: new Date(),
+      startedBy: userContext.userName,
+    };
+
+    const oldStatus = period.status;
+    period.judging = round;
+    period.status = VotingPeriodStatus.JUDGING;
+    period.updatedAt = new Date();
+    await this.votingPeriodRepository.update(votingPeriodId, period);
+
+    await this.logAudit(votingPeriodId, AuditAction.STATUS_CHANGE, userContext, {
+      changes: [{ field: 'status', oldValue: oldStatus, newValue: VotingPeriodStatus.JUDGING }],
+      metadata: { finalists: finalists.length, finalistsPerGroup, peerWeight },
+    });
+
+    return round;
+  }
+
+  async getJudgingRound(votingPeriodId: string): Promise<JudgingRound> {
+    const period = await this.getPeriod(votingPeriodId);
+    return this.getRound(period);
+  }
+
+  /**
+   * Replace the judging panel. Every judge must be an active employee with the judge role
+   */
+  async assignJudges(
+    votingPeriodId: string,
+    data: AssignJudgesDto,
+    userContext: UserContext
+  ): Promise<JudgingRound> {
+    const period = await this.getPeriod(votingPeriodId);
+    const round = this.getOpenRound(period);
+
+    if (!Array.isArray(data.employeeIds) || data.employeeIds.length === 0) {
+      throw new Error('At least one judge is required');
+    }
+
+    const judges = [];
+    for (const employeeId of [...new Set(data.employeeIds)]) {
+      const employee = await this.employeeService.getEmployeeById(employeeId);
+      if (!employee || !employee.isActive) {
+        throw new Error(`Judge ${employeeId} must be an active employee`);
+      }
+      if (!employee.roles?.includes(UserRole.JUDGE)) {
+        throw new Error(`${employee.fullName || employeeId} does not have the judge role`);
+      }
+
+      const existing = round.judges.find(j => j.employeeId === employeeId);
+      judges.push(
+        existing || {
+          employeeId,
+          employeeName: employee.fullName || employeeId,
+          assignedAt: new Date(),
+          assignedBy: userContext.userName,
+        }
+      );
+    }
+
+    const oldJudges = round.judges.map(j => j.employeeId);
+    round.judges = judges;
+    period.updatedAt = new Date();
+    await this.votingPeriodRepository.update(votingPeriodId, period);
+
+    await this.logAudit(votingPeriodId, AuditAction.UPDATE, userContext, {
+      changes: [{ field: 'judges', oldValue: oldJudges, newValue: judges.map(j => j.employeeId) }],
+    });
+
+    return round;
+  }
+
+  async submitScore(
+    votingPeriodId: string,
+    judgeEmployeeId: string,
+    data: SubmitJudgeScoreDto
+  ): Promise<JudgeScore> {
+    const period = await this.getPeriod(votingPeriodId);
+    const round = this.getOpenRound(period);
+
+    const judge = round.judges.find(j => j.employeeId === judgeEmployeeId);
+    if (!judge) {
+      throw new Error('You are not on the judging panel for this voting period');
+    }
+    if (!round.finalists.some(f => f.employeeId === data.finalistEmployeeId)) {
+      throw new Error('Employee is not a finalist of this voting period');
+    }
+
+    const conflict = await this.findConflict(period, judgeEmployeeId, data.finalistEmployeeId);
+    if (conflict) {
+      throw new Error(`Conflict of interest: ${conflict}`);
+    }
+
+    this.validationService.validateCriteria(data.criteria, this.getCriteria(period));
+
+    const id = `${votingPeriodId}-${judgeEmployeeId}-${data.finalistEmployeeId}`;
+    const existing = await this.judgeScoreRepository.findById(id);
+
+    return this.judgeScoreRepository.upsert({
+      id,
+      votingPeriodId,
+      judgeEmployeeId,
+      judgeName: judge.employeeName,
+      finalistEmployeeId: data.finalistEmployeeId,
+      criteria: data.criteria,
+      ...(data.comment && { comment: data.comment.trim() }),
+      createdAt: existing?.createdAt || new Date(),
+      ...(existing && { updatedAt: new Date() }),
+    });
+  }
+
+  async getScores(votingPeriodId: string, judgeEmployeeId?: string): Promise<JudgeScore[]> {
+    await this.getPeriod(votingPeriodId);
+    return judgeEmployeeId
+      ? this.judgeScoreRepository.findByJudgeAndPeriod(judgeEmployeeId, votingPeriodId)
+      : this.judgeScoreRepository.findByVotingPeriod(votingPeriodId);
+  }
+
+  /**
+   * Record a conflict of interest. The judge's score for that finalist, if any, is discarded
+   */
+  async declareConflict(
+    votingPeriodId: string,
+    judgeEmployeeId: string,
+    data: DeclareConflictDto,
+    userContext: UserContext
+  ): Promise<ConflictOfInterest> {
+    const period = await this.getPeriod(votingPeriodId);
+    const round = this.getOpenRound(period);
+
+    if (!round.judges.some(j => j.employeeId === judgeEmployeeId)) {
+      throw new Error('Judge is not on the judging panel for this voting period');
+    }
+    if (!round.finalists.some(f => f.employeeId === data.finalistEmployeeId)) {
+      throw new Error('Employee is not a finalist of this voting period');
+    }
+    if (!data.reason || data.reason.trim().length === 0) {
+      throw new Error('A reason is required to declare a conflict of interest');
+    }
+
+    const existing = round.conflicts.find(
+      c => c.judgeEmployeeId === judgeEmployeeId && c.finalistEmployeeId === data.finalistEmployeeId
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const conflict: ConflictOfInterest = {
+      judgeEmployeeId,
+      finalistEmployeeId: data.finalistEmployeeId,
+      reason: data.reason.trim(),
+      declaredAt: new Date(),
+      declaredBy: userContext.userName,
+    };
+    round.conflicts.push(conflict);
+    period.updatedAt = new Date();
+    await this.votingPeriodRepository.update(votingPeriodId, period);
+
+    const scoreId = `${votingPeriodId}-${judgeEmployeeId}-${data.finalistEmployeeId}`;
+    if (await this.judgeScoreRepository.findById(scoreId)) {
+      await this.judgeScoreRepository.delete(scoreId);
+    }
+
+    await this.logAudit(votingPeriodId, AuditAction.UPDATE, userContext, {
+      metadata: { conflict },
+    });
+
+    return conflict;
+  }
+
+  async getConflicts(votingPeriodId: string): Promise<ConflictOfInterest[]> {
+    const period = await this.getPeriod(votingPeriodId);
+    return this.getRound(period).conflicts;
+  }
+
+  /**
+   * Blend judge scores with the peer nomination data. Returns the stored ranking once the
+   * round is completed, otherwise a live preview
+   */
+  async getJudgingResults(votingPeriodId: string): Promise<JudgingResult[]> {
+    const period = await this.getPeriod(votingPeriodId);
+    const round = this.getRound(period);
+
+    if (round.results) {
+      return round.results;
+    }
+
+    return this.calculateResults(period, round);
+  }
+
+  /**
+   * Freeze the blended ranking. The general winner is then selected from the judged group winners
+   */
+  async completeJudging(
+    votingPeriodId: string,
+    userContext: UserContext
+  ): Promise<JudgingResult[]> {
+    const period = await this.getPeriod(votingPeriodId);
+    const round = this.getOpenRound(period);
+
+    if (round.judges.length === 0) {
+      throw new Error('Assign at least one judge before completing the judging round');
+    }
+
+    round.results = await this.calculateResults(period, round);
+    round.completedAt = new Date();
+    round.completedBy = userContext.userName;
+    period.updatedAt = new Date();
+    await this.votingPeriodRepository.update(votingPeriodId, period);
+
+    await this.logAudit(votingPeriodId, AuditAction.CLOSE, userContext, {
+      metadata: {
+        finalists: round.results.length,
+        judges: round.judges.length,
+      },
+    });
+
+    return round.results;
+  }
+
+  private async calculateResults(
+    period: VotingPeriod,
+    round: JudgingRound
+  ): Promise<JudgingResult[]> {
+    const criteria = this.getCriteria(period);
+    const judgeIds = new Set(round.judges.map(j => j.employeeId));
+    // Scores from judges removed from the panel or with a declared conflict don't count
+    const scores = (await this.judgeScoreRepository.findByVotingPeriod(period.id)).filter(
+      s =>
+        judgeIds.has(s.judgeEmployeeId) &&
+        !round.conflicts.some(
+          c =>
+            c.judgeEmployeeId === s.judgeEmployeeId && c.finalistEmployeeId === s.finalistEmployeeId
+        )
+    );
+
+    const results: JudgingResult[] = round.finalists.map(finalist => {
+      const finalistScores = scores.filter(s => s.finalistEmployeeId === finalist.employeeId);
+      const judgeScore =
+        finalistScores.length > 0
+          ? finalistScores.reduce((sum, s) => sum + this.normalizeScore(s.criteria, criteria), 0) /
+            finalistScores.length
+          : 0;
+      const peerScore = finalist.percentage / 100;
+
+      return {
+        ...finalist,
+        judgeCount: finalistScores.length,
+        judgeAverageCriteria: this.averageCriteria(finalistScores, criteria),
+        peerScore: Math.round(peerScore * 10000) / 10000,
+        judgeScore: Math.round(judgeScore * 10000) / 10000,
+        finalScore:
+          Math.round((round.peerWeight * peerScore + (1 - round.peerWeight) * judgeScore) * 10000) /
+          10000,
+        finalRank: 0,
+        originalRank: finalist.rank,
+      };
+    });
+
+    // Rank within each voting group, falling back to the peer rank on equal final scores
+    const groups = new Map<string, JudgingResult[]>();
+    for (const result of results) {
+      const group = result.votingGroup || 'default';
+      groups.set(group, [...(groups.get(group) || []), result]);
+    }
+    for (const groupResults of groups.values()) {
+      groupResults
+        .sort((a, b) => b.finalScore - a.finalScore || a.originalRank - b.originalRank)
+        .forEach((result, index) => {
+          result.finalRank = index + 1;
+        });
+    }
+
+    return results.sort(
+      (a, b) =>
+        (a.votingGroup || 'default').localeCompare(b.votingGroup || 'default') ||
+        a.finalRank - b.finalRank
+    );
+  }
+
+  private normalizeScore(scores: Criteria, criteria: CriterionDefinition[]): number {
+    const normalized = criteria
+      .filter(c => typeof scores[c.key] === 'number')
+      .map(c => (scores[c.key] - c.min) / (c.max - c.min));
+    return normalized.length > 0
+      ? normalized.reduce((sum, value) => sum + value, 0) / normalized.length
+      : 0;
+  }
+
+  private averageCriteria(scores: JudgeScore[], criteria: CriterionDefinition[]): Criteria {
+    const average: Criteria = {};
+    for (const { key } of criteria) {
+      const values = scores.map(s => s.criteria[key]).filter(v => typeof v === 'number');
+      if (values.length > 0) {
+        average[key] =
+          Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+      }
+    }
+    return average;
+  }
+
+  /**
+   * Declared conflicts plus the obvious ones: judging yourself or someone you nominated
+   */
+  private async findConflict(
+    period: VotingPeriod,
+    judgeEmployeeId: string,
+    finalistEmployeeId: string
+  ): Promise<string | null> {
+    if (judgeEmployeeId === finalistEmployeeId) {
+      return 'judges cannot score themselves';
+    }
+
+    const declared = this.getRound(period).conflicts.find(
+      c => c.judgeEmployeeId === judgeEmployeeId && c.finalistEmployeeId === finalistEmployeeId
+    );
+    if (declared) {
+      return declared.reason;
+    }
+
+    const judge = await this.employeeService.getEmployeeById(judgeEmployeeId);
+    if (judge?.username) {
+      const nominations = await this.nominationRepository.findAllByNominatorAndPeriod(
+        judge.username,
+        period.id
+      );
+      if (nominations.some(n => n.nominatedEmployeeId === finalistEmployeeId)) {
+        return 'judges cannot score a finalist they nominated';
+      }
+    }
+
+    return null;
+  }
+
+  private async getPeriod(votingPeriodId: string): Promise<VotingPeriod> {
+    const period = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!period) {
+      throw new Error('Voting period not found');
+    }
+    return period;
+  }
+
+  private getRound(period: VotingPeriod): JudgingRound {
+    if (!period.judging) {
+      throw new Error('No judging round found for this voting period');
+    }
+    return period.judging;
+  }
+
+  private getOpenRound(period: VotingPeriod): JudgingRound {
+    const round = this.getRound(period);
+    if (round.completedAt || period.status !== VotingPeriodStatus.JUDGING) {
+      throw new Error('The judging round for this voting period is closed');
+    }
+    return round;
+  }
+
+  private getCriteria(period: VotingPeriod): CriterionDefinition[] {
+    return period.criteria ?? DEFAULT_CRITERIA;
+  }
+
+  private async logAudit(
+    votingPeriodId: string,
+    action: AuditAction,
+    userContext: UserContext,
+    details: Pick<CreateAuditLogDto, 'changes' | 'metadata'>
+  ): Promise<void> {
+    if (!this.auditService) {
+      return;
+    }
+    try {
+      await this.auditService.log({
+        entityType: AuditEntity.JUDGING,
+        entityId: votingPeriodId,
+        action,
+        userId: userContext.userId,
+        userName: userContext.userName,
+        userEmail: userContext.userEmail,
+        ...details,
+      });
+    } catch (error) {
+      console.error('Failed to log audit:', error);
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import {
+  PeriodMember,
+  PeriodMembership,
+  PeriodMembershipChange,
+  PeriodMembershipDiff,
+} from '../../../common/models/PeriodMembership';
+import { VotingPeriod } from '../../../common/models/VotingPeriod';
+import { Employee } from '../../employee/models/employee.model';
+import { AuditService } from '../../../common/services/AuditService';
+import { AuditEntity, AuditAction } from '../../../common/models/AuditLog';
+import { EligibilityHelper } from '../../../common/utils/EligibilityHelper';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
+import { EmployeeRepository } from '../../employee/repositories/EmployeeRepository';
+import { ConfigurationService } from '../../configuration/configuration.service';
+import { VotingPeriodRepository } from '../repositories/VotingPeriodRepository';
+import { PeriodMembershipRepository } from '../repositories/PeriodMembershipRepository';
+
+type UserContext = { userId: string; userName: string; userEmail?: string };
+
+/**
+ * Voting groups and eligibility are captured when a period opens, so a sync that moves
+ * employees between groups mid-period doesn't change who competes and votes where.
+ */
+export class MembershipService {
+  constructor(
+    private periodMembershipRepository: PeriodMembershipRepository,
+    private votingPeriodRepository: VotingPeriodRepository,
+    private employeeRepository: EmployeeRepository,
+    private configurationService?: ConfigurationService,
+    private auditService?: AuditService
+  ) {}
+
+  /**
+   * The voting group captured for the period, or the current one for employees not captured
+   */
+  static getVotingGroup(
+    employee: Employee | null | undefined,
+    members: Map<string, PeriodMember> | null
+  ): string | undefined {
+    if (!employee) {
+      return undefined;
+    }
+    const member = members?.get(employee.id);
+    return (member ? member.votingGroup : employee.votingGroup) || undefined;
+  }
+
+  /**
+   * Capture the membership of a period unless it already has one
+   */
+  async captureMembership(
+    period: VotingPeriod,
+    userContext?: UserContext
+  ): Promise<PeriodMembership> {
+    const existing = await this.periodMembershipRepository.findByVotingPeriod(period.id);
+    if (existing) {
+      return existing;
+    }
+
+    return this.periodMembershipRepository.create({
+      id: `membership-${period.id}`,
+      votingPeriodId: period.id,
+      programId: ProgramHelper.resolveId(period.programId),
+      members: await this.buildMembers(period),
+      capturedAt: new Date(),
+      capturedBy: userContext?.userId || 'system',
+    });
+  }
+
+  // Only when the period itself is deleted
+  async deleteMembership(votingPeriodId: string): Promise<void> {
+    await this.periodMembershipRepository.deleteByVotingPeriod(votingPeriodId);
+  }
+
+  async getMembership(votingPeriodId: string): Promise<PeriodMembership> {
+    const membership = await this.periodMembershipRepository.findByVotingPeriod(votingPeriodId);
+    if (!membership) {
+      throw new Error('No membership snapshot found for this voting period');
+    }
+    return membership;
+  }
+
+  /**
+   * Captured members of a period by employee ID, or null for periods opened before
+   * memberships were captured (those keep using the employees' current data)
+   */
+  async getMembers(votingPeriodId: string): Promise<Map<string, PeriodMember> | null> {
+    const membership = await this.periodMembershipRepository.findByVotingPeriod(votingPeriodId);
+    if (!membership) {
+      return null;
+    }
+    return new Map(membership.members.map(member => [member.employeeId, member]));
+  }
+
+  /**
+   * What a refresh would change, without applying it
+   */
+  async previewRefresh(votingPeriodId: string): Promise<PeriodMembershipDiff> {
+    const { period, membership } = await this.loadForRefresh(votingPeriodId);
+    const current = await this.buildMembers(period);
+    return this.diff(membership, current, false);
+  }
+
+  /**
+   * Re-capture the membership from the employees' current data
+   */
+  async refreshMembership(
+    votingPeriodId: string,
+    userContext?: UserContext
+  ): Promise<PeriodMembershipDiff> {
+    const { period, membership } = await this.loadForRefresh(votingPeriodId);
+    const current = await this.buildMembers(period);
+    const diff = this.diff(membership, current, true);
+
+    await this.periodMembershipRepository.update(membership.id, {
+      ...membership,
+      members: current,
+      refreshedAt: new Date(),
+      refreshedBy: userContext?.userId || 'system',
+    });
+
+    // Log audit
+    if (this.auditService && userContext) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.VOTING_PERIOD,
+          entityId: votingPeriodId,
+          action: AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          metadata: {
+            membershipRefresh: true,
+            added: diff.added.length,
+            removed: diff.removed.length,
+            changes: diff.changes.length,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return diff;
+  }
+
+  private async loadForRefresh(
+    votingPeriodId: string
+  ): Promise<{ period: VotingPeriod; membership: PeriodMembership }> {
+    const period = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!period) {
+      throw new Error('Voting period not found');
+    }
+    if (period.publishedAt) {
+      throw new Error('The results of this voting period are published, its membership is final');
+    }
+    const membership = await this.getMembership(votingPeriodId);
+    return { period, membership };
+  }
+
+  private async buildMembers(period: VotingPeriod): Promise<PeriodMember[]> {
+    const employees = await this.employeeRepository.findActiveEmployees();
+    const eligibilityConfig = this.configurationService
+      ? await this.configurationService.getEligibilityConfig(
+          ProgramHelper.resolveId(period.programId)
+        )
+      : null;
+
+    return employees
+      .map(employee => ({
+        employeeId: employee.id,
+        employeeName: employee.fullName || 'Unknown',
+        ...(employee.votingGroup && { votingGroup: employee.votingGroup }),
+        votingEligible: eligibilityConfig
+          ? EligibilityHelper.isVotingEligible(employee, eligibilityConfig)
+          : employee.isActive,
+      }))
+      .sort((a, b) => a.employeeId.localeCompare(b.employeeId));
+  }
+
+  private diff(
+    membership: PeriodMembership,
+    current: PeriodMember[],
+    applied: boolean
+  ): PeriodMembershipDiff {
+    const captured = new Map(membership.members.map(member => [member.employeeId, member]));
+    const currentIds = new Set(current.map(member => member.employeeId));
+
+    const added = current.filter(member => !captured.has(member.employeeId));
+    const removed = membership.members.filter(member => !currentIds.has(member.employeeId));
+    const changes: PeriodMembershipChange[] = [];
+
+    for (const member of current) {
+      const before = captured.get(member.employeeId);
+      if (!before) {
+        continue;
+      }
+      if ((before.votingGroup || undefined) !== (member.votingGroup || undefined)) {
+        changes.push({
+          employeeId: member.employeeId,
+          employeeName: member.employeeName,
+          field: 'votingGroup',
+          snapshotValue: before.votingGroup,
+          currentValue: member.votingGroup,
+        });
+      }
+      if (before.votingEligible !== member.votingEligible) {
+        changes.push({
+          employeeId: member.employeeId,
+          employeeName: member.employeeName,
+          field: 'votingEligible',
+          snapshotValue: before.votingEligible,
+          currentValue: member.votingEligible,
+        });
+      }
+    }
+
+    return {
+      votingPeriodId: membership.votingPeriodId,
+      capturedAt: membership.capturedAt,
+      added,
+      removed,
+      changes,
+      hasChanges: added.length > 0 || removed.length > 0 || changes.length > 0,
+      applied,
+    };
+  }
+}
@@ -43,7 +43,52 @@ export class NotificationService {
     await this.sendNotification(message);
   }
 
+  async sendVotingExtendedNotification(
+    votingPeriod: VotingPeriod,
+    previousEndDate: Date,
+    reason: string
+  ): Promise<void> {
+    const message: NotificationMessage = {
+      to: 'all@company.com',
+      subject: `Voting Extended - Employee of the Month ${this.getMonthName(votingPeriod.month)} ${votingPeriod.year}`,
+      body: `
+        The voting period for Employee of the Month has been extended.
+
+        Period: ${this.getMonthName(votingPeriod.month)} ${votingPeriod.year}
+        Previously closing: ${new Date(previousEndDate).toLocaleDateString()}
+        Now closes: ${new Date(votingPeriod.endDate).toLocaleDateString()}
+        Reason: ${reason}
+      `,
+      type: 'email',
+    };
+
+    await this.sendNotification(message);
+  }
+
+  async sendVotingReopenedNotification(votingPeriod: VotingPeriod, reason: string): Promise<void> {
+    const message: NotificationMessage = {
+      to: 'all@company.com',
+      subject: `Voting Reopened - Employee of the Month ${this.getMonthName(votingPeriod.month)} ${votingPeriod.year}`,
+      body: `
+        The voting period for Employee of the Month has been reopened.
+
+        Period: ${this.getMonthName(votingPeriod.month)} ${votingPeriod.year}
+        Voting closes: ${new Date(votingPeriod.endDate).toLocaleDateString()}
+        Reason: ${reason}
+
+        Nominations already submitted are kept.
+      `,
+      type: 'email',
+    };
+
+    await this.sendNotification(message);
+  }
+
   async sendWinnerAnnouncement(winner: VoteResult, votingPeriod: VotingPeriod): Promise<void> {
+    // The approved citation, indented like the rest of the body
+    const citation = winner.citation
+      ? `\n        ${winner.citation.text.replace(/\n/g, '\n        ')}\n`
+      : '';
     const message: NotificationMessage = {
       to: 'all@company.com',
       subject: `🎉 Employee of the Month Winner - ${this.getMonthName(votingPeriod.month)} ${votingPeriod.year}`,
@@ -54,7 +99,7 @@ export class NotificationService {
         Department: ${winner.department}
         Position: ${winner.position}
         Votes: ${winner.nominationCount} (${winner.percentage.toFixed(1)}%)
-
+        ${citation}
         Thank you to everyone who participated in the voting!
       `,
       type: 'email',
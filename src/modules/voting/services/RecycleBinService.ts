@@ -0,0 +1,265 @@
+import { createHash, randomBytes } from 'crypto';
+import { RecycleBinEntry, RecycleBinRestoreResult } from '../../../common/models/RecycleBin';
+import { Nomination } from '../../../common/models/Nomination';
+import { Vote } from '../../../common/models/Vote';
+import { VotingPeriod } from '../../../common/models/VotingPeriod';
+import { WinnerHistory } from '../../../common/models/WinnerHistory';
+import { RewardStatus } from '../../../common/models/WinnerReward';
+import { AuditService } from '../../../common/services/AuditService';
+import { AuditEntity, AuditAction } from '../../../common/models/AuditLog';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
+import { VotingPeriodRepository } from '../repositories/VotingPeriodRepository';
+import { NominationRepository } from '../repositories/NominationRepository';
+import { WinnerHistoryRepository } from '../repositories/WinnerHistoryRepository';
+import { VoteRepository } from '../repositories/VoteRepository';
+import { RecycleBinRepository } from '../repositories/RecycleBinRepository';
+import { WinnerRewardRepository } from '../repositories/WinnerRewardRepository';
+import { RECYCLE_BIN_RETENTION_DAYS } from '../../../config/env.config';
+
+type UserContext = { userId: string; userName: string; userEmail?: string };
+
+const PURGE_CONFIRMATION_MINUTES = 10;
+
+export class RecycleBinService {
+  constructor(
+    private recycleBinRepository: RecycleBinRepository,
+    private votingPeriodRepository: VotingPeriodRepository,
+    private nominationRepository: NominationRepository,
+    private winnerHistoryRepository: WinnerHistoryRepository,
+    private voteRepository: VoteRepository,
+    private auditService?: AuditService,
+    private winnerRewardRepository?: WinnerRewardRepository
+  ) {}
+
+  /**
+   * Keep a copy of everything a reset is about to delete, including the winners' pending
+   * rewards. Resets must not delete anything when this fails.
+   */
+  async archivePeriodReset(
+    period: VotingPeriod,
+    data: {
+      nominations: Nomination[];
+      winners: WinnerHistory[];
+      votes: Vote[];
+      periodDeleted: boolean;
+    },
+    userContext?: UserContext
+  ): Promise<RecycleBinEntry> {
+    const rewards = this.winnerRewardRepository
+      ? (await this.winnerRewardRepository.findByVotingPeriod(period.id)).filter(
+          reward => reward.status === RewardStatus.PENDING
+        )
+      : [];
+    const archivedAt = new Date();
+    const expiresAt = new Date(archivedAt);
+    expiresAt.setDate(expiresAt.getDate() + RECYCLE_BIN_RETENTION_DAYS);
+
+    return this.recycleBinRepository.create({
+      id: `recycle-${period.id}-${archivedAt.getTime()}`,
+      votingPeriodId: period.id,
+      programId: ProgramHelper.resolveId(period.programId),
+      status: 'archived',
+      period: this.withoutSystemProperties(period),
+      periodDeleted: data.periodDeleted,
+      nominations: data.nominations.map(n => this.withoutSystemProperties(n)),
+      winners: data.winners.map(w => this.withoutSystemProperties(w)),
+      votes: data.votes.map(v => this.withoutSystemProperties(v)),
+      rewards: rewards.map(r => this.withoutSystemProperties(r)),
+      archivedAt,
+      archivedBy: userContext?.userId || 'system',
+      archivedByName: userContext?.userName || 'System',
+      expiresAt,
+    });
+  }
+
+  async getEntries(votingPeriodId?: string): Promise<RecycleBinEntry[]> {
+    const entries = await this.recycleBinRepository.findAll(votingPeriodId);
+    // The confirmation token hash stays server-side
+    return entries.map(entry => ({ ...entry, purgeConfirmation: undefined }));
+  }
+
+  /**
+   * Put the archived nominations, winners, votes and rewards back with their original IDs, and
+   * the period back in the state it had before the reset
+   */
+  async restore(entryId: string, userContext: UserContext): Promise<RecycleBinRestoreResult> {
+    const entry = await this.requireEntry(entryId);
+    if (entry.status !== 'archived') {
+      throw new Error('This recycle bin entry has already been restored');
+    }
+    if (new Date(entry.expiresAt) <= new Date()) {
+      throw new Error('The retention window of this recycle bin entry has passed');
+    }
+
+    const currentPeriod = await this.votingPeriodRepository.findById(entry.votingPeriodId);
+    if (entry.periodDeleted && currentPeriod) {
+      throw new Error(`A voting period with id ${entry.votingPeriodId} exists again`);
+    }
+    if (!entry.periodDeleted && !currentPeriod) {
+      throw new Error('Voting period not found');
+    }
+    if (currentPeriod?.publishedAt) {
+      throw new Error('The results of this voting period are published, it cannot be restored');
+    }
+
+    // Restoring on top of data created after the reset would mix both
+    const [nominations, winners, votes] = await Promise.all([
+      this.nominationRepository.findByVotingPeriod(entry.votingPeriodId),
+      this.winnerHistoryRepository.findByVotingPeriod(entry.votingPeriodId),
+      this.voteRepository.findByVotingPeriod(entry.votingPeriodId),
+    ]);
+    if (nominations.length > 0 || winners.length > 0 || votes.length > 0) {
+      throw new Error(
+        'The voting period has nominations, winners or votes created after the reset; reset it before restoring'
+      );
+    }
+
+    if (currentPeriod) {
+      await this.votingPeriodRepository.update(entry.votingPeriodId, {
+        ...currentPeriod,
+        status: entry.period.status,
+        judging: entry.period.judging,
+        votingPhase: entry.period.votingPhase,
+        updatedAt: new Date(),
+      });
+    } else {
+      await this.votingPeriodRepository.create(entry.period);
+    }
+    for (const nomination of entry.nominations) {
+      await this.nominationRepository.create(nomination);
+    }
+    for (const winner of entry.winners) {
+      await this.winnerHistoryRepository.create(winner);
+    }
+    for (const vote of entry.votes) {
+      await this.voteRepository.create(vote);
+    }
+    // Ordered, delivered and declined rewards outlive a reset, so only pending ones come back
+    const rewards = entry.rewards || [];
+    if (this.winnerRewardRepository) {
+      for (const reward of rewards) {
+        if (!(await this.winnerRewardRepository.findById(reward.id))) {
+          await this.winnerRewardRepository.create(reward);
+        }
+      }
+    }
+
+    await this.recycleBinRepository.update(entry.id, {
+      ...entry,
+      status: 'restored',
+      restoredAt: new Date(),
+      restoredBy: userContext.userId,
+    });
+
+    const result: RecycleBinRestoreResult = {
+      entryId: entry.id,
+      votingPeriodId: entry.votingPeriodId,
+      periodRestored: entry.periodDeleted,
+      nominationsRestored: entry.nominations.length,
+      winnersRestored: entry.winners.length,
+      votesRestored: entry.votes.length,
+      rewardsRestored: this.winnerRewardRepository ? rewards.length : 0,
+    };
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.VOTING_PERIOD,
+          entityId: entry.votingPeriodId,
+          action: AuditAction.RESTORE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          metadata: { ...result },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * First step of a purge: issue a short-lived token the super admin must send back
+   */
+  async requestPurge(
+    entryId: string,
+    userContext: UserContext
+  ): Promise<{ entryId: string; confirmationToken: string; expiresAt: Date }> {
+    const entry = await this.requireEntry(entryId);
+
+    const confirmationToken = randomBytes(16).toString('hex');
+    const expiresAt = new Date(Date.now() + PURGE_CONFIRMATION_MINUTES * 60 * 1000);
+    await this.recycleBinRepository.update(entry.id, {
+      ...entry,
+      purgeConfirmation: {
+        tokenHash: this.hashToken(confirmationToken),
+        expiresAt,
+        requestedBy: userContext.userId,
+      },
+    });
+
+    return { entryId: entry.id, confirmationToken, expiresAt };
+  }
+
+  /**
+   * Permanently delete an entry. Requires the token from requestPurge.
+   */
+  async purge(entryId: string, confirmationToken: string, userContext: UserContext): Promise<void> {
+    const entry = await this.requireEntry(entryId);
+    const confirmation = entry.purgeConfirmation;
+    if (!confirmation || new Date(confirmation.expiresAt) <= new Date()) {
+      throw new Error('No valid purge confirmation for this entry; request a new token');
+    }
+    if (this.hashToken(confirmationToken) !== confirmation.tokenHash) {
+      throw new Error('Invalid confirmation token');
+    }
+
+    await this.recycleBinRepository.delete(entry.id);
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.VOTING_PERIOD,
+          entityId: entry.votingPeriodId,
+          action: AuditAction.PURGE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          metadata: {
+            entryId: entry.id,
+            status: entry.status,
+            archivedAt: entry.archivedAt,
+            nominations: entry.nominations.length,
+            winners: entry.winners.length,
+            votes: entry.votes.length,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+  }
+
+  private async requireEntry(entryId: string): Promise<RecycleBinEntry> {
+    const entry = await this.recycleBinRepository.findById(entryId);
+    if (!entry) {
+      throw new Error('Recycle bin entry not found');
+    }
+    return entry;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // Cosmos DB metadata (_rid, _etag, _ts...) can't be written back on restore
+  private withoutSystemProperties<T extends object>(document: T): T {
+    return Object.fromEntries(
+      Object.entries(document).filter(([key]) => !key.startsWith('_'))
+    ) as T;
+  }
+}
@@ -0,0 +1,204 @@
+import { Program } from '../../../common/models/Program';
+import { WinnerHistory } from '../../../common/models/WinnerHistory';
+import {
+  REWARD_STATUS_TRANSITIONS,
+  RewardStatus,
+  WinnerReward,
+} from '../../../common/models/WinnerReward';
+import { AuditService } from '../../../common/services/AuditService';
+import { AuditEntity, AuditAction, AuditChange } from '../../../common/models/AuditLog';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
+import { UpdateWinnerRewardDto } from '../dto/winner-reward.dto';
+import { WinnerRewardRepository } from '../repositories/WinnerRewardRepository';
+import { ProgramService } from '../../program/program.service';
+
+type UserContext = { userId: string; userName: string; userEmail?: string };
+
+export class RewardService {
+  constructor(
+    private winnerRewardRepository: WinnerRewardRepository,
+    private programService: ProgramService,
+    private auditService?: AuditService
+  ) {}
+
+  /**
+   * Give each winner the rewards its program's catalogue lists for its winner type. Winners of
+   * programs without a catalogue get nothing. Rewards a winner already has are left as they are,
+   * and one that can't be created doesn't stop the others.
+   */
+  async assignRewards(winners: WinnerHistory[]): Promise<WinnerReward[]> {
+    const programs = new Map<string, Program>();
+    const assigned: WinnerReward[] = [];
+
+    for (const winner of winners) {
+      const programId = ProgramHelper.resolveId(winner.programId);
+      let program = programs.get(programId);
+      if (!program) {
+        program = await this.programService.getProgram(programId);
+        programs.set(programId, program);
+      }
+
+      const definitions = (program.rewards || []).filter(
+        reward => reward.winnerType === winner.winnerType
+      );
+      for (const definition of definitions) {
+        const id = `reward-${winner.id}-${definition.id}`;
+        try {
+          if (await this.winnerRewardRepository.findById(id)) {
+            continue;
+          }
+          const assignedAt = new Date();
+          assigned.push(
+            await this.winnerRewardRepository.create({
+              id,
+              rewardId: definition.id,
+              name: definition.name,
+              ...(definition.description && { description: definition.description }),
+              programId,
+              votingPeriodId: winner.votingPeriodId,
+              year: winner.year,
+              month: winner.month,
+              winnerId: winner.id,
+              winnerType: winner.winnerType,
+              employeeId: winner.employeeId,
+              employeeName: winner.employeeName,
+              status: RewardStatus.PENDING,
+              ownerUserId: definition.ownerUserId,
+              ownerName: definition.ownerName,
+              ...(definition.ownerEmail && { ownerEmail: definition.ownerEmail }),
+              assignedAt,
+              updatedAt: assignedAt,
+            })
+          );
+        } catch (error) {
+          console.error(`Failed to assign reward ${id}:`, error);
+        }
+      }
+    }
+
+    return assigned;
+  }
+
+  /**
+   * Drop the rewards of a period nobody has acted on yet, e.g. before its winners are saved
+   * again. Only those of the given winner records when winnerIds is passed. Ordered, delivered
+   * and declined rewards are kept, since they record what actually happened.
+   */
+  async removePendingRewards(votingPeriodId: string, winnerIds?: string[]): Promise<number> {
+    const rewards = await this.winnerRewardRepository.findByVotingPeriod(votingPeriodId);
+    const pending = rewards.filter(
+      reward =>
+        reward.status === RewardStatus.PENDING &&
+        (!winnerIds || winnerIds.includes(reward.winnerId))
+    );
+    for (const reward of pending) {
+      await this.winnerRewardRepository.delete(reward.id);
+    }
+    return pending.length;
+  }
+
+  async getReward(rewardId: string): Promise<WinnerReward | null> {
+    return await this.winnerRewardRepository.findById(rewardId);
+  }
+
+  async getOutstandingRewards(
+    filters: { ownerUserId?: string; programId?: string } = {}
+  ): Promise<WinnerReward[]> {
+    return await this.winnerRewardRepository.findOutstanding(
+      filters.ownerUserId,
+      filters.programId
+    );
+  }
+
+  /**
+   * Record the fulfilment of a reward. Only admins can hand a reward over to another owner.
+   */
+  async updateReward(
+    rewardId: string,
+    dto: UpdateWinnerRewardDto,
+    userContext: UserContext,
+    isAdmin: boolean
+  ): Promise<WinnerReward> {
+    const reward = await this.winnerRewardRepository.findById(rewardId);
+    if (!reward) {
+      throw new Error('Reward not found');
+    }
+
+    const now = new Date();
+    const changes: AuditChange[] = [];
+    const updated: WinnerReward = { ...reward };
+
+    if (dto.status !== undefined && dto.status !== reward.status) {
+      if (!(Object.values(RewardStatus) as string[]).includes(dto.status)) {
+        throw new Error(`status must be one of ${Object.values(RewardStatus).join(', ')}`);
+      }
+      if (!REWARD_STATUS_TRANSITIONS[reward.status].includes(dto.status)) {
+        throw new Error(`A ${reward.status} reward cannot be marked as ${dto.status}`);
+      }
+      changes.push({ field: 'status', oldValue: reward.status, newValue: dto.status });
+      updated.status = dto.status;
+      if (dto.status === RewardStatus.ORDERED) {
+        updated.orderedAt = now;
+      } else if (dto.status === RewardStatus.DELIVERED) {
+        updated.deliveredAt = now;
+      } else if (dto.status === RewardStatus.DECLINED) {
+        updated.declinedAt = now;
+      }
+    }
+
+    if (dto.ownerUserId !== undefined && dto.ownerUserId !== reward.ownerUserId) {
+      if (!isAdmin) {
+        throw new Error('Only an admin can hand a reward over to another owner');
+      }
+      if (!dto.ownerName) {
+        throw new Error('ownerName is required when the owner changes');
+      }
+      changes.push({
+        field: 'ownerUserId',
+        oldValue: reward.ownerUserId,
+        newValue: dto.ownerUserId,
+      });
+      updated.ownerUserId = dto.ownerUserId;
+      updated.ownerName = dto.ownerName;
+      updated.ownerEmail = dto.ownerEmail || undefined;
+    }
+
+    if (dto.notes !== undefined && dto.notes !== reward.notes) {
+      changes.push({ field: 'notes', oldValue: reward.notes, newValue: dto.notes });
+      updated.notes = dto.notes || undefined;
+    }
+
+    if (changes.length === 0) {
+      return reward;
+    }
+
+    updated.updatedAt = now;
+    updated.updatedBy = userContext.userId;
+    updated.updatedByName = userContext.userName;
+    const result = await this.winnerRewardRepository.update(rewardId, updated);
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.REWARD,
+          entityId: rewardId,
+          action: updated.status !== reward.status ? AuditAction.STATUS_CHANGE : AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes,
+          metadata: {
+            votingPeriodId: reward.votingPeriodId,
+            winnerId: reward.winnerId,
+            employeeId: reward.employeeId,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+}
@@ -1,32 +1,66 @@
 import { CreateNominationDto, Criteria } from '../dto/create-nomination.dto';
 import { Employee } from '../../employee/models/employee.model';
+import { NominationStatus } from '../../../common/models/Nomination';
+import { VotingPeriod } from '../../../common/models/VotingPeriod';
 import { NominationRepository } from '../repositories/NominationRepository';
 import { EmployeeRepository } from '../../employee/repositories/EmployeeRepository';
+import { ConfigurationService } from '../../configuration/configuration.service';
+import {
+  DEFAULT_NOMINATION_POLICY_CONFIG,
+  NominationPolicyRules,
+} from '../../configuration/models/nomination-policy-config.model';
+import {
+  CriterionDefinition,
+  DEFAULT_CRITERIA,
+} from '../../configuration/models/criteria-config.model';
+import { EligibilityHelper } from '../../../common/utils/EligibilityHelper';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
+import { PeriodMember } from '../../../common/models/PeriodMembership';
+import { MembershipService } from './MembershipService';
 
 export class ValidationService {
   private nominationRepository: NominationRepository;
   private employeeRepository: EmployeeRepository;
+  private configurationService?: ConfigurationService;
+  private membershipService?: MembershipService;
 
-  constructor(nominationRepository: NominationRepository, employeeRepository: EmployeeRepository) {
+  constructor(
+    nominationRepository: NominationRepository,
+    employeeRepository: EmployeeRepository,
+    configurationService?: ConfigurationService,
+    membershipService?: MembershipService
+  ) {
     this.nominationRepository = nominationRepository;
     this.employeeRepository = employeeRepository;
+    this.configurationService = configurationService;
+    this.membershipService = membershipService;
   }
 
   async validateNomination(
     nominationData: CreateNominationDto,
-    votingPeriodId: string
+    votingPeriod: VotingPeriod
   ): Promise<void> {
-    await this.validateEmployee(nominationData.nominatedEmployeeId);
+    await this.validateEmployee(nominationData.nominatedEmployeeId, votingPeriod.id);
     if (nominationData.nominatorUserName) {
-      await this.validateNominator(nominationData.nominatorUserName);
+      await this.validateNominator(nominationData.nominatorUserName, votingPeriod.id);
     }
     await this.validateNominationReason(nominationData.reason);
-    this.validateCriteria(nominationData.criteria);
-    await this.validateDuplicateNomination(nominationData, votingPeriodId);
+    // Periods created before the criteria catalog existed use the original six criteria
+    this.validateCriteria(nominationData.criteria, votingPeriod.criteria ?? DEFAULT_CRITERIA);
+    await this.validateNominationQuota(nominationData, votingPeriod);
     await this.validateSelfNomination(nominationData);
+    await this.validateSameVotingGroup(
+      nominationData,
+      votingPeriod.id,
+      ProgramHelper.resolveId(votingPeriod.programId)
+    );
   }
 
-  async validateEmployee(employeeId: string): Promise<void> {
+  /**
+   * The nominee must be an active employee. Within a period, they must also have been eligible
+   * when the period opened.
+   */
+  async validateEmployee(employeeId: string, votingPeriodId?: string): Promise<void> {
     const employee = await this.employeeRepository.findById(employeeId);
     if (!employee) {
       throw new Error('Employee not found');
@@ -34,10 +68,16 @@ export class ValidationService {
     if (!employee.isActive) {
       throw new Error('Cannot nominate inactive employee');
     }
+    const members = await this.getPeriodMembers(votingPeriodId);
+    if (members && !members.get(employee.id)?.votingEligible) {
+      throw new Error('This employee is not eligible in this voting period');
+    }
   }
 
-  private async validateNominator(nominatorUserName: string): Promise<void> {
-    // validate nominator and nominated are on the same votingGroup
+  private async validateNominator(
+    nominatorUserName: string,
+    votingPeriodId?: string
+  ): Promise<void> {
     // Skip nominator validation when SKIP_AUTH is enabled (for development)
     if (process.env.SKIP_AUTH === 'true') {
       return; // Allow any email in development
@@ -50,6 +90,11 @@ export class ValidationService {
     if (!nominator.isActive) {
       throw new Error('Inactive employees cannot make nominations');
     }
+    // Eligibility as captured when the period opened
+    const members = await this.getPeriodMembers(votingPeriodId);
+    if (members && !members.get(nominator.id)?.votingEligible) {
+      throw new Error('You are not eligible to nominate in this voting period');
+    }
   }
 
   async validateNominationReason(reason: string): Promise<void> {
@@ -64,55 +109,182 @@ export class ValidationService {
     }
   }
 
-  validateCriteria(criteria: Criteria): void {
+  validateCriteria(
+    criteria: Criteria,
+    definitions: CriterionDefinition[] = DEFAULT_CRITERIA
+  ): void {
     if (!criteria) {
       throw new Error('Criteria scoring is required');
     }
 
-    const requiredFields = [
-      'communication',
-      'innovation',
-      'leadership',
-      'problemSolving',
-      'reliability',
-      'teamwork',
-    ];
-    const scores = [
-      criteria.communication,
-      criteria.innovation,
-      criteria.leadership,
-      criteria.problemSolving,
-      criteria.reliability,
-      criteria.teamwork,
-    ];
-
-    for (let i = 0; i < requiredFields.length; i++) {
-      const field = requiredFields[i];
-      const score = scores[i];
+    const knownKeys = new Set(definitions.map(d => d.key));
+    const unknownKey = Object.keys(criteria).find(key => !knownKeys.has(key));
+    if (unknownKey) {
+      throw new Error(`${unknownKey} is not a criterion of this voting period`);
+    }
+
+    for (const definition of definitions) {
+      const score = criteria[definition.key];
 
       if (score === undefined || score === null) {
-        throw new Error(`${field} score is required`);
+        if (definition.required) {
+          throw new Error(`${definition.key} score is required`);
+        }
+        continue;
       }
-      if (!Number.isInteger(score) || score < 1 || score > 5) {
-        throw new Error(`${field} score must be an integer between 1 and 5`);
+      if (!Number.isInteger(score) || score < definition.min || score > definition.max) {
+        throw new Error(
+          `${definition.key} score must be an integer between ${definition.min} and ${definition.max}`
+        );
       }
     }
   }
 
-  private async validateDuplicateNomination(
+  /**
+   * Enforce the same-voting-group rule of the program. Only 'strict' rejects; 'warn' nominations
+   * are flagged when they are created.
+   */
+  async validateSameVotingGroup(
     nominationData: CreateNominationDto,
-    votingPeriodId: string
+    votingPeriodId?: string,
+    programId?: string
+  ): Promise<void> {
+    if (!nominationData.nominatorUserName || !this.configurationService) {
+      return;
+    }
+
+    const config = await this.configurationService.getNominationPolicyConfig(programId);
+    if (config.sameVotingGroupRule !== 'strict') {
+      return;
+    }
+
+    const mismatch = await this.getVotingGroupMismatch(
+      nominationData.nominatorUserName,
+      nominationData.nominatedEmployeeId,
+      votingPeriodId
+    );
+    if (mismatch) {
+      throw new Error(
+        `You can only nominate employees in your voting group (${mismatch.nominatorVotingGroup}); the nominated employee belongs to ${mismatch.nomineeVotingGroup}`
+      );
+    }
+  }
+
+  /**
+   * Compare the voting groups of nominator and nominee. Returns null when they match or when
+   * either side has no voting group assigned. With a period, the groups captured when it opened
+   * are used.
+   */
+  async getVotingGroupMismatch(
+    nominatorUserName: string,
+    nominatedEmployeeId: string,
+    votingPeriodId?: string
+  ): Promise<{ nominatorVotingGroup: string; nomineeVotingGroup: string } | null> {
+    const [nominator, nominee, members] = await Promise.all([
+      this.employeeRepository.findByUsername(nominatorUserName),
+      this.employeeRepository.findById(nominatedEmployeeId),
+      this.getPeriodMembers(votingPeriodId),
+    ]);
+
+    const nominatorVotingGroup = MembershipService.getVotingGroup(nominator, members);
+    const nomineeVotingGroup = MembershipService.getVotingGroup(nominee, members);
+    if (!nominatorVotingGroup || !nomineeVotingGroup) {
+      return null;
+    }
+    if (nominatorVotingGroup === nomineeVotingGroup) {
+      return null;
+    }
+
+    return { nominatorVotingGroup, nomineeVotingGroup };
+  }
+
+  private async validateNominationQuota(
+    nominationData: CreateNominationDto,
+    votingPeriod: VotingPeriod
   ): Promise<void> {
     if (!nominationData.nominatorUserName) {
       return;
     }
-    const existingNomination = await this.nominationRepository.findByNominatorAndPeriod(
+
+    const policy = await this.getNominatorPolicy(
+      nominationData.nominatorUserName,
+      votingPeriod.id,
+      ProgramHelper.resolveId(votingPeriod.programId)
+    );
+
+    const existingNominations = await this.nominationRepository.findAllByNominatorAndPeriod(
       nominationData.nominatorUserName,
+      votingPeriod.id
+    );
+    // Rejected nominations don't count, so the nominator can submit a new one
+    const activeNominations = existingNominations.filter(
+      n => n.status !== NominationStatus.REJECTED
+    );
+
+    if (activeNominations.length >= policy.maxNominationsPerNominator) {
+      throw new Error(
+        policy.maxNominationsPerNominator === 1
+          ? 'You can only make one nomination per voting period'
+          : `You can only make ${policy.maxNominationsPerNominator} nominations per voting period`
+      );
+    }
+
+    if (
+      policy.forbidDuplicateNominee &&
+      activeNominations.some(n => n.nominatedEmployeeId === nominationData.nominatedEmployeeId)
+    ) {
+      throw new Error('You have already nominated this employee in the current voting period');
+    }
+  }
+
+  /**
+   * Ensure a nominator doesn't point an existing nomination at someone they already nominated
+   */
+  async validateDuplicateNominee(
+    nominatorUserName: string,
+    nominatedEmployeeId: string,
+    votingPeriodId: string,
+    excludeNominationId?: string,
+    programId?: string
+  ): Promise<void> {
+    const policy = await this.getNominatorPolicy(nominatorUserName, votingPeriodId, programId);
+
+    if (!policy.forbidDuplicateNominee) {
+      return;
+    }
+
+    const existingNominations = await this.nominationRepository.findAllByNominatorAndPeriod(
+      nominatorUserName,
       votingPeriodId
     );
-    if (existingNomination) {
-      throw new Error('You can only make one nomination per voting period');
+    const duplicate = existingNominations.some(
+      n =>
+        n.id !== excludeNominationId &&
+        n.status !== NominationStatus.REJECTED &&
+        n.nominatedEmployeeId === nominatedEmployeeId
+    );
+    if (duplicate) {
+      throw new Error('You have already nominated this employee in the current voting period');
+    }
+  }
+
+  private async getNominatorPolicy(
+    nominatorUserName: string,
+    votingPeriodId: string,
+    programId?: string
+  ): Promise<NominationPolicyRules> {
+    if (!this.configurationService) {
+      return DEFAULT_NOMINATION_POLICY_CONFIG;
     }
+    // Overrides are keyed on the nominator's voting group
+    const [nominator, members] = await Promise.all([
+      this.employeeRepository.findByUsername(nominatorUserName),
+      this.getPeriodMembers(votingPeriodId),
+    ]);
+    return this.configurationService.getNominationPolicyForGroup(
+      MembershipService.getVotingGroup(nominator, members),
+      programId
+    );
   }
 
   async validateSelfNomination(nominationData: CreateNominationDto): Promise<void> {
@@ -127,6 +299,72 @@ export class ValidationService {
     }
   }
 
+  /**
+   * Voters must be eligible employees in the same voting group as the nominee they vote for
+   */
+  async validateVoter(
+    voterUserName: string,
+    nominatedEmployeeId: string,
+    votingPeriodId?: string,
+    programId?: string
+  ): Promise<void> {
+    // Skip voter validation when SKIP_AUTH is enabled (for development)
+    if (process.env.SKIP_AUTH === 'true') {
+      return;
+    }
+
+    const [voter, nominee, members] = await Promise.all([
+      this.validateBallotVoter(voterUserName, votingPeriodId, programId),
+      this.employeeRepository.findById(nominatedEmployeeId),
+      this.getPeriodMembers(votingPeriodId),
+    ]);
+    if (nominee?.username === voterUserName) {
+      throw new Error('You cannot vote for yourself');
+    }
+    if (
+      MembershipService.getVotingGroup(voter, members) !==
+      MembershipService.getVotingGroup(nominee, members)
+    ) {
+      throw new Error('You can only vote for nominees in your voting group');
+    }
+  }
+
+  /**
+   * Anyone casting a ballot must be an active, voting-eligible employee. Within a period,
+   * eligibility is the one captured when the period opened; otherwise the program's rules apply.
+   */
+  async validateBallotVoter(
+    voterUserName: string,
+    votingPeriodId?: string,
+    programId?: string
+  ): Promise<Employee> {
+    const voter = await this.employeeRepository.findByUsername(voterUserName);
+    if (!voter || !voter.isActive) {
+      throw new Error('Voter must be an active employee');
+    }
+    const members = await this.getPeriodMembers(votingPeriodId);
+    if (members) {
+      if (!members.get(voter.id)?.votingEligible) {
+        throw new Error('You are not eligible to vote');
+      }
+    } else if (this.configurationService) {
+      const eligibilityConfig = await this.configurationService.getEligibilityConfig(programId);
+      if (!EligibilityHelper.isVotingEligible(voter, eligibilityConfig)) {
+        throw new Error('You are not eligible to vote');
+      }
+    }
+    return voter;
+  }
+
+  private async getPeriodMembers(
+    votingPeriodId?: string
+  ): Promise<Map<string, PeriodMember> | null> {
+    if (!votingPeriodId || !this.membershipService) {
+      return null;
+    }
+    return this.membershipService.getMembers(votingPeriodId);
+  }
+
   private isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
@@ -0,0 +1,180 @@
+import { VotingPeriod, VotingPeriodStatus } from '../../../common/models/VotingPeriod';
+import { LifecycleAction, LifecyclePlan } from '../../../common/models/Lifecycle';
+import { AuditService } from '../../../common/services/AuditService';
+import { AuditEntity, AuditAction } from '../../../common/models/AuditLog';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
+import { VotingPeriodRepository } from '../repositories/VotingPeriodRepository';
+import { ConfigurationService } from '../../configuration/configuration.service';
+import { VotingService } from './VotingService';
+import { VOTING_LIFECYCLE_SCHEDULE } from '../../../config/env.config';
+
+// Audit entries written by the scheduled job use this user
+export const SYSTEM_USER_CONTEXT = { userId: 'system', userName: 'System (lifecycle job)' };
+
+export class VotingLifecycleService {
+  constructor(
+    private votingPeriodRepository: VotingPeriodRepository,
+    private votingService: VotingService,
+    private configurationService: ConfigurationService,
+    private auditService?: AuditService
+  ) {}
+
+  /**
+   * Work out what the next tick would do, without changing anything
+   */
+  async planTick(): Promise<LifecyclePlan> {
+    const config = await this.configurationService.getLifecycleConfig();
+    const now = new Date();
+    const actions: LifecycleAction[] = [];
+    const closing = new Set<string>();
+
+    if (config.closeExpiredPeriods) {
+      const expiredPeriods = await this.votingPeriodRepository.findExpiredActivePeriods();
+      for (const period of expiredPeriods) {
+        actions.push(
+          this.createAction('close', period, `endDate ${this.formatDate(period.endDate)} passed`)
+        );
+        closing.add(period.id);
+
+        if (config.selectWinnersOnClose) {
+          actions.push(
+            this.createAction('select_winner', period, 'selectWinnersOnClose is enabled')
+          );
+        }
+      }
+    }
+
+    if (config.activatePendingPeriods) {
+      // Each program has one active period at a time, so one that keeps running holds the
+      // program's next period back
+      const duePeriods = await this.votingPeriodRepository.findPendingPeriodsDueToStart(now);
+      const programsSeen = new Set<string>();
+
+      for (const nextPeriod of duePeriods) {
+        const programId = ProgramHelper.resolveId(nextPeriod.programId);
+        if (programsSeen.has(programId)) {
+          continue;
+        }
+        // Pending again after its winner was selected, not a period still to start
+        if (await this.votingService.hasGeneralWinner(nextPeriod.id)) {
+          continue;
+        }
+        programsSeen.add(programId);
+
+        const activePeriod = await this.votingPeriodRepository.findActiveVotingPeriod(programId);
+        if (!activePeriod || closing.has(activePeriod.id)) {
+          actions.push(
+            this.createAction(
+              'activate',
+              nextPeriod,
+              `startDate ${this.formatDate(nextPeriod.startDate)} reached`
+            )
+          );
+        }
+      }
+    }
+
+    return { evaluatedAt: now, schedule: VOTING_LIFECYCLE_SCHEDULE, config, actions };
+  }
+
+  /**
+   * Run one tick of the lifecycle job. Closing happens before activation so the next
+   * period can open in the same tick the previous one ends.
+   */
+  async runTick(): Promise<LifecyclePlan> {
+    const plan = await this.planTick();
+    if (!plan.config.enabled) {
+      return plan;
+    }
+
+    const failedCloses = new Set<string>();
+
+    for (const action of plan.actions) {
+      if (action.type === 'select_winner' && failedCloses.has(action.votingPeriodId)) {
+        action.status = 'skipped';
+        action.error = 'The voting period could not be closed';
+        continue;
+      }
+
+      try {
+        switch (action.type) {
+          case 'close':
+            await this.votingService.closeVotingPeriod(action.votingPeriodId, SYSTEM_USER_CONTEXT);
+            break;
+          case 'select_winner': {
+            const winner = await this.votingService.selectGeneralWinner(action.votingPeriodId, {
+              userContext: SYSTEM_USER_CONTEXT,
+            });
+            await this.logWinnerSelection(action, winner.employeeId);
+            break;
+          }
+          case 'activate':
+            await this.votingService.activateVotingPeriod(
+              action.votingPeriodId,
+              SYSTEM_USER_CONTEXT
+            );
+            break;
+        }
+        action.status = 'done';
+      } catch (error) {
+        action.status = 'failed';
+        action.error = error instanceof Error ? error.message : 'Unknown error occurred';
+        if (action.type === 'close') {
+          failedCloses.add(action.votingPeriodId);
+        }
+        console.error(`Lifecycle ${action.type} failed for ${action.votingPeriodId}:`, error);
+      }
+    }
+
+    return plan;
+  }
+
+  private createAction(
+    type: LifecycleAction['type'],
+    period: VotingPeriod,
+    reason: string
+  ): LifecycleAction {
+    return {
+      type,
+      votingPeriodId: period.id,
+      programId: ProgramHelper.resolveId(period.programId),
+      year: period.year,
+      month: period.month,
+      reason,
+    };
+  }
+
+  private async logWinnerSelection(action: LifecycleAction, employeeId: string): Promise<void> {
+    if (!this.auditService) {
+      return;
+    }
+    try {
+      await this.auditService.log({
+        entityType: AuditEntity.VOTING_PERIOD,
+        entityId: action.votingPeriodId,
+        action: AuditAction.STATUS_CHANGE,
+        userId: SYSTEM_USER_CONTEXT.userId,
+        userName: SYSTEM_USER_CONTEXT.userName,
+        // Selecting the winner moves the closed period to pending
+        changes: [
+          {
+            field: 'status',
+            oldValue: VotingPeriodStatus.CLOSED,
+            newValue: VotingPeriodStatus.PENDING,
+          },
+        ],
+        metadata: {
+          year: action.year,
+          month: action.month,
+          generalWinnerEmployeeId: employeeId,
+        },
+      });
+    } catch (error) {
+      console.error('Failed to log audit:', error);
+    }
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toISOString();
+  }
+}
@@ -1,22 +1,88 @@
-import { Nomination, NominationWithEmployee } from '../../../common/models/Nomination';
+import {
+  CrossGroupNomination,
+  Nomination,
+  NominationStatus,
+  NominationWithEmployee,
+} from '../../../common/models/Nomination';
 import { CreateNominationDto, Criteria } from '../dto/create-nomination.dto';
 import { UpdateNominationDto } from '../dto/update-nomination.dto';
 import { UpdateVotingPeriodDto } from '../dto/update-voting-period.dto';
-import { VotingPeriod, VotingPeriodStatus } from '../../../common/models/VotingPeriod';
+import { VotingPhaseDto } from '../dto/create-voting-period.dto';
+import { CastVoteDto } from '../dto/cast-vote.dto';
+import { GenerateVotingPeriodsDto } from '../dto/generate-voting-periods.dto';
+import { ExtendVotingPeriodDto, ReopenVotingPeriodDto } from '../dto/adjust-voting-period.dto';
+import { DisqualifyWinnerDto } from '../dto/disqualify-winner.dto';
+import {
+  PeriodAdjustment,
+  VotingPeriod,
+  VotingPeriodStatus,
+} from '../../../common/models/VotingPeriod';
+import { JudgingRound } from '../../../common/models/Judging';
+import {
+  DEFAULT_SHORTLIST_SIZE,
+  ShortlistedNominee,
+  Vote,
+  VotingPhase,
+} from '../../../common/models/Vote';
 import {
   VoteResult,
   VotingPeriodResults,
+  WinnerCooldownSkip,
   WinnersContainer,
 } from '../../../common/models/VoteResult';
-import { WinnerHistory, WinnerType, Reaction } from '../../../common/models/WinnerHistory';
+import {
+  DrawVerification,
+  WinnerDisqualificationResult,
+  WinnerDraw,
+  WinnerHistory,
+  WinnerType,
+  Reaction,
+} from '../../../common/models/WinnerHistory';
+import {
+  ResultsDrift,
+  ResultsDriftChange,
+  ResultsSnapshot,
+  ResultsSnapshotTrigger,
+} from '../../../common/models/ResultsSnapshot';
+import { PeriodMember } from '../../../common/models/PeriodMembership';
+import { DEFAULT_PROGRAM_ID } from '../../../common/models/Program';
 import { NominationRepository } from '../repositories/NominationRepository';
 import { VotingPeriodRepository } from '../repositories/VotingPeriodRepository';
 import { WinnerHistoryRepository } from '../repositories/WinnerHistoryRepository';
+import { VoteRepository } from '../repositories/VoteRepository';
+import { ResultsSnapshotRepository } from '../repositories/ResultsSnapshotRepository';
+import { DrawSeedRepository } from '../repositories/DrawSeedRepository';
+import { JudgeScoreRepository } from '../repositories/JudgeScoreRepository';
 import { AzureEmployeeService } from '../../../common/AzureEmployeeService';
 import { ValidationService } from './ValidationService';
+import { MembershipService } from './MembershipService';
+import { RecycleBinService } from './RecycleBinService';
+import { RewardService } from './RewardService';
 import { NotificationService } from './NotificationService';
 import { EmployeeService } from '../../employee/employee.service';
 import { ConfigurationService } from '../../configuration/configuration.service';
+import {
+  CriterionDefinition,
+  DEFAULT_CRITERIA,
+} from '../../configuration/models/criteria-config.model';
+import { DEFAULT_RANKING_POLICY_CONFIG } from '../../configuration/models/ranking-policy-config.model';
+import {
+  DEFAULT_WINNER_SELECTION_CONFIG,
+  GENERAL_WINNER_STRATEGIES,
+  GeneralWinnerStrategy,
+} from '../../configuration/models/winner-selection-config.model';
+import { RankingCandidate, RankingHelper } from '../../../common/utils/RankingHelper';
+import { DrawHelper } from '../../../common/utils/DrawHelper';
+import { PeriodTemplateHelper } from '../../../common/utils/PeriodTemplateHelper';
+import { CalendarHelper } from '../../../common/utils/CalendarHelper';
+import { DEFAULT_CALENDAR_CONFIG } from '../../configuration/models/calendar-config.model';
+import {
+  PeriodConsistencyHelper,
+  PeriodConsistencyReport,
+} from '../../../common/utils/PeriodConsistencyHelper';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
+import { SnapshotHelper } from '../../../common/utils/SnapshotHelper';
+import { ProgramService } from '../../program/program.service';
 import { AuditService } from '../../../common/services/AuditService';
 import { AuditEntity, AuditAction } from '../../../common/models/AuditLog';
 import {
@@ -26,6 +92,21 @@ import {
   calculatePaginationMeta,
 } from '../../../common/models/Pagination';
 
+const MAX_GENERATED_PERIODS = 24;
+
+// Per-employee fields compared between a results snapshot and a recompute
+const DRIFT_FIELDS: (keyof VoteResult)[] = [
+  'employeeName',
+  'department',
+  'position',
+  'votingGroup',
+  'nominationCount',
+  'percentage',
+  'rank',
+  'compositeScore',
+  'finalVotes',
+];
+
 export class VotingService {
   private nominationRepository: NominationRepository;
   private votingPeriodRepository: VotingPeriodRepository;
@@ -35,6 +116,14 @@ export class VotingService {
   private employeeService: EmployeeService;
   private configurationService?: ConfigurationService;
   private auditService?: AuditService;
+  private voteRepository?: VoteRepository;
+  private programService?: ProgramService;
+  private resultsSnapshotRepository?: ResultsSnapshotRepository;
+  private membershipService?: MembershipService;
+  private recycleBinService?: RecycleBinService;
+  private rewardService?: RewardService;
+  private drawSeedRepository?: DrawSeedRepository;
+  private judgeScoreRepository?: JudgeScoreRepository;
 
   constructor(
     nominationRepository: NominationRepository,
@@ -45,7 +134,15 @@ export class VotingService {
     notificationService: NotificationService,
     employeeService: EmployeeService,
     configurationService?: ConfigurationService,
-    auditService?: AuditService
+    auditService?: AuditService,
+    voteRepository?: VoteRepository,
+    programService?: ProgramService,
+    resultsSnapshotRepository?: ResultsSnapshotRepository,
+    membershipService?: MembershipService,
+    recycleBinService?: RecycleBinService,
+    rewardService?: RewardService,
+    drawSeedRepository?: DrawSeedRepository,
+    judgeScoreRepository?: JudgeScoreRepository
   ) {
     this.nominationRepository = nominationRepository;
     this.votingPeriodRepository = votingPeriodRepository;
@@ -55,19 +152,51 @@ export class VotingService {
     this.employeeService = employeeService;
     this.configurationService = configurationService;
     this.auditService = auditService;
+    this.voteRepository = voteRepository;
+    this.programService = programService;
+    this.resultsSnapshotRepository = resultsSnapshotRepository;
+    this.membershipService = membershipService;
+    this.recycleBinService = recycleBinService;
+    this.rewardService = rewardService;
+    this.drawSeedRepository = drawSeedRepository;
+    this.judgeScoreRepository = judgeScoreRepository;
   }
 
   async createNomination(nominationData: CreateNominationDto): Promise<Nomination> {
-    const currentPeriod = await this.getCurrentVotingPeriod();
+    const currentPeriod = await this.getCurrentVotingPeriod(nominationData.programId);
     if (!currentPeriod) {
       throw new Error('No active voting period found');
     }
 
+    if (this.hasVotingPhaseStarted(currentPeriod)) {
+      throw new Error('Nominations are closed, the voting phase has started');
+    }
+
     if (!nominationData.nominatorUserName || !nominationData.nominatorUserId) {
       throw new Error('Nominator information is required');
     }
 
-    await this.validationService.validateNomination(nominationData, currentPeriod.id);
+    await this.validationService.validateNomination(nominationData, currentPeriod);
+
+    const nominatedEmployee = await this.employeeService.getEmployeeById(
+      nominationData.nominatedEmployeeId
+    );
+
+    // Nominations wait in the moderation queue unless moderation is off for the nominee's group
+    const members = await this.getPeriodMembers(currentPeriod.id);
+    const requiresModeration = this.configurationService
+      ? await this.configurationService.requiresModeration(
+          MembershipService.getVotingGroup(nominatedEmployee, members),
+          ProgramHelper.resolveId(currentPeriod.programId)
+        )
+      : false;
+
+    // In 'warn' mode cross-group nominations are accepted but flagged for admins
+    const crossVotingGroup = !!(await this.validationService.getVotingGroupMismatch(
+      nominationData.nominatorUserName,
+      nominationData.nominatedEmployeeId,
+      currentPeriod.id
+    ));
 
     const nomination: Nomination = {
       id: this.generateId(),
@@ -77,16 +206,15 @@ export class VotingService {
       reason: nominationData.reason,
       criteria: nominationData.criteria,
       votingPeriodId: currentPeriod.id,
+      programId: ProgramHelper.resolveId(currentPeriod.programId),
+      status: requiresModeration ? NominationStatus.PENDING : NominationStatus.APPROVED,
+      crossVotingGroup,
       createdAt: new Date(),
     };
 
     const createdNomination = await this.nominationRepository.create(nomination);
 
     try {
-      const nominatedEmployee = await this.employeeService.getEmployeeById(
-        nominationData.nominatedEmployeeId
-      );
-
       if (nominatedEmployee) {
         await this.notificationService.sendNominationNotification(
           nominationData.nominatorUserName,
@@ -103,12 +231,17 @@ export class VotingService {
     return createdNomination;
   }
 
-  async getCurrentVotingPeriod(): Promise<VotingPeriod | null> {
-    return await this.votingPeriodRepository.findActiveVotingPeriod();
+  /**
+   * Active period of a program, the default program when no programId is given
+   */
+  async getCurrentVotingPeriod(programId?: string): Promise<VotingPeriod | null> {
+    return await this.votingPeriodRepository.findActiveVotingPeriod(
+      ProgramHelper.resolveId(programId)
+    );
   }
 
-  async getNominationsForCurrentPeriod(): Promise<NominationWithEmployee[]> {
-    const currentPeriod = await this.getCurrentVotingPeriod();
+  async getNominationsForCurrentPeriod(programId?: string): Promise<NominationWithEmployee[]> {
+    const currentPeriod = await this.getCurrentVotingPeriod(programId);
     if (!currentPeriod) {
       return [];
     }
@@ -154,9 +287,10 @@ export class VotingService {
    * @returns Paginated response with nominations and metadata
    */
   async getNominationsForCurrentPeriodPaginated(
-    pagination: PaginationParams = {}
+    pagination: PaginationParams = {},
+    programId?: string
   ): Promise<PaginatedResponse<NominationWithEmployee>> {
-    const currentPeriod = await this.getCurrentVotingPeriod();
+    const currentPeriod = await this.getCurrentVotingPeriod(programId);
     if (!currentPeriod) {
       return {
         data: [],
@@ -204,21 +338,204 @@ export class VotingService {
     };
   }
 
-  async getAllVotingPeriods(): Promise<VotingPeriod[]> {
-    return await this.votingPeriodRepository.findRecentPeriods();
+  async getAllVotingPeriods(programId?: string): Promise<VotingPeriod[]> {
+    return await this.votingPeriodRepository.findRecentPeriods(
+      undefined,
+      ProgramHelper.resolveId(programId)
+    );
   }
 
   async getVotingPeriodById(votingPeriodId: string): Promise<VotingPeriod | null> {
     return await this.votingPeriodRepository.findById(votingPeriodId);
   }
 
+  /**
+   * Results as seen by a viewer. Until an admin publishes them, only viewers allowed to see
+   * unpublished results get them.
+   */
+  async getVisibleVotingResults(
+    votingPeriodId: string,
+    includeUnpublished: boolean
+  ): Promise<VotingPeriodResults> {
+    if (!includeUnpublished) {
+      const votingPeriod = await this.votingPeriodRepository.findById(votingPeriodId);
+      if (!votingPeriod) {
+        throw new Error('Voting period not found');
+      }
+      if (!votingPeriod.publishedAt) {
+        throw new Error('The results of this voting period have not been published yet');
+      }
+    }
+
+    return this.getVotingResults(votingPeriodId);
+  }
+
+  /**
+   * Results of a period. Once a period is no longer active, the results come from its latest
+   * snapshot so later edits to nominations or employees don't change them.
+   */
   async getVotingResults(votingPeriodId: string): Promise<VotingPeriodResults> {
     const votingPeriod = await this.votingPeriodRepository.findById(votingPeriodId);
     if (!votingPeriod) {
       throw new Error('Voting period not found');
     }
 
-    const nominations = await this.nominationRepository.findByVotingPeriod(votingPeriodId);
+    if (votingPeriod.status !== VotingPeriodStatus.ACTIVE && this.resultsSnapshotRepository) {
+      const snapshot =
+        await this.resultsSnapshotRepository.findLatestByVotingPeriod(votingPeriodId);
+      if (snapshot) {
+        return snapshot.results;
+      }
+    }
+
+    return this.computeVotingResults(votingPeriod);
+  }
+
+  /**
+   * Latest results snapshot of a period
+   */
+  async getResultsSnapshot(votingPeriodId: string): Promise<ResultsSnapshot> {
+    const snapshot = this.resultsSnapshotRepository
+      ? await this.resultsSnapshotRepository.findLatestByVotingPeriod(votingPeriodId)
+      : null;
+    if (!snapshot) {
+      throw new Error('No results snapshot found for this voting period');
+    }
+    return snapshot;
+  }
+
+  /**
+   * Compare the latest snapshot with results recomputed from the current data, and check the
+   * snapshot still matches its hash
+   */
+  async compareResultsSnapshot(votingPeriodId: string): Promise<ResultsDrift> {
+    const votingPeriod = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!votingPeriod) {
+      throw new Error('Voting period not found');
+    }
+    const snapshot = await this.getResultsSnapshot(votingPeriodId);
+    const current = await this.computeVotingResults(votingPeriod);
+
+    const snapshotResults = new Map(snapshot.results.results.map(r => [r.employeeId, r]));
+    const currentResults = new Map(current.results.map(r => [r.employeeId, r]));
+
+    const changes: ResultsDriftChange[] = [];
+    for (const [employeeId, before] of snapshotResults) {
+      const after = currentResults.get(employeeId);
+      if (!after) {
+        continue;
+      }
+      for (const field of DRIFT_FIELDS) {
+        if (
+          SnapshotHelper.canonicalize(before[field]) !== SnapshotHelper.canonicalize(after[field])
+        ) {
+          changes.push({
+            employeeId,
+            employeeName: after.employeeName,
+            field,
+            snapshotValue: before[field],
+            currentValue: after[field],
+          });
+        }
+      }
+    }
+
+    const addedEmployeeIds = [...currentResults.keys()].filter(id => !snapshotResults.has(id));
+    const removedEmployeeIds = [...snapshotResults.keys()].filter(id => !currentResults.has(id));
+    const winnerIds = (results: VotingPeriodResults) =>
+      (results.winners || []).map(w => w.employeeId).sort();
+    const winnersChanged = winnerIds(snapshot.results).join(',') !== winnerIds(current).join(',');
+    const totalNominations = {
+      snapshot: snapshot.results.totalNominations,
+      current: current.totalNominations,
+    };
+
+    return {
+      votingPeriodId,
+      snapshotId: snapshot.id,
+      snapshotTakenAt: snapshot.takenAt,
+      contentHash: snapshot.contentHash,
+      hashVerified: SnapshotHelper.hash(snapshot.results) === snapshot.contentHash,
+      currentHash: SnapshotHelper.hash(current),
+      hasDrift:
+        changes.length > 0 ||
+        addedEmployeeIds.length > 0 ||
+        removedEmployeeIds.length > 0 ||
+        winnersChanged ||
+        totalNominations.snapshot !== totalNominations.current,
+      totalNominations,
+      winnersChanged,
+      addedEmployeeIds,
+      removedEmployeeIds,
+      changes,
+    };
+  }
+
+  /**
+   * Store the results of a period as they are now. A failed snapshot doesn't undo the close or
+   * the winner selection; the results are then computed live until the next snapshot.
+   */
+  private async takeResultsSnapshot(
+    period: VotingPeriod,
+    trigger: ResultsSnapshotTrigger,
+    results: VotingPeriodResults,
+    userContext?: { userId: string; userName: string; userEmail?: string },
+    generalWinnerEmployeeId?: string
+  ): Promise<void> {
+    if (!this.resultsSnapshotRepository) {
+      return;
+    }
+
+    try {
+      const takenAt = new Date();
+      // Round-trip through JSON so the hash covers exactly what Cosmos DB stores
+      const storedResults = JSON.parse(JSON.stringify(results)) as VotingPeriodResults;
+      await this.resultsSnapshotRepository.create({
+        id: `snapshot-${period.id}-${takenAt.getTime()}`,
+        votingPeriodId: period.id,
+        programId: ProgramHelper.resolveId(period.programId),
+        trigger,
+        results: storedResults,
+        ...(generalWinnerEmployeeId && { generalWinnerEmployeeId }),
+        contentHash: SnapshotHelper.hash(storedResults),
+        takenAt,
+        takenBy: userContext?.userId || 'system',
+      });
+    } catch (error) {
+      console.error('Failed to store results snapshot:', error);
+    }
+  }
+
+  /**
+   * Capture voting groups and eligibility when a period opens. A failed capture doesn't block
+   * the period; it then uses the employees' current data.
+   */
+  private async captureMembership(
+    period: VotingPeriod,
+    userContext?: { userId: string; userName: string; userEmail?: string }
+  ): Promise<void> {
+    if (!this.membershipService) {
+      return;
+    }
+
+    try {
+      await this.membershipService.captureMembership(period, userContext);
+    } catch (error) {
+      console.error('Failed to capture period membership:', error);
+    }
+  }
+
+  private async getPeriodMembers(
+    votingPeriodId: string
+  ): Promise<Map<string, PeriodMember> | null> {
+    return this.membershipService ? this.membershipService.getMembers(votingPeriodId) : null;
+  }
+
+  private async computeVotingResults(votingPeriod: VotingPeriod): Promise<VotingPeriodResults> {
+    const votingPeriodId = votingPeriod.id;
+
+    // Only approved nominations count towards results
+    const nominations = await this.nominationRepository.findApprovedByVotingPeriod(votingPeriodId);
 
     // Get all unique employee IDs from nominations
     const uniqueEmployeeIds = [...new Set(nominations.map(n => n.nominatedEmployeeId))];
@@ -233,11 +550,12 @@ export class VotingService {
       employeeMap.set(id, employees[index]);
     });
 
-    // Group nominations by votingGroup
+    // Group nominations by the votingGroup captured when the period opened
+    const members = await this.getPeriodMembers(votingPeriodId);
     const nominationsByGroup = new Map<string, typeof nominations>();
     for (const nomination of nominations) {
       const employee = employeeMap.get(nomination.nominatedEmployeeId);
-      const votingGroup = employee?.votingGroup || 'default';
+      const votingGroup = MembershipService.getVotingGroup(employee, members) || 'default';
 
       if (!nominationsByGroup.has(votingGroup)) {
         nominationsByGroup.set(votingGroup, []);
@@ -247,22 +565,48 @@ export class VotingService {
 
     const allResults: VoteResult[] = [];
     const winnersByGroup: VoteResult[] = [];
+    const criteriaDefinitions = votingPeriod.criteria ?? DEFAULT_CRITERIA;
 
     // Get eligibility config for winners formula
     const eligibilityConfig = this.configurationService
-      ? await this.configurationService.getEligibilityConfig()
+      ? await this.configurationService.getEligibilityConfig(
+          ProgramHelper.resolveId(votingPeriod.programId)
+        )
       : null;
+    const rankingPolicy = this.configurationService
+      ? await this.configurationService.getRankingPolicyConfig(
+          ProgramHelper.resolveId(votingPeriod.programId)
+        )
+      : DEFAULT_RANKING_POLICY_CONFIG;
+
+    // Final-round votes are reported apart from the nomination counts
+    const votes =
+      votingPeriod.votingPhase && this.voteRepository
+        ? await this.voteRepository.findByVotingPeriod(votingPeriodId)
+        : [];
+
+    const groupCooldown = eligibilityConfig?.winnerCooldown?.groupWinPeriods ?? 0;
+    const recentGroupWinners = await this.getRecentWinners(
+      votingPeriod,
+      WinnerType.BY_GROUP,
+      groupCooldown
+    );
+    const skippedWinners: WinnerCooldownSkip[] = [];
 
     // Process each voting group separately
     for (const [votingGroup, groupNominations] of nominationsByGroup.entries()) {
-      const employeeVotes = this.aggregateVotes(groupNominations);
+      const employeeVotes = RankingHelper.rank(
+        this.aggregateVotes(groupNominations, criteriaDefinitions),
+        rankingPolicy
+      );
       const groupTotalNominations = groupNominations.length;
 
-      const groupResults: VoteResult[] = employeeVotes.map((vote, index) => {
+      const groupResults: VoteResult[] = employeeVotes.map(vote => {
         const reasons = groupNominations
           .filter(n => n.nominatedEmployeeId === vote.employeeId)
           .map(n => {
             return {
+              nominationId: n.id,
               comment: n.reason,
               username: n.nominatorUserName,
               date: n.createdAt,
@@ -279,12 +623,18 @@ export class VotingService {
           nominationCount: vote.count,
           reasons,
           percentage: Math.round((vote.count / groupTotalNominations) * 100 * 100) / 100,
-          rank: index + 1,
+          rank: vote.rank,
+          compositeScore: vote.compositeScore,
+          isTied: vote.isTied,
           averageCriteria: vote.averageCriteria,
           votingGroup: votingGroup === 'default' ? undefined : votingGroup,
         };
       });
 
+      if (votingPeriod.votingPhase) {
+        this.applyFinalVotes(groupResults, votingPeriod.votingPhase, votes);
+      }
+
       allResults.push(...groupResults);
 
       // Calculate number of winners for this group using formula
@@ -296,8 +646,15 @@ export class VotingService {
       }
 
       // Select top N winners for this group
-      const groupWinners = groupResults.slice(0, numberOfWinners);
-      winnersByGroup.push(...groupWinners);
+      winnersByGroup.push(
+        ...this.selectGroupWinners(
+          this.rankForWinners(groupResults),
+          numberOfWinners,
+          recentGroupWinners,
+          groupCooldown,
+          skippedWinners
+        )
+      );
     }
 
     const totalNominations = nominations.length;
@@ -327,12 +684,15 @@ export class VotingService {
         year: votingPeriod.year,
         month: votingPeriod.month,
         status: votingPeriod.status,
+        criteria: criteriaDefinitions,
       },
       totalNominations,
+      ...(votingPeriod.votingPhase && { totalFinalVotes: votes.length }),
       averageVotes,
       results: allResults,
       winner: winnersByGroup[0], // For backwards compatibility, return first winner
       winners: winnersByGroup,
+      ...(skippedWinners.length > 0 && { skippedWinners }),
     };
 
     return results;
@@ -377,96 +737,106 @@ export class VotingService {
     return results;
   } */
 
+  private applyFinalVotes(groupResults: VoteResult[], phase: VotingPhase, votes: Vote[]): void {
+    const groupEmployeeIds = new Set(groupResults.map(result => result.employeeId));
+    const groupVotes = votes.filter(vote => groupEmployeeIds.has(vote.nominatedEmployeeId));
+
+    for (const result of groupResults) {
+      // Before the first vote the shortlist follows the live nomination ranking
+      result.shortlisted = phase.shortlist
+        ? phase.shortlist.includes(result.employeeId)
+        : result.rank <= phase.shortlistSize;
+      if (!result.shortlisted) {
+        continue;
+      }
+
+      const finalVotes = groupVotes.filter(
+        vote => vote.nominatedEmployeeId === result.employeeId
+      ).length;
+      result.finalVotes = finalVotes;
+      result.finalVotePercentage =
+        groupVotes.length > 0 ? Math.round((finalVotes / groupVotes.length) * 100 * 100) / 100 : 0;
+    }
+  }
+
   private aggregateVotes(
-    nominations: Nomination[]
-  ): { employeeId: string; count: number; averageCriteria: Criteria }[] {
-    const voteMap = new Map<string, { count: number; totalCriteria: Criteria }>();
+    nominations: Nomination[],
+    criteriaDefinitions: CriterionDefinition[]
+  ): RankingCandidate[] {
+    const voteMap = new Map<
+      string,
+      { count: number; totalCriteria: Criteria; scoredCount: Criteria; firstNominatedAt: Date }
+    >();
 
     nominations.forEach(nomination => {
       const current = voteMap.get(nomination.nominatedEmployeeId) || {
         count: 0,
-        totalCriteria: {
-          communication: 0,
-          innovation: 0,
-          leadership: 0,
-          problemSolving: 0,
-          reliability: 0,
-          teamwork: 0,
-        },
+        totalCriteria: {},
+        scoredCount: {},
+        firstNominatedAt: nomination.createdAt,
       };
 
+      // Optional criteria may be missing, so each criterion keeps its own count
+      for (const { key } of criteriaDefinitions) {
+        const score = nomination.criteria?.[key];
+        if (typeof score !== 'number') {
+          continue;
+        }
+        current.totalCriteria[key] = (current.totalCriteria[key] || 0) + score;
+        current.scoredCount[key] = (current.scoredCount[key] || 0) + 1;
+      }
+
       voteMap.set(nomination.nominatedEmployeeId, {
+        ...current,
         count: current.count + 1,
-        totalCriteria: {
-          communication: current.totalCriteria.communication + nomination.criteria.communication,
-          innovation: current.totalCriteria.innovation + nomination.criteria.innovation,
-          leadership: current.totalCriteria.leadership + nomination.criteria.leadership,
-          problemSolving: current.totalCriteria.problemSolving + nomination.criteria.problemSolving,
-          reliability: current.totalCriteria.reliability + nomination.criteria.reliability,
-          teamwork: current.totalCriteria.teamwork + nomination.criteria.teamwork,
-        },
+        firstNominatedAt:
+          new Date(nomination.createdAt) < new Date(current.firstNominatedAt)
+            ? nomination.createdAt
+            : current.firstNominatedAt,
       });
     });
 
-    return Array.from(voteMap.entries())
-      .map(([employeeId, data]) => ({
+    return Array.from(voteMap.entries()).map(([employeeId, data]) => {
+      const averageCriteria: Criteria = {};
+      for (const [key, total] of Object.entries(data.totalCriteria)) {
+        averageCriteria[key] = Math.round((total / data.scoredCount[key]) * 10) / 10;
+      }
+      return {
         employeeId,
         count: data.count,
-        averageCriteria: {
-          communication: Math.round((data.totalCriteria.communication / data.count) * 10) / 10,
-          innovation: Math.round((data.totalCriteria.innovation / data.count) * 10) / 10,
-          leadership: Math.round((data.totalCriteria.leadership / data.count) * 10) / 10,
-          problemSolving: Math.round((data.totalCriteria.problemSolving / data.count) * 10) / 10,
-          reliability: Math.round((data.totalCriteria.reliability / data.count) * 10) / 10,
-          teamwork: Math.round((data.totalCriteria.teamwork / data.count) * 10) / 10,
-        },
-      }))
-      .sort((a, b) => {
-        // Sort by vote count first
-        if (b.count !== a.count) {
-          return b.count - a.count;
-        }
-
-        // In case of tie, sort by average criteria score
-        const avgA =
-          (a.averageCriteria.communication +
-            a.averageCriteria.innovation +
-            a.averageCriteria.leadership +
-            a.averageCriteria.problemSolving +
-            a.averageCriteria.reliability +
-            a.averageCriteria.teamwork) /
-          6;
-
-        const avgB =
-          (b.averageCriteria.communication +
-            b.averageCriteria.innovation +
-            b.averageCriteria.leadership +
-            b.averageCriteria.problemSolving +
-            b.averageCriteria.reliability +
-            b.averageCriteria.teamwork) /
-          6;
-
-        return avgB - avgA;
-      });
+        averageCriteria,
+        firstNominatedAt: data.firstNominatedAt,
+      };
+    });
   }
 
   async updateNomination(
     nominationId: string,
     updateData: UpdateNominationDto
   ): Promise<Nomination> {
-    const currentPeriod = await this.getCurrentVotingPeriod();
-    if (!currentPeriod) {
-      throw new Error('No active voting period found');
-    }
-
     const existingNomination = await this.nominationRepository.findById(nominationId);
     if (!existingNomination) {
       throw new Error('No existing nomination found to update');
     }
 
+    // The nomination's own period, whichever program it belongs to
+    const nominationPeriod = await this.votingPeriodRepository.findById(
+      existingNomination.votingPeriodId
+    );
+    if (!nominationPeriod || nominationPeriod.status !== VotingPeriodStatus.ACTIVE) {
+      throw new Error('No active voting period found');
+    }
+
+    if (this.hasVotingPhaseStarted(nominationPeriod)) {
+      throw new Error('Nominations are closed, the voting phase has started');
+    }
+
     // Validate the updated data if provided
     if (updateData.nominatedEmployeeId) {
-      await this.validationService.validateEmployee(updateData.nominatedEmployeeId);
+      await this.validationService.validateEmployee(
+        updateData.nominatedEmployeeId,
+        existingNomination.votingPeriodId
+      );
 
       // Check for self-nomination
       const updateNominationData: CreateNominationDto = {
@@ -477,6 +847,21 @@ export class VotingService {
         criteria: updateData.criteria || existingNomination.criteria,
       };
       await this.validationService.validateSelfNomination(updateNominationData);
+
+      if (updateData.nominatedEmployeeId !== existingNomination.nominatedEmployeeId) {
+        await this.validationService.validateDuplicateNominee(
+          existingNomination.nominatorUserName,
+          updateData.nominatedEmployeeId,
+          existingNomination.votingPeriodId,
+          existingNomination.id,
+          ProgramHelper.resolveId(existingNomination.programId)
+        );
+        await this.validationService.validateSameVotingGroup(
+          updateNominationData,
+          existingNomination.votingPeriodId,
+          ProgramHelper.resolveId(existingNomination.programId)
+        );
+      }
     }
 
     if (updateData.reason) {
@@ -484,7 +869,10 @@ export class VotingService {
     }
 
     if (updateData.criteria) {
-      this.validationService.validateCriteria(updateData.criteria);
+      this.validationService.validateCriteria(
+        updateData.criteria,
+        nominationPeriod.criteria ?? DEFAULT_CRITERIA
+      );
     }
 
     // Update the nomination
@@ -496,100 +884,616 @@ export class VotingService {
       updatedAt: new Date(),
     };
 
+    if (updatedNomination.nominatedEmployeeId !== existingNomination.nominatedEmployeeId) {
+      updatedNomination.crossVotingGroup = !!(await this.validationService.getVotingGroupMismatch(
+        existingNomination.nominatorUserName,
+        updatedNomination.nominatedEmployeeId,
+        existingNomination.votingPeriodId
+      ));
+    }
+
+    // A reviewed nomination whose content changes goes back to the moderation queue, so an
+    // approval can't be carried over to a different nominee, reason or criteria
+    const contentChanged =
+      updatedNomination.nominatedEmployeeId !== existingNomination.nominatedEmployeeId ||
+      updatedNomination.reason !== existingNomination.reason ||
+      JSON.stringify(updatedNomination.criteria) !== JSON.stringify(existingNomination.criteria);
+    if (
+      contentChanged &&
+      updatedNomination.status !== NominationStatus.PENDING &&
+      this.configurationService
+    ) {
+      const nominee = await this.employeeService.getEmployeeById(
+        updatedNomination.nominatedEmployeeId
+      );
+      const members = await this.getPeriodMembers(existingNomination.votingPeriodId);
+      const requiresModeration = await this.configurationService.requiresModeration(
+        MembershipService.getVotingGroup(nominee, members),
+        ProgramHelper.resolveId(existingNomination.programId)
+      );
+      if (requiresModeration) {
+        updatedNomination.status = NominationStatus.PENDING;
+        delete updatedNomination.reviewedBy;
+        delete updatedNomination.reviewedByName;
+        delete updatedNomination.reviewedAt;
+        delete updatedNomination.reviewReason;
+      }
+    }
+
     return await this.nominationRepository.update(existingNomination.id, updatedNomination);
   }
 
-  private generateId(): string {
-    return Date.now().toString() + Math.random().toString(36).substr(2, 9);
-  }
+  /**
+   * List nominations in a period where nominator and nominee are in different voting groups.
+   * Groups are compared as they are now, so nominations made before the rule existed show up too.
+   */
+  async getCrossGroupNominations(votingPeriodId: string): Promise<CrossGroupNomination[]> {
+    const votingPeriod = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!votingPeriod) {
+      throw new Error('Voting period not found');
+    }
 
-  async getWinners(): Promise<VoteResult[]> {
-    const recentPeriods = await this.votingPeriodRepository.findRecentPeriods();
-    const winners: VoteResult[] = [];
+    const nominations = await this.nominationRepository.findByVotingPeriod(votingPeriodId);
+    const crossGroupNominations: CrossGroupNomination[] = [];
 
-    for (const period of recentPeriods) {
-      if (period.status === VotingPeriodStatus.CLOSED) {
-        const results = await this.getVotingResults(period.id);
-        // Include all winners from all voting groups
-        if (results.winners && results.winners.length > 0) {
-          winners.push(...results.winners);
-        } else if (results.winner) {
-          // Fallback for backwards compatibility
-          winners.push(results.winner);
-        }
+    for (const nomination of nominations) {
+      const mismatch = await this.validationService.getVotingGroupMismatch(
+        nomination.nominatorUserName,
+        nomination.nominatedEmployeeId,
+        votingPeriodId
+      );
+      if (!mismatch) {
+        continue;
       }
+
+      const employee = await this.employeeService.getEmployeeById(nomination.nominatedEmployeeId);
+
+      crossGroupNominations.push({
+        ...nomination,
+        nominatorVotingGroup: mismatch.nominatorVotingGroup,
+        nominatedEmployee: {
+          fullName: employee?.fullName || 'Unknown Employee',
+          department: employee?.department || 'Unknown',
+          position: employee?.position || 'Unknown',
+          votingGroup: mismatch.nomineeVotingGroup,
+        },
+      });
     }
 
-    return winners;
+    return crossGroupNominations;
   }
 
-  /*  async getWinnersGrouped(): Promise<WinnersContainer[]> {
- 
-    const winnersContainers: WinnersContainer[] = [];
+  /**
+   * Nominees on the ballot of the voting phase. Counts are left out so they don't sway voters.
+   */
+  async getShortlist(votingPeriodId: string, votingGroup?: string): Promise<ShortlistedNominee[]> {
+    const votingPeriod = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!votingPeriod) {
+      throw new Error('Voting period not found');
+    }
+    if (!votingPeriod.votingPhase) {
+      throw new Error('This voting period has no voting phase');
+    }
 
-    // 1. Get all saved winners from history (for CLOSED periods)
-    const allWinners = await this.winnerHistoryRepository.findAll();
+    const { results } = await this.getVotingResults(votingPeriodId);
+    return results
+      .filter(result => result.shortlisted)
+      .filter(result => votingGroup === undefined || result.votingGroup === votingGroup)
+      .map(result => ({
+        employeeId: result.employeeId,
+        employeeName: result.employeeName,
+        department: result.department,
+        position: result.position,
+        votingGroup: result.votingGroup,
+      }));
+  }
 
-    // Group winners by voting period
-    const winnersByPeriod = new Map<string, WinnerHistory[]>();
-    const periodsWithWinners = new Set<string>();
+  async castVote(
+    votingPeriodId: string,
+    voteData: CastVoteDto,
+    voter: { userId: string; userName: string }
+  ): Promise<Vote> {
+    if (!this.voteRepository) {
+      throw new Error('Peer voting is not available');
+    }
 
-    for (const winner of allWinners) {
-      // Only include group winners (not general winners)
-      if (winner.winnerType === WinnerType.BY_GROUP) {
-        periodsWithWinners.add(winner.votingPeriodId);
-        if (!winnersByPeriod.has(winner.votingPeriodId)) {
-          winnersByPeriod.set(winner.votingPeriodId, []);
-        }
-        winnersByPeriod.get(winner.votingPeriodId)!.push(winner);
-      }
+    const votingPeriod = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!votingPeriod) {
+      throw new Error('Voting period not found');
+    }
+    const phase = votingPeriod.votingPhase;
+    if (!phase) {
+      throw new Error('This voting period has no voting phase');
+    }
+    const now = new Date();
+    if (
+      votingPeriod.status !== VotingPeriodStatus.ACTIVE ||
+      now < new Date(phase.startDate) ||
+      now >= new Date(phase.endDate)
+    ) {
+      throw new Error('The voting phase is not open');
     }
 
-    // Build containers for periods with saved winners
-    for (const [votingPeriodId, winners] of winnersByPeriod.entries()) {
-      if (winners.length === 0) continue;
+    const existingVote = await this.voteRepository.findByVoterAndPeriod(
+      voter.userId,
+      votingPeriodId
+    );
+    if (existingVote) {
+      throw new Error('You have already voted in this voting period');
+    }
 
-      const winnersByGroup = winners.map(winner => {
-        const voteResult: VoteResult = {
-          votingPeriodId: winner.votingPeriodId,
-          employeeId: winner.employeeId,
-          employeeName: winner.employeeName,
-          department: winner.department,
-          position: winner.position,
-          nominationCount: winner.nominationCount,
-          percentage: winner.percentage,
-          rank: winner.rank,
-          averageCriteria: winner.averageCriteria,
-          votingGroup: winner.votingGroup,
-        };
+    const shortlist = await this.getShortlist(votingPeriodId);
+    const nominee = shortlist.find(n => n.employeeId === voteData.nominatedEmployeeId);
+    if (!nominee) {
+      throw new Error('Only shortlisted nominees can receive votes');
+    }
 
-        return {
-          votingGroup: winner.votingGroup || 'default',
-          winner: voteResult,
-        };
-      });
+    await this.validationService.validateVoter(
+      voter.userName,
+      nominee.employeeId,
+      votingPeriodId,
+      ProgramHelper.resolveId(votingPeriod.programId)
+    );
 
-      winnersContainers.push({
-        votingPeriodId,
-        year: winners[0].year,
-        month: winners[0].month,
-        winnersByGroup,
-      });
+    // Freeze the ballot so later moderation decisions can't move nominees on or off it
+    if (!phase.shortlist) {
+      phase.shortlist = shortlist.map(n => n.employeeId);
+      votingPeriod.updatedAt = new Date();
+      await this.votingPeriodRepository.update(votingPeriodId, votingPeriod);
     }
 
-    // 2. Get PENDING/ACTIVE periods that don't have saved winners yet
-    const recentPeriods = await this.votingPeriodRepository.findRecentPeriods();
-    const pendingPeriods = recentPeriods.filter(
-      period =>
-        (period.status === VotingPeriodStatus.PENDING ||
-          period.status === VotingPeriodStatus.ACTIVE) &&
-        !periodsWithWinners.has(period.id)
-    );
+    const vote: Vote = {
+      // One vote per voter and period, a concurrent second vote fails on the duplicate id
+      id: `vote-${votingPeriodId}-${voter.userId}`,
+      votingPeriodId,
+      voterUserId: voter.userId,
+      voterUserName: voter.userName,
+      nominatedEmployeeId: nominee.employeeId,
+      votingGroup: nominee.votingGroup,
+      createdAt: new Date(),
+    };
 
-    // Calculate results for pending periods (only if they have nominations)
-    for (const period of pendingPeriods) {
-      try {
-        const results = await this.getVotingResults(period.id);
+    return await this.voteRepository.create(vote);
+  }
+
+  async getMyVote(votingPeriodId: string, voterUserId: string): Promise<Vote | null> {
+    if (!this.voteRepository) {
+      return null;
+    }
+    return await this.voteRepository.findByVoterAndPeriod(voterUserId, votingPeriodId);
+  }
+
+  async getModerationQueue(
+    votingGroup?: string,
+    programId?: string
+  ): Promise<NominationWithEmployee[]> {
+    const currentPeriod = await this.getCurrentVotingPeriod(programId);
+    if (!currentPeriod) {
+      return [];
+    }
+
+    const pendingNominations = await this.nominationRepository.findByVotingPeriodAndStatus(
+      currentPeriod.id,
+      NominationStatus.PENDING
+    );
+
+    const queue: NominationWithEmployee[] = [];
+    const members = await this.getPeriodMembers(currentPeriod.id);
+
+    for (const nomination of pendingNominations) {
+      const employee = await this.employeeService.getEmployeeById(nomination.nominatedEmployeeId);
+      const employeeVotingGroup = MembershipService.getVotingGroup(employee, members);
+
+      if (votingGroup && employeeVotingGroup !== votingGroup) {
+        continue;
+      }
+
+      queue.push({
+        ...nomination,
+        nominatedEmployee: {
+          fullName: employee?.fullName || 'Unknown Employee',
+          department: employee?.department || 'Unknown',
+          position: employee?.position || 'Unknown',
+          votingGroup: employeeVotingGroup,
+        },
+      });
+    }
+
+    return queue;
+  }
+
+  async approveNomination(
+    nominationId: string,
+    reviewer: { userId: string; userName: string; userEmail?: string },
+    reason?: string
+  ): Promise<Nomination> {
+    return this.reviewNomination(nominationId, NominationStatus.APPROVED, reviewer, reason);
+  }
+
+  async rejectNomination(
+    nominationId: string,
+    reviewer: { userId: string; userName: string; userEmail?: string },
+    reason: string
+  ): Promise<Nomination> {
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('A reason is required to reject a nomination');
+    }
+
+    return this.reviewNomination(nominationId, NominationStatus.REJECTED, reviewer, reason);
+  }
+
+  private async reviewNomination(
+    nominationId: string,
+    status: NominationStatus.APPROVED | NominationStatus.REJECTED,
+    reviewer: { userId: string; userName: string; userEmail?: string },
+    reason?: string
+  ): Promise<Nomination> {
+    const nomination = await this.nominationRepository.findById(nominationId);
+    if (!nomination) {
+      throw new Error('Nomination not found');
+    }
+
+    if (nomination.status !== NominationStatus.PENDING) {
+      throw new Error(
+        `Nomination has already been ${nomination.status ?? NominationStatus.APPROVED}`
+      );
+    }
+
+    const period = await this.votingPeriodRepository.findById(nomination.votingPeriodId);
+    if (period?.status === VotingPeriodStatus.CLOSED) {
+      throw new Error('Cannot review nominations of a closed voting period');
+    }
+
+    const reviewedNomination: Nomination = {
+      ...nomination,
+      status,
+      reviewedBy: reviewer.userId,
+      reviewedByName: reviewer.userName,
+      reviewedAt: new Date(),
+      ...(reason && { reviewReason: reason.trim() }),
+      updatedAt: new Date(),
+    };
+
+    const result = await this.nominationRepository.update(nominationId, reviewedNomination);
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.NOMINATION,
+          entityId: nominationId,
+          action: status === NominationStatus.APPROVED ? AuditAction.APPROVE : AuditAction.REJECT,
+          userId: reviewer.userId,
+          userName: reviewer.userName,
+          userEmail: reviewer.userEmail,
+          changes: [
+            {
+              field: 'status',
+              oldValue: nomination.status,
+              newValue: status,
+            },
+          ],
+          metadata: {
+            votingPeriodId: nomination.votingPeriodId,
+            nominatedEmployeeId: nomination.nominatedEmployeeId,
+            reason: reviewedNomination.reviewReason,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+
+  private hasVotingPhaseStarted(period: VotingPeriod): boolean {
+    return !!period.votingPhase && new Date() >= new Date(period.votingPhase.startDate);
+  }
+
+  private buildVotingPhase(phase: VotingPhaseDto, startDate: Date, endDate: Date): VotingPhase {
+    const votingStart = new Date(phase.startDate);
+    const votingEnd = new Date(phase.endDate);
+    if (isNaN(votingStart.getTime()) || isNaN(votingEnd.getTime())) {
+      throw new Error('Voting phase startDate and endDate must be valid dates');
+    }
+    if (votingStart <= new Date(startDate)) {
+      throw new Error('The voting phase must start after the nomination phase');
+    }
+    if (votingEnd <= votingStart) {
+      throw new Error('The voting phase must end after it starts');
+    }
+    if (votingEnd > new Date(endDate)) {
+      throw new Error('The voting phase must end by the end of the voting period');
+    }
+
+    const shortlistSize = phase.shortlistSize ?? DEFAULT_SHORTLIST_SIZE;
+    if (!Number.isInteger(shortlistSize) || shortlistSize < 1) {
+      throw new Error('shortlistSize must be a positive integer');
+    }
+
+    return { startDate: votingStart, endDate: votingEnd, shortlistSize };
+  }
+
+  private getJudgedWinners(
+    round: JudgingRound,
+    recentGroupWinners: Map<string, string>,
+    groupCooldown: number,
+    skipped: WinnerCooldownSkip[]
+  ): VoteResult[] {
+    const resultsByGroup = new Map<string, VoteResult[]>();
+    for (const result of round.results || []) {
+      const group = result.votingGroup || 'default';
+      resultsByGroup.set(group, [
+        ...(resultsByGroup.get(group) || []),
+        { ...result, rank: result.finalRank },
+      ]);
+    }
+
+    const winners: VoteResult[] = [];
+    for (const [group, results] of resultsByGroup) {
+      winners.push(
+        ...this.selectGroupWinners(
+          results.sort((a, b) => a.rank - b.rank),
+          round.winnersPerGroup[group] || 1,
+          recentGroupWinners,
+          groupCooldown,
+          skipped
+        )
+      );
+    }
+    return winners;
+  }
+
+  /**
+   * Order a group's results are awarded in. Once votes are in, the final vote decides among
+   * the shortlist and the nomination rank breaks ties.
+   */
+  private rankForWinners(groupResults: VoteResult[]): VoteResult[] {
+    return groupResults.some(result => result.finalVotes)
+      ? groupResults
+          .filter(result => result.shortlisted)
+          .sort((a, b) => (b.finalVotes || 0) - (a.finalVotes || 0) || a.rank - b.rank)
+      : groupResults;
+  }
+
+  /**
+   * First `count` of a group's ranking, skipping recent group winners so the next person is
+   * promoted. Only the employees passed over on the way are reported in `skipped`.
+   */
+  private selectGroupWinners(
+    ranked: VoteResult[],
+    count: number,
+    recentGroupWinners: Map<string, string>,
+    groupCooldown: number,
+    skipped: WinnerCooldownSkip[]
+  ): VoteResult[] {
+    const winners: VoteResult[] = [];
+    for (const result of ranked) {
+      if (winners.length >= count) {
+        break;
+      }
+      const lastWinVotingPeriodId = recentGroupWinners.get(result.employeeId);
+      if (lastWinVotingPeriodId) {
+        skipped.push(
+          this.buildCooldownSkip(result, WinnerType.BY_GROUP, lastWinVotingPeriodId, groupCooldown)
+        );
+        continue;
+      }
+      winners.push(result);
+    }
+    return winners;
+  }
+
+  /**
+   * Employees with a win of the given type in the program's last `periods` periods before this
+   * one, with the most recent period they won in. Empty when the cooldown is off.
+   */
+  private async getRecentWinners(
+    period: VotingPeriod,
+    winnerType: WinnerType,
+    periods: number
+  ): Promise<Map<string, string>> {
+    const recentWinners = new Map<string, string>();
+    if (periods <= 0) {
+      return recentWinners;
+    }
+
+    const programId = ProgramHelper.resolveId(period.programId);
+    const previousPeriodIds = (await this.votingPeriodRepository.findAll(programId))
+      .filter(p => p.id !== period.id && new Date(p.startDate) < new Date(period.startDate))
+      .slice(-periods)
+      .map(p => p.id);
+    if (previousPeriodIds.length === 0) {
+      return recentWinners;
+    }
+
+    const winners = (await this.winnerHistoryRepository.findAll(programId)).filter(
+      winner => winner.winnerType === winnerType && !winner.disqualified && !winner.superseded
+    );
+    // Oldest period first, so the most recent win is the one kept
+    for (const votingPeriodId of previousPeriodIds) {
+      for (const winner of winners.filter(w => w.votingPeriodId === votingPeriodId)) {
+        recentWinners.set(winner.employeeId, votingPeriodId);
+      }
+    }
+    return recentWinners;
+  }
+
+  private buildCooldownSkip(
+    result: VoteResult,
+    winnerType: WinnerType,
+    lastWinVotingPeriodId: string,
+    periods: number
+  ): WinnerCooldownSkip {
+    const award = winnerType === WinnerType.GENERAL ? 'the general award' : 'a group award';
+    return {
+      employeeId: result.employeeId,
+      employeeName: result.employeeName,
+      ...(result.votingGroup && { votingGroup: result.votingGroup }),
+      winnerType,
+      lastWinVotingPeriodId,
+      reason: `Won ${award} in ${lastWinVotingPeriodId}, within the last ${periods} periods`,
+    };
+  }
+
+  private validateGeneralWinnerStrategy(strategy?: GeneralWinnerStrategy): void {
+    if (strategy !== undefined && !GENERAL_WINNER_STRATEGIES.includes(strategy)) {
+      throw new Error(
+        `generalWinnerStrategy must be one of: ${GENERAL_WINNER_STRATEGIES.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Reject a period that would break the consistency of its program's periods: dates, one
+   * active period at a time and no overlapping date ranges
+   */
+  private async validatePeriodConsistency(period: VotingPeriod): Promise<void> {
+    const others = await this.votingPeriodRepository.findAll(
+      ProgramHelper.resolveId(period.programId)
+    );
+    const issues = PeriodConsistencyHelper.validate(period, others, await this.getTimezone());
+    if (issues.length > 0) {
+      throw new Error(issues.map(issue => issue.message).join('; '));
+    }
+  }
+
+  /**
+   * Inconsistencies among the stored periods of every program
+   */
+  async checkPeriodConsistency(): Promise<PeriodConsistencyReport> {
+    const periods = await this.votingPeriodRepository.findAll();
+    const issues = PeriodConsistencyHelper.check(periods, await this.getTimezone());
+    return {
+      checkedAt: new Date(),
+      periodsChecked: periods.length,
+      consistent: issues.length === 0,
+      issues,
+    };
+  }
+
+  private async getTimezone(): Promise<string> {
+    return this.configurationService
+      ? (await this.configurationService.getCalendarConfig()).timezone
+      : DEFAULT_CALENDAR_CONFIG.timezone;
+  }
+
+  /**
+   * Periods with their dates rendered in the organization's timezone, for responses
+   */
+  async withLocalTimes(periods: VotingPeriod[]): Promise<VotingPeriod[]> {
+    const timezone = await this.getTimezone();
+    return periods.map(period => ({
+      ...period,
+      localTimes: CalendarHelper.getLocalTimes(period, timezone),
+    }));
+  }
+
+  private generateId(): string {
+    return Date.now().toString() + Math.random().toString(36).substr(2, 9);
+  }
+
+  async getWinners(programId?: string, includeUnpublished = false): Promise<VoteResult[]> {
+    const recentPeriods = await this.votingPeriodRepository.findRecentPeriods(
+      undefined,
+      ProgramHelper.resolveId(programId)
+    );
+    const winners: VoteResult[] = [];
+
+    for (const period of recentPeriods) {
+      if (
+        period.status === VotingPeriodStatus.CLOSED &&
+        (includeUnpublished || period.publishedAt)
+      ) {
+        // Saved winners take disqualifications into account, the stored results don't
+        const savedWinners = await this.winnerHistoryRepository.findGroupWinnersByPeriod(period.id);
+        if (savedWinners.length > 0) {
+          winners.push(...savedWinners);
+          continue;
+        }
+
+        const results = await this.getVotingResults(period.id);
+        // Include all winners from all voting groups
+        if (results.winners && results.winners.length > 0) {
+          winners.push(...results.winners);
+        } else if (results.winner) {
+          // Fallback for backwards compatibility
+          winners.push(results.winner);
+        }
+      }
+    }
+
+    return winners;
+  }
+
+  /*  async getWinnersGrouped(): Promise<WinnersContainer[]> {
+ 
+    const winnersContainers: WinnersContainer[] = [];
+
+    // 1. Get all saved winners from history (for CLOSED periods)
+    const allWinners = await this.winnerHistoryRepository.findAll();
+
+    // Group winners by voting period
+    const winnersByPeriod = new Map<string, WinnerHistory[]>();
+    const periodsWithWinners = new Set<string>();
+
+    for (const winner of allWinners) {
+      // Only include group winners (not general winners)
+      if (winner.winnerType === WinnerType.BY_GROUP) {
+        periodsWithWinners.add(winner.votingPeriodId);
+        if (!winnersByPeriod.has(winner.votingPeriodId)) {
+          winnersByPeriod.set(winner.votingPeriodId, []);
+        }
+        winnersByPeriod.get(winner.votingPeriodId)!.push(winner);
+      }
+    }
+
+    // Build containers for periods with saved winners
+    for (const [votingPeriodId, winners] of winnersByPeriod.entries()) {
+      if (winners.length === 0) continue;
+
+      const winnersByGroup = winners.map(winner => {
+        const voteResult: VoteResult = {
+          votingPeriodId: winner.votingPeriodId,
+          employeeId: winner.employeeId,
+          employeeName: winner.employeeName,
+          department: winner.department,
+          position: winner.position,
+          nominationCount: winner.nominationCount,
+          percentage: winner.percentage,
+          rank: winner.rank,
+          averageCriteria: winner.averageCriteria,
+          votingGroup: winner.votingGroup,
+        };
+
+        return {
+          votingGroup: winner.votingGroup || 'default',
+          winner: voteResult,
+        };
+      });
+
+      winnersContainers.push({
+        votingPeriodId,
+        year: winners[0].year,
+        month: winners[0].month,
+        winnersByGroup,
+      });
+    }
+
+    // 2. Get PENDING/ACTIVE periods that don't have saved winners yet
+    const recentPeriods = await this.votingPeriodRepository.findRecentPeriods();
+    const pendingPeriods = recentPeriods.filter(
+      period =>
+        (period.status === VotingPeriodStatus.PENDING ||
+          period.status === VotingPeriodStatus.ACTIVE) &&
+        !periodsWithWinners.has(period.id)
+    );
+
+    // Calculate results for pending periods (only if they have nominations)
+    for (const period of pendingPeriods) {
+      try {
+        const results = await this.getVotingResults(period.id);
 
         if (results.winners && results.winners.length > 0) {
           const winnersByGroup = results.winners.map(winner => ({
@@ -619,7 +1523,11 @@ export class VotingService {
     return winnersContainers;
   } */
   // new version grouped by period and voting group
-  async getWinnersGrouped(): Promise<WinnersContainer[]> {
+  async getWinnersGrouped(
+    programId?: string,
+    includeUnpublished = false
+  ): Promise<WinnersContainer[]> {
+    const resolvedProgramId = ProgramHelper.resolveId(programId);
     const winnersContainers: WinnersContainer[] = [];
 
     // --- helpers ---------------------------------------------------------------
@@ -632,8 +1540,11 @@ export class VotingService {
       nominationCount: w.nominationCount,
       percentage: w.percentage,
       rank: w.rank,
+      compositeScore: w.compositeScore,
+      isTied: w.isTied,
       averageCriteria: w.averageCriteria,
       votingGroup: w.votingGroup,
+      ...(w.citation && { citation: w.citation }),
     });
 
     const buildContainerFromHistory = (
@@ -675,11 +1586,13 @@ export class VotingService {
     // --- 1) closed periods: read saved winners --------------------------------
     // If your repository supports it, prefer filtering in the DB call:
     // const allGroupWinners = await this.winnerHistoryRepository.findAll({ winnerType: WinnerType.BY_GROUP });
-    const allWinners = await this.winnerHistoryRepository.findAll();
+    const allWinners = (await this.winnerHistoryRepository.findAll(resolvedProgramId)).filter(
+      w => includeUnpublished || w.publishedAt
+    );
 
-    // group by period (BY_GROUP only)
+    // group by period (BY_GROUP only, disqualified winners were replaced)
     const winnersByPeriod = allWinners.reduce<Map<string, WinnerHistory[]>>((acc, w) => {
-      if (w.winnerType !== WinnerType.BY_GROUP) return acc;
+      if (w.winnerType !== WinnerType.BY_GROUP || w.disqualified) return acc;
       const arr = acc.get(w.votingPeriodId);
       if (arr) arr.push(w);
       else acc.set(w.votingPeriodId, [w]);
@@ -694,31 +1607,37 @@ export class VotingService {
     }
 
     // --- 2) pending/active periods: calculate on the fly -----------------------
-    const recentPeriods = await this.votingPeriodRepository.findRecentPeriods();
+    // Live standings are never published, so only privileged viewers get them
+    if (includeUnpublished) {
+      const recentPeriods = await this.votingPeriodRepository.findRecentPeriods(
+        undefined,
+        resolvedProgramId
+      );
 
-    const pendingPeriods = recentPeriods.filter(
-      p =>
-        (p.status === VotingPeriodStatus.PENDING || p.status === VotingPeriodStatus.ACTIVE) &&
-        !periodsWithWinners.has(p.id)
-    );
+      const pendingPeriods = recentPeriods.filter(
+        p =>
+          (p.status === VotingPeriodStatus.PENDING || p.status === VotingPeriodStatus.ACTIVE) &&
+          !periodsWithWinners.has(p.id)
+      );
 
-    // Calculate concurrently (and don't fail the whole call if one blows up)
-    const calcResults = await Promise.allSettled(
-      pendingPeriods.map(async period => {
-        try {
-          const results = await this.getVotingResults(period.id);
-          return buildContainerFromResults(period, results);
-        } catch (err) {
-          // swap for your logger if available
-          console.error(`Error calculating results for pending period ${period.id}:`, err);
-          return null;
-        }
-      })
-    );
+      // Calculate concurrently (and don't fail the whole call if one blows up)
+      const calcResults = await Promise.allSettled(
+        pendingPeriods.map(async period => {
+          try {
+            const results = await this.getVotingResults(period.id);
+            return buildContainerFromResults(period, results);
+          } catch (err) {
+            // swap for your logger if available
+            console.error(`Error calculating results for pending period ${period.id}:`, err);
+            return null;
+          }
+        })
+      );
 
-    for (const r of calcResults) {
-      if (r.status === 'fulfilled' && r.value) {
-        winnersContainers.push(r.value);
+      for (const r of calcResults) {
+        if (r.status === 'fulfilled' && r.value) {
+          winnersContainers.push(r.value);
+        }
       }
     }
 
@@ -732,33 +1651,36 @@ export class VotingService {
     return this.nominationRepository.findById(id);
   }
 
-  async getMyNominations(nominatorUserName: string): Promise<NominationWithEmployee | null> {
-    const currentPeriod = await this.getCurrentVotingPeriod();
+  async getMyNominations(
+    nominatorUserName: string,
+    programId?: string
+  ): Promise<NominationWithEmployee[]> {
+    const currentPeriod = await this.getCurrentVotingPeriod(programId);
     if (!currentPeriod) {
-      return null;
+      return [];
     }
 
-    const nomination = await this.nominationRepository.findByNominatorUsername(
+    const nominations = await this.nominationRepository.findAllByNominatorAndPeriod(
       nominatorUserName,
       currentPeriod.id
     );
 
-    if (!nomination) {
-      return null;
-    }
+    const nominationsWithEmployee: NominationWithEmployee[] = [];
 
-    const employee = await this.employeeService.getEmployeeById(nomination.nominatedEmployeeId);
+    for (const nomination of nominations) {
+      const employee = await this.employeeService.getEmployeeById(nomination.nominatedEmployeeId);
 
-    const nominationWithEmployee: NominationWithEmployee = {
-      ...nomination,
-      nominatedEmployee: {
-        fullName: employee?.fullName || 'Unknown Employee',
-        department: employee?.department || 'Unknown',
-        position: employee?.position || 'Unknown',
-      },
-    };
+      nominationsWithEmployee.push({
+        ...nomination,
+        nominatedEmployee: {
+          fullName: employee?.fullName || 'Unknown Employee',
+          department: employee?.department || 'Unknown',
+          position: employee?.position || 'Unknown',
+        },
+      });
+    }
 
-    return nominationWithEmployee;
+    return nominationsWithEmployee;
   }
 
   async deleteNomination(id: string): Promise<void> {
@@ -775,6 +1697,32 @@ export class VotingService {
       throw new Error('Voting period not found');
     }
 
+    this.validateGeneralWinnerStrategy(updateData.generalWinnerStrategy);
+
+    let votingPhase = period.votingPhase;
+    // Changing the period dates re-checks the existing voting phase against them
+    const votingPhaseData = updateData.votingPhase || votingPhase;
+    const periodDatesChanged =
+      updateData.startDate !== undefined || updateData.endDate !== undefined;
+    if (updateData.votingPhase === null) {
+      if (period.votingPhase?.shortlist) {
+        throw new Error('Cannot remove the voting phase after votes have been cast');
+      }
+      votingPhase = undefined;
+    } else if (votingPhaseData && (updateData.votingPhase || periodDatesChanged)) {
+      votingPhase = this.buildVotingPhase(
+        votingPhaseData,
+        updateData.startDate ?? period.startDate,
+        updateData.endDate ?? period.endDate
+      );
+      if (period.votingPhase?.shortlist) {
+        if (votingPhase.shortlistSize !== period.votingPhase.shortlistSize) {
+          throw new Error('Cannot change the shortlist size after votes have been cast');
+        }
+        votingPhase.shortlist = period.votingPhase.shortlist;
+      }
+    }
+
     // Validate that if changing year/month, no period exists for that combination
     if (updateData.year !== undefined || updateData.month !== undefined) {
       const targetYear = updateData.year ?? period.year;
@@ -784,7 +1732,8 @@ export class VotingService {
       if (targetYear !== period.year || targetMonth !== period.month) {
         const existingPeriod = await this.votingPeriodRepository.findByYearAndMonth(
           targetYear,
-          targetMonth
+          targetMonth,
+          ProgramHelper.resolveId(period.programId)
         );
         if (existingPeriod && existingPeriod.id !== votingPeriodId) {
           throw new Error(`A voting period already exists for ${targetYear}-${targetMonth}`);
@@ -801,9 +1750,46 @@ export class VotingService {
       ...(updateData.endDate !== undefined && { endDate: updateData.endDate }),
       ...(updateData.status !== undefined && { status: updateData.status }),
       ...(updateData.description !== undefined && { description: updateData.description }),
+      ...(updateData.generalWinnerStrategy !== undefined && {
+        generalWinnerStrategy: updateData.generalWinnerStrategy,
+      }),
+      votingPhase,
     };
 
-    const result = await this.votingPeriodRepository.update(votingPeriodId, updatedPeriod);
+    // Only changes to the dates or a new activation are checked, so periods with older
+    // inconsistencies can still be closed or described
+    if (
+      periodDatesChanged ||
+      updateData.year !== undefined ||
+      updateData.month !== undefined ||
+      (updatedPeriod.status === VotingPeriodStatus.ACTIVE &&
+        period.status !== VotingPeriodStatus.ACTIVE)
+    ) {
+      await this.validatePeriodConsistency(updatedPeriod);
+    }
+
+    let result = await this.votingPeriodRepository.update(votingPeriodId, updatedPeriod);
+    if (result.status === VotingPeriodStatus.ACTIVE) {
+      await this.captureMembership(result, userContext);
+    }
+    if (
+      result.status === VotingPeriodStatus.ACTIVE ||
+      result.status === VotingPeriodStatus.CLOSED
+    ) {
+      result = await this.commitDrawSeed(result);
+    }
+    // Closing through an update freezes the results just like closeVotingPeriod
+    if (
+      result.status === VotingPeriodStatus.CLOSED &&
+      period.status !== VotingPeriodStatus.CLOSED
+    ) {
+      await this.takeResultsSnapshot(
+        result,
+        'close',
+        await this.computeVotingResults(result),
+        userContext
+      );
+    }
 
     // Log audit
     if (this.auditService && userContext) {
@@ -848,29 +1834,970 @@ export class VotingService {
     period.status = VotingPeriodStatus.CLOSED;
     period.endDate = new Date();
 
-    const result = await this.votingPeriodRepository.update(votingPeriodId, period);
+    // Periods opened before seeds were committed at activation get their commitment now
+    const result = await this.commitDrawSeed(
+      await this.votingPeriodRepository.update(votingPeriodId, period)
+    );
+    await this.takeResultsSnapshot(
+      result,
+      'close',
+      await this.computeVotingResults(result),
+      userContext
+    );
+
+    // Log audit
+    if (this.auditService && userContext) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.VOTING_PERIOD,
+          entityId: votingPeriodId,
+          action: AuditAction.CLOSE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [
+            {
+              field: 'status',
+              oldValue: oldStatus,
+              newValue: VotingPeriodStatus.CLOSED,
+            },
+          ],
+          metadata: {
+            year: period.year,
+            month: period.month,
+            closedAt: period.endDate,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+
+  async activateVotingPeriod(
+    votingPeriodId: string,
+    userContext?: { userId: string; userName: string; userEmail?: string }
+  ): Promise<VotingPeriod> {
+    const period = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!period) {
+      throw new Error('Voting period not found');
+    }
+
+    if (period.status !== VotingPeriodStatus.PENDING) {
+      throw new Error('Only pending voting periods can be activated');
+    }
+    // Periods also go back to pending once their winner is selected
+    if (await this.hasGeneralWinner(votingPeriodId)) {
+      throw new Error('Winners have already been selected for this voting period');
+    }
+
+    // Each program has at most one active period
+    const activePeriod = await this.votingPeriodRepository.findActiveVotingPeriod(
+      ProgramHelper.resolveId(period.programId)
+    );
+    if (activePeriod) {
+      throw new Error(`Voting period ${activePeriod.id} is still active`);
+    }
+
+    const oldStatus = period.status;
+    period.status = VotingPeriodStatus.ACTIVE;
+    period.updatedAt = new Date();
+
+    const result = await this.commitDrawSeed(
+      await this.votingPeriodRepository.update(votingPeriodId, period)
+    );
+    await this.captureMembership(result, userContext);
+
+    // Log audit
+    if (this.auditService && userContext) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.VOTING_PERIOD,
+          entityId: votingPeriodId,
+          action: AuditAction.ACTIVATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [
+            {
+              field: 'status',
+              oldValue: oldStatus,
+              newValue: VotingPeriodStatus.ACTIVE,
+            },
+          ],
+          metadata: {
+            year: period.year,
+            month: period.month,
+            startDate: period.startDate,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Move the end date of an open period later
+   */
+  async extendVotingPeriod(
+    votingPeriodId: string,
+    data: ExtendVotingPeriodDto,
+    userContext: { userId: string; userName: string; userEmail?: string }
+  ): Promise<VotingPeriod> {
+    const period = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!period) {
+      throw new Error('Voting period not found');
+    }
+    if (period.publishedAt) {
+      throw new Error('The results of this voting period are published, it cannot be extended');
+    }
+    if (
+      period.status !== VotingPeriodStatus.ACTIVE &&
+      period.status !== VotingPeriodStatus.PENDING
+    ) {
+      throw new Error('Only active or pending voting periods can be extended; reopen it instead');
+    }
+    // Periods also go back to pending once their winner is selected
+    if (await this.hasGeneralWinner(votingPeriodId)) {
+      throw new Error('Winners have already been selected for this voting period');
+    }
+
+    const reason = this.requireAdjustmentReason(data.reason);
+    const endDate = new Date(data.endDate);
+    if (isNaN(endDate.getTime())) {
+      throw new Error('endDate must be a valid date');
+    }
+    if (endDate <= new Date(period.endDate)) {
+      throw new Error('endDate must be later than the current end date');
+    }
+
+    return this.applyPeriodAdjustment(period, 'extend', reason, endDate, userContext);
+  }
+
+  /**
+   * Take a closed period back to active, keeping its nominations
+   */
+  async reopenVotingPeriod(
+    votingPeriodId: string,
+    data: ReopenVotingPeriodDto,
+    userContext: { userId: string; userName: string; userEmail?: string }
+  ): Promise<VotingPeriod> {
+    const period = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!period) {
+      throw new Error('Voting period not found');
+    }
+    if (period.publishedAt) {
+      throw new Error('The results of this voting period are published, it cannot be reopened');
+    }
+    if (period.status !== VotingPeriodStatus.CLOSED) {
+      throw new Error('Only closed voting periods can be reopened');
+    }
+    if (period.judging) {
+      throw new Error('A judging round has started for this voting period, it cannot be reopened');
+    }
+    if (await this.winnerHistoryRepository.findGeneralWinnerByPeriod(votingPeriodId)) {
+      throw new Error('Winners have already been selected for this voting period');
+    }
+
+    const reason = this.requireAdjustmentReason(data.reason);
+    const endDate = new Date(data.endDate);
+    if (isNaN(endDate.getTime())) {
+      throw new Error('endDate must be a valid date');
+    }
+    if (endDate <= new Date()) {
+      throw new Error('endDate must be in the future');
+    }
+
+    // Each program has at most one active period
+    const activePeriod = await this.votingPeriodRepository.findActiveVotingPeriod(
+      ProgramHelper.resolveId(period.programId)
+    );
+    if (activePeriod) {
+      throw new Error(`Voting period ${activePeriod.id} is still active`);
+    }
+
+    return this.applyPeriodAdjustment(period, 'reopen', reason, endDate, userContext);
+  }
+
+  private requireAdjustmentReason(reason?: string): string {
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('A reason is required');
+    }
+    return reason.trim();
+  }
+
+  private async applyPeriodAdjustment(
+    period: VotingPeriod,
+    type: PeriodAdjustment['type'],
+    reason: string,
+    endDate: Date,
+    userContext: { userId: string; userName: string; userEmail?: string }
+  ): Promise<VotingPeriod> {
+    const adjustment: PeriodAdjustment = {
+      type,
+      reason,
+      previousEndDate: period.endDate,
+      newEndDate: endDate,
+      previousStatus: period.status,
+      adjustedAt: new Date(),
+      adjustedBy: userContext.userId,
+      adjustedByName: userContext.userName,
+    };
+
+    const adjustedPeriod: VotingPeriod = {
+      ...period,
+      endDate,
+      ...(type === 'reopen' && { status: VotingPeriodStatus.ACTIVE }),
+      adjustments: [...(period.adjustments || []), adjustment],
+      updatedAt: adjustment.adjustedAt,
+    };
+    // A later end date can run into the program's next period
+    await this.validatePeriodConsistency(adjustedPeriod);
+
+    const result = await this.votingPeriodRepository.update(period.id, adjustedPeriod);
+
+    try {
+      if (type === 'reopen') {
+        await this.notificationService.sendVotingReopenedNotification(result, reason);
+      } else if (result.status === VotingPeriodStatus.ACTIVE) {
+        await this.notificationService.sendVotingExtendedNotification(
+          result,
+          adjustment.previousEndDate,
+          reason
+        );
+      }
+    } catch (error) {
+      console.error('Failed to send voting period notification:', error);
+    }
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.VOTING_PERIOD,
+          entityId: period.id,
+          action: type === 'reopen' ? AuditAction.REOPEN : AuditAction.EXTEND,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [
+            { field: 'endDate', oldValue: adjustment.previousEndDate, newValue: endDate },
+            ...(type === 'reopen'
+              ? [{ field: 'status', oldValue: period.status, newValue: VotingPeriodStatus.ACTIVE }]
+              : []),
+          ],
+          metadata: { reason },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+
+  async resetVotingPeriod(
+    votingPeriodId: string,
+    userContext?: { userId: string; userName: string; userEmail?: string }
+  ): Promise<{
+    success: boolean;
+    nominationsDeleted: number;
+    votesDeleted: number;
+    winnersDeleted: number;
+    recycleBinEntryId?: string;
+    message: string;
+  }> {
+    const result: {
+      success: boolean;
+      nominationsDeleted: number;
+      votesDeleted: number;
+      winnersDeleted: number;
+      recycleBinEntryId?: string;
+      message: string;
+    } = {
+      success: false,
+      nominationsDeleted: 0,
+      votesDeleted: 0,
+      winnersDeleted: 0,
+      message: '',
+    };
+
+    try {
+      // 1. Verify voting period exists
+      const period = await this.votingPeriodRepository.findById(votingPeriodId);
+      if (!period) {
+        throw new Error('Voting period not found');
+      }
+      if (period.publishedAt) {
+        throw new Error('The results of this voting period are published and cannot be reset');
+      }
+
+      // The period goes back to active, and each program has at most one active period
+      const activePeriod = await this.votingPeriodRepository.findActiveVotingPeriod(
+        ProgramHelper.resolveId(period.programId)
+      );
+      if (activePeriod && activePeriod.id !== votingPeriodId) {
+        throw new Error(`Voting period ${activePeriod.id} is still active`);
+      }
+
+      // 2. Get all nominations, winners and final-round votes for this period
+      const nominations = await this.nominationRepository.findByVotingPeriod(votingPeriodId);
+      const winners = await this.winnerHistoryRepository.findByVotingPeriod(votingPeriodId);
+      const votes = this.voteRepository
+        ? await this.voteRepository.findByVotingPeriod(votingPeriodId)
+        : [];
+
+      // 3. Archive them in the recycle bin so the reset can be undone
+      if (this.recycleBinService) {
+        const entry = await this.recycleBinService.archivePeriodReset(
+          period,
+          { nominations, winners, votes, periodDeleted: false },
+          userContext
+        );
+        result.recycleBinEntryId = entry.id;
+      }
+
+      // 4. Delete all nominations
+      for (const nomination of nominations) {
+        await this.nominationRepository.delete(nomination.id);
+        result.nominationsDeleted++;
+      }
+
+      // 5. Delete all winners and the rewards nobody has acted on yet
+      await this.winnerHistoryRepository.deleteByVotingPeriod(votingPeriodId);
+      result.winnersDeleted = winners.length;
+      if (this.rewardService) {
+        await this.rewardService.removePendingRewards(votingPeriodId);
+      }
+
+      // 6. Delete all final-round votes
+      if (this.voteRepository) {
+        result.votesDeleted = await this.voteRepository.deleteByVotingPeriod(votingPeriodId);
+      }
+
+      // 7. Set period status back to ACTIVE (optional, or keep as is)
+      period.status = VotingPeriodStatus.ACTIVE;
+      delete period.judging;
+      if (period.votingPhase) {
+        delete period.votingPhase.shortlist;
+      }
+      await this.votingPeriodRepository.update(votingPeriodId, period);
+
+      result.success = true;
+      result.message = `Successfully reset voting period ${votingPeriodId}. Deleted ${result.nominationsDeleted} nominations, ${result.votesDeleted} votes and ${result.winnersDeleted} winners.`;
+
+      // 8. Log audit
+      if (this.auditService && userContext) {
+        try {
+          await this.auditService.log({
+            entityType: AuditEntity.VOTING_PERIOD,
+            entityId: votingPeriodId,
+            action: AuditAction.RESET,
+            userId: userContext.userId,
+            userName: userContext.userName,
+            userEmail: userContext.userEmail,
+            metadata: {
+              year: period.year,
+              month: period.month,
+              nominationsDeleted: result.nominationsDeleted,
+              votesDeleted: result.votesDeleted,
+              winnersDeleted: result.winnersDeleted,
+              recycleBinEntryId: result.recycleBinEntryId,
+            },
+          });
+        } catch (error) {
+          console.error('Failed to log audit:', error);
+        }
+      }
+
+      return result;
+    } catch (error) {
+      result.message = error instanceof Error ? error.message : 'Unknown error occurred';
+      return result;
+    }
+  }
+
+  async selectGeneralWinner(
+    votingPeriodId: string,
+    options: {
+      redrawReason?: string;
+      committeeEmployeeId?: string;
+      userContext?: { userId: string; userName: string; userEmail?: string };
+    } = {}
+  ): Promise<VoteResult> {
+    const { redrawReason, committeeEmployeeId, userContext } = options;
+
+    const existingGeneralWinner =
+      await this.winnerHistoryRepository.findGeneralWinnerByPeriod(votingPeriodId);
+    if (existingGeneralWinner && !redrawReason?.trim()) {
+      throw new Error(
+        'A winner has already been drawn for this voting period. A redraw requires a reason'
+      );
+    }
+
+    const period = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!period) {
+      throw new Error('Voting period not found');
+    }
+    if (period.publishedAt) {
+      throw new Error('The results of this voting period are published, the winner cannot change');
+    }
+    // Winners are saved again from the results, which still rank the disqualified employees
+    const periodWinners = await this.winnerHistoryRepository.findByVotingPeriod(votingPeriodId);
+    if (periodWinners.some(w => w.disqualified)) {
+      throw new Error(
+        'A winner of this voting period was disqualified; reset the period to select the winners again'
+      );
+    }
+
+    const strategy = await this.resolveGeneralWinnerStrategy(period);
+    if (strategy === 'committee' && !committeeEmployeeId) {
+      throw new Error(
+        'This voting period uses a committee decision; committeeEmployeeId is required'
+      );
+    }
+
+    // After a judging round the group winners come from the blended judging ranking
+    if (period.judging && !period.judging.results) {
+      throw new Error('The judging round must be completed before selecting the winner');
+    }
+    const cooldown = await this.getWinnerCooldown(period);
+    const cooldownSkips: WinnerCooldownSkip[] = [];
+    let winners: VoteResult[];
+    if (period.judging) {
+      const groupCooldown = cooldown.groupWinPeriods;
+      winners = this.getJudgedWinners(
+        period.judging,
+        await this.getRecentWinners(period, WinnerType.BY_GROUP, groupCooldown),
+        groupCooldown,
+        cooldownSkips
+      );
+    } else {
+      const results = await this.getVotingResults(votingPeriodId);
+      winners = results.winners || [];
+      cooldownSkips.push(...(results.skippedWinners || []));
+    }
+
+    if (winners.length === 0) {
+      throw new Error('No winners found for this voting period');
+    }
+
+    const { selectedWinner, draw } = await this.chooseGeneralWinner(
+      period,
+      strategy,
+      winners,
+      cooldown.generalWinPeriods,
+      cooldownSkips,
+      committeeEmployeeId,
+      redrawReason?.trim()
+    );
+
+    if (draw && existingGeneralWinner) {
+      draw.redrawReason = redrawReason?.trim();
+      draw.redrawnBy = userContext?.userName;
+    }
+
+    // Save winners to history: general winner and all group winners
+    await this.saveWinnersToHistory(
+      votingPeriodId,
+      winners,
+      selectedWinner,
+      strategy,
+      draw,
+      cooldownSkips
+    );
+
+    // Results are computed live: once the period is pending, getVotingResults would return the
+    // close snapshot
+    period.status = VotingPeriodStatus.PENDING;
+    await this.votingPeriodRepository.update(votingPeriodId, period);
+    await this.takeResultsSnapshot(
+      period,
+      'winner_selection',
+      await this.computeVotingResults(period),
+      userContext,
+      selectedWinner.employeeId
+    );
+
+    // Log audit
+    if (this.auditService && existingGeneralWinner && userContext) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.WINNER,
+          entityId: existingGeneralWinner.id,
+          action: AuditAction.REDRAW,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [
+            {
+              field: 'employeeId',
+              oldValue: existingGeneralWinner.employeeId,
+              newValue: selectedWinner.employeeId,
+            },
+          ],
+          metadata: {
+            votingPeriodId,
+            reason: redrawReason?.trim(),
+            selectionStrategy: strategy,
+            seedHash: draw?.seedHash,
+            previousSeedHash: existingGeneralWinner.draw?.seedHash,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return selectedWinner;
+  }
+
+  /**
+   * Pick the general winner among the group winners with the given strategy. Recent general
+   * winners are left out and reported in `cooldownSkips`.
+   */
+  private async chooseGeneralWinner(
+    period: VotingPeriod,
+    strategy: GeneralWinnerStrategy,
+    winners: VoteResult[],
+    generalCooldown: number,
+    cooldownSkips: WinnerCooldownSkip[],
+    committeeEmployeeId?: string,
+    adminReason?: string
+  ): Promise<{ selectedWinner: VoteResult; draw?: WinnerDraw }> {
+    // Recent general winners can still win their group, but the general award goes to another
+    // group winner
+    const recentGeneralWinners = await this.getRecentWinners(
+      period,
+      WinnerType.GENERAL,
+      generalCooldown
+    );
+    const candidates = winners.filter(winner => {
+      const lastWinVotingPeriodId = recentGeneralWinners.get(winner.employeeId);
+      if (lastWinVotingPeriodId) {
+        cooldownSkips.push(
+          this.buildCooldownSkip(winner, WinnerType.GENERAL, lastWinVotingPeriodId, generalCooldown)
+        );
+      }
+      return !lastWinVotingPeriodId;
+    });
+    if (candidates.length === 0) {
+      throw new Error(
+        `Every group winner won the general award within the last ${generalCooldown} periods`
+      );
+    }
+
+    let selectedWinner: VoteResult;
+    let draw: WinnerDraw | undefined;
+
+    switch (strategy) {
+      case 'highest_score': {
+        // Group sizes differ, so compare each winner's share of their own group's nominations
+        selectedWinner = [...candidates].sort(
+          (a, b) =>
+            b.percentage - a.percentage ||
+            (b.compositeScore ?? 0) - (a.compositeScore ?? 0) ||
+            a.employeeId.localeCompare(b.employeeId)
+        )[0];
+        break;
+      }
+      case 'committee': {
+        const chosen = candidates.find(w => w.employeeId === committeeEmployeeId);
+        if (!chosen) {
+          const skip = cooldownSkips.find(
+            s => s.employeeId === committeeEmployeeId && s.winnerType === WinnerType.GENERAL
+          );
+          throw new Error(
+            skip
+              ? `${skip.employeeName} can't win the general award: ${skip.reason}`
+              : 'The committee can only choose among the group winners of this period'
+          );
+        }
+        selectedWinner = chosen;
+        break;
+      }
+      case 'weighted_random':
+      case 'random':
+      default: {
+        // The seed was committed when the period opened; the draw reveals it
+        const { seed, uncommittedSeedReason, ...commitment } = await this.revealDrawSeed(
+          period,
+          adminReason
+        );
+
+        // Candidates are ordered by employeeId so the list doesn't depend on query order
+        const ordered = [...candidates].sort((a, b) => a.employeeId.localeCompare(b.employeeId));
+        const candidateOrder = ordered.map(c => c.employeeId);
+        const weights =
+          strategy === 'weighted_random' ? ordered.map(c => c.nominationCount) : undefined;
+        const index = DrawHelper.drawIndex(seed, candidateOrder, weights);
+        selectedWinner = ordered[index];
+
+        draw = {
+          seed,
+          ...commitment,
+          candidateOrder,
+          ...(weights && { weights }),
+          index,
+          drawnAt: new Date(),
+          ...(uncommittedSeedReason && { uncommittedSeedReason }),
+        };
+
+        // A redraw must not reuse a revealed seed, so the next one is committed right away
+        await this.storeDrawSeed(period);
+        break;
+      }
+    }
+
+    return { selectedWinner, draw };
+  }
+
+  /**
+   * Commit to the seed of the period's next draw, unless one is already committed. Only its
+   * SHA-256 goes on the period; the seed stays hidden until the draw reveals it.
+   */
+  private async commitDrawSeed(period: VotingPeriod): Promise<VotingPeriod> {
+    if (!this.drawSeedRepository) {
+      return period;
+    }
+
+    try {
+      const stored = await this.drawSeedRepository.findByVotingPeriod(period.id);
+      if (stored && stored.seedHash === period.drawCommitment?.seedHash) {
+        return period;
+      }
+      return await this.storeDrawSeed(period);
+    } catch (error) {
+      console.error('Failed to commit the draw seed:', error);
+      return period;
+    }
+  }
+
+  private async storeDrawSeed(period: VotingPeriod): Promise<VotingPeriod> {
+    if (!this.drawSeedRepository) {
+      return period;
+    }
+
+    const seed = DrawHelper.generateSeed();
+    const commitment = { seedHash: DrawHelper.hashSeed(seed), committedAt: new Date() };
+    await this.drawSeedRepository.upsert({
+      id: period.id,
+      votingPeriodId: period.id,
+      seed,
+      ...commitment,
+    });
+    period.drawCommitment = commitment;
+    return await this.votingPeriodRepository.update(period.id, period);
+  }
+
+  /**
+   * The seed committed for the period's draw. A draw without a committed seed can't be verified
+   * as fair, so it only goes ahead when an admin asks for it with a reason, which the draw keeps.
+   */
+  private async revealDrawSeed(
+    period: VotingPeriod,
+    adminReason?: string
+  ): Promise<{
+    seed: string;
+    seedHash: string;
+    committedAt: Date;
+    uncommittedSeedReason?: string;
+  }> {
+    const stored = this.drawSeedRepository
+      ? await this.drawSeedRepository.findByVotingPeriod(period.id)
+      : null;
+    if (stored && stored.seedHash === period.drawCommitment?.seedHash) {
+      return { seed: stored.seed, seedHash: stored.seedHash, committedAt: stored.committedAt };
+    }
+    if (!adminReason) {
+      throw new Error(
+        'No draw seed was committed for this voting period before the draw; an admin must draw with a reason'
+      );
+    }
+
+    const seed = DrawHelper.generateSeed();
+    const commitment = { seedHash: DrawHelper.hashSeed(seed), committedAt: new Date() };
+    period.drawCommitment = commitment;
+    await this.votingPeriodRepository.update(period.id, period);
+    return { seed, ...commitment, uncommittedSeedReason: adminReason };
+  }
+
+  // The period's own strategy wins over the program's and the global setting
+  private async resolveGeneralWinnerStrategy(period: VotingPeriod): Promise<GeneralWinnerStrategy> {
+    return (
+      period.generalWinnerStrategy ??
+      (this.configurationService
+        ? (
+            await this.configurationService.getWinnerSelectionConfig(
+              ProgramHelper.resolveId(period.programId)
+            )
+          ).generalWinnerStrategy
+        : DEFAULT_WINNER_SELECTION_CONFIG.generalWinnerStrategy)
+    );
+  }
+
+  private async getWinnerCooldown(
+    period: VotingPeriod
+  ): Promise<{ groupWinPeriods: number; generalWinPeriods: number }> {
+    const cooldown = this.configurationService
+      ? (
+          await this.configurationService.getEligibilityConfig(
+            ProgramHelper.resolveId(period.programId)
+          )
+        ).winnerCooldown
+      : undefined;
+    return {
+      groupWinPeriods: cooldown?.groupWinPeriods ?? 0,
+      generalWinPeriods: cooldown?.generalWinPeriods ?? 0,
+    };
+  }
+
+  /**
+   * Re-run the general winner draw from the inputs stored on the winner record. With a
+   * winnerId, the draw of that general winner record of the period, e.g. a superseded one.
+   * Like the results, the draw stays hidden until the period is published unless the viewer
+   * may see unpublished results.
+   */
+  async verifyWinnerDraw(
+    votingPeriodId: string,
+    winnerId?: string,
+    includeUnpublished = false
+  ): Promise<DrawVerification> {
+    if (!includeUnpublished) {
+      const votingPeriod = await this.votingPeriodRepository.findById(votingPeriodId);
+      if (!votingPeriod) {
+        throw new Error('Voting period not found');
+      }
+      if (!votingPeriod.publishedAt) {
+        throw new Error('The results of this voting period have not been published yet');
+      }
+    }
+
+    const generalWinner = winnerId
+      ? await this.winnerHistoryRepository.findById(winnerId)
+      : await this.winnerHistoryRepository.findGeneralWinnerByPeriod(votingPeriodId);
+    if (
+      !generalWinner ||
+      generalWinner.votingPeriodId !== votingPeriodId ||
+      generalWinner.winnerType !== WinnerType.GENERAL
+    ) {
+      throw new Error('No general winner found for this voting period');
+    }
+    if (!generalWinner.draw) {
+      throw new Error(
+        generalWinner.selectionStrategy && generalWinner.selectionStrategy !== 'random'
+          ? `This winner was selected by ${generalWinner.selectionStrategy}, not by a draw`
+          : 'This winner was drawn before verifiable draws were introduced'
+      );
+    }
+
+    const { draw } = generalWinner;
+    const recomputedIndex = DrawHelper.drawIndex(draw.seed, draw.candidateOrder, draw.weights);
+    const recomputedEmployeeId = draw.candidateOrder[recomputedIndex];
+    const seedMatchesCommitment = DrawHelper.hashSeed(draw.seed) === draw.seedHash;
+
+    return {
+      votingPeriodId,
+      winnerId: generalWinner.id,
+      winnerEmployeeId: generalWinner.employeeId,
+      superseded: !!generalWinner.superseded,
+      draw,
+      seedMatchesCommitment,
+      recomputedIndex,
+      recomputedEmployeeId,
+      verified:
+        seedMatchesCommitment &&
+        recomputedIndex === draw.index &&
+        recomputedEmployeeId === generalWinner.employeeId,
+    };
+  }
+
+  /**
+   * Disqualify a saved winner, e.g. after leaving the company or breaking policy. The employee's
+   * records stay in the history flagged as disqualified; the next person in the group's stored
+   * ranking is promoted and, if the employee was the general winner, the general winner is
+   * selected again among the remaining group winners.
+   */
+  async disqualifyWinner(
+    winnerId: string,
+    dto: DisqualifyWinnerDto,
+    userContext: { userId: string; userName: string; userEmail?: string }
+  ): Promise<WinnerDisqualificationResult> {
+    const reason = dto.reason?.trim();
+    if (!reason) {
+      throw new Error('A reason is required to disqualify a winner');
+    }
+
+    const winner = await this.winnerHistoryRepository.findById(winnerId);
+    if (!winner) {
+      throw new Error('Winner not found');
+    }
+    if (winner.disqualified) {
+      throw new Error('This winner is already disqualified');
+    }
+    if (winner.superseded) {
+      throw new Error('This winner was replaced by a redraw');
+    }
+    if (winner.isYearlyWinner) {
+      throw new Error('Unmark the yearly award before disqualifying this winner');
+    }
+
+    const period = await this.votingPeriodRepository.findById(winner.votingPeriodId);
+    if (!period) {
+      throw new Error('Voting period not found');
+    }
+
+    // The employee loses both the group and the general award of the period
+    const periodWinners = await this.winnerHistoryRepository.findByVotingPeriod(period.id);
+    const records = periodWinners.filter(
+      w => w.employeeId === winner.employeeId && !w.disqualified && !w.superseded
+    );
+    const groupRecord = records.find(w => w.winnerType === WinnerType.BY_GROUP);
+    const generalRecord = records.find(w => w.winnerType === WinnerType.GENERAL);
+
+    // Group winners and anyone disqualified before can't be promoted
+    const excludedEmployeeIds = new Set(
+      periodWinners
+        .filter(w => w.winnerType === WinnerType.BY_GROUP || w.disqualified)
+        .map(w => w.employeeId)
+    );
+    excludedEmployeeIds.add(winner.employeeId);
+    const promoted = groupRecord
+      ? await this.findNextGroupCandidate(period, groupRecord.votingGroup, excludedEmployeeIds)
+      : null;
+
+    // Select the new general winner before anything is saved, so a failed selection changes nothing
+    let generalSelection:
+      | {
+          selectedWinner: VoteResult;
+          draw?: WinnerDraw;
+          strategy: GeneralWinnerStrategy;
+          cooldownSkips: WinnerCooldownSkip[];
+        }
+      | undefined;
+    if (generalRecord) {
+      const candidates: VoteResult[] = [
+        ...periodWinners.filter(
+          w =>
+            w.winnerType === WinnerType.BY_GROUP &&
+            !w.disqualified &&
+            w.employeeId !== winner.employeeId
+        ),
+        ...(promoted ? [promoted] : []),
+      ];
+      if (candidates.length > 0) {
+        const strategy =
+          generalRecord.selectionStrategy ?? (await this.resolveGeneralWinnerStrategy(period));
+        if (strategy === 'committee' && !dto.committeeEmployeeId) {
+          throw new Error(
+            'This voting period uses a committee decision; committeeEmployeeId is required to replace the general winner'
+          );
+        }
+        const cooldownSkips: WinnerCooldownSkip[] = [];
+        const { selectedWinner, draw } = await this.chooseGeneralWinner(
+          period,
+          strategy,
+          candidates,
+          (await this.getWinnerCooldown(period)).generalWinPeriods,
+          cooldownSkips,
+          dto.committeeEmployeeId,
+          reason
+        );
+        if (draw) {
+          draw.redrawReason = reason;
+          draw.redrawnBy = userContext.userName;
+        }
+        generalSelection = { selectedWinner, draw, strategy, cooldownSkips };
+      }
+    }
+
+    let promotedWinner: WinnerHistory | undefined;
+    if (groupRecord && promoted) {
+      promotedWinner = await this.winnerHistoryRepository.create({
+        ...this.toWinnerHistory(period, promoted, WinnerType.BY_GROUP),
+        replacesWinnerId: groupRecord.id,
+      });
+    }
+
+    let generalWinner: WinnerHistory | undefined;
+    if (generalRecord && generalSelection) {
+      const { selectedWinner, draw, strategy, cooldownSkips } = generalSelection;
+      generalWinner = await this.winnerHistoryRepository.create({
+        ...this.toWinnerHistory(period, selectedWinner, WinnerType.GENERAL),
+        selectionStrategy: strategy,
+        draw,
+        ...(cooldownSkips.length > 0 && { cooldownSkips }),
+        replacesWinnerId: generalRecord.id,
+      });
+    }
+
+    const disqualifiedAt = new Date();
+    const disqualified: WinnerHistory[] = [];
+    for (const record of records) {
+      const replacement = record.winnerType === WinnerType.GENERAL ? generalWinner : promotedWinner;
+      disqualified.push(
+        await this.winnerHistoryRepository.update(record.id, {
+          ...record,
+          disqualified: true,
+          disqualification: {
+            reason,
+            disqualifiedAt,
+            disqualifiedBy: userContext.userId,
+            disqualifiedByName: userContext.userName,
+            ...(replacement && { replacedByWinnerId: replacement.id }),
+          },
+        })
+      );
+    }
+
+    // The disqualified records lose their unfulfilled rewards, their replacements get their own
+    if (this.rewardService) {
+      try {
+        await this.rewardService.removePendingRewards(
+          period.id,
+          disqualified.map(w => w.id)
+        );
+      } catch (error) {
+        console.error('Failed to remove winner rewards:', error);
+      }
+    }
+    await this.assignRewards(
+      [promotedWinner, generalWinner].filter((w): w is WinnerHistory => w !== undefined)
+    );
+
+    // The published announcement named the disqualified employee
+    if (period.publishedAt && generalWinner) {
+      try {
+        await this.notificationService.sendWinnerAnnouncement(generalWinner, period);
+      } catch (error) {
+        console.error('Failed to send winner announcement:', error);
+      }
+    }
 
     // Log audit
-    if (this.auditService && userContext) {
+    if (this.auditService) {
       try {
         await this.auditService.log({
-          entityType: AuditEntity.VOTING_PERIOD,
-          entityId: votingPeriodId,
-          action: AuditAction.CLOSE,
+          entityType: AuditEntity.WINNER,
+          entityId: winnerId,
+          action: AuditAction.DISQUALIFY,
           userId: userContext.userId,
           userName: userContext.userName,
           userEmail: userContext.userEmail,
-          changes: [
-            {
-              field: 'status',
-              oldValue: oldStatus,
-              newValue: VotingPeriodStatus.CLOSED,
-            },
-          ],
+          changes: [{ field: 'disqualified', oldValue: false, newValue: true }],
           metadata: {
-            year: period.year,
-            month: period.month,
-            closedAt: period.endDate,
+            votingPeriodId: period.id,
+            employeeId: winner.employeeId,
+            reason,
+            disqualifiedWinnerIds: disqualified.map(w => w.id),
+            promotedEmployeeId: promotedWinner?.employeeId,
+            generalWinnerEmployeeId: generalWinner?.employeeId,
+            seedHash: generalWinner?.draw?.seedHash,
           },
         });
       } catch (error) {
@@ -878,174 +2805,261 @@ export class VotingService {
       }
     }
 
-    return result;
+    return { disqualified, promotedWinner, generalWinner };
   }
 
-  async resetVotingPeriod(
+  private async saveWinnersToHistory(
     votingPeriodId: string,
-    userContext?: { userId: string; userName: string; userEmail?: string }
-  ): Promise<{
-    success: boolean;
-    nominationsDeleted: number;
-    winnersDeleted: number;
-    message: string;
-  }> {
-    const result = {
-      success: false,
-      nominationsDeleted: 0,
-      winnersDeleted: 0,
-      message: '',
-    };
+    winners: VoteResult[],
+    generalWinner: VoteResult,
+    selectionStrategy: GeneralWinnerStrategy,
+    draw?: WinnerDraw,
+    cooldownSkips: WinnerCooldownSkip[] = []
+  ): Promise<void> {
+    const period = await this.votingPeriodRepository.findById(votingPeriodId);
+    if (!period) {
+      throw new Error('Voting period not found');
+    }
 
-    try {
-      // 1. Verify voting period exists
-      const period = await this.votingPeriodRepository.findById(votingPeriodId);
-      if (!period) {
-        throw new Error('Voting period not found');
+    // A redraw only replaces the general winner: group winners that are still the same keep
+    // their records (and rewards), earlier general winners stay in the history as superseded so
+    // their draws can still be verified
+    const existing = await this.winnerHistoryRepository.findByVotingPeriod(votingPeriodId);
+    const previousGenerals = existing.filter(w => w.winnerType === WinnerType.GENERAL);
+    const keptGroupWinners = new Map<string, WinnerHistory>();
+    const replaced = previousGenerals.filter(w => !w.superseded);
+    for (const winner of existing.filter(w => w.winnerType === WinnerType.BY_GROUP)) {
+      const stillWinner = winners.some(
+        w => w.employeeId === winner.employeeId && w.votingGroup === winner.votingGroup
+      );
+      if (stillWinner && !keptGroupWinners.has(winner.employeeId)) {
+        keptGroupWinners.set(winner.employeeId, winner);
+      } else {
+        await this.winnerHistoryRepository.delete(winner.id);
+        replaced.push(winner);
       }
+    }
+    if (this.rewardService && replaced.length > 0) {
+      await this.rewardService.removePendingRewards(
+        votingPeriodId,
+        replaced.map(w => w.id)
+      );
+    }
 
-      // 2. Get all nominations for this period
-      const nominations = await this.nominationRepository.findByVotingPeriod(votingPeriodId);
+    // Save the general winner (único ganador del período). Several periods can share a month,
+    // so the id comes from the period, which already carries its program.
+    const baseId = `winner-${period.id}-general`;
+    const generalWinnerHistory: WinnerHistory = {
+      ...this.toWinnerHistory(period, generalWinner, WinnerType.GENERAL),
+      id: previousGenerals.length > 0 ? `${baseId}-${previousGenerals.length + 1}` : baseId,
+      selectionStrategy,
+      draw,
+      ...(cooldownSkips.length > 0 && { cooldownSkips }),
+    };
+    const saved = [await this.winnerHistoryRepository.create(generalWinnerHistory)];
+
+    const supersededAt = new Date();
+    for (const previous of previousGenerals.filter(w => !w.superseded)) {
+      await this.winnerHistoryRepository.update(previous.id, {
+        ...previous,
+        superseded: true,
+        supersededAt,
+        supersededByWinnerId: generalWinnerHistory.id,
+      });
+    }
 
-      // 3. Delete all nominations
-      for (const nomination of nominations) {
-        await this.nominationRepository.delete(nomination.id);
-        result.nominationsDeleted++;
+    // Save all group winners (ganadores por departamento/grupo)
+    for (const winner of winners) {
+      if (keptGroupWinners.has(winner.employeeId)) {
+        continue;
       }
+      saved.push(
+        await this.winnerHistoryRepository.create(
+          this.toWinnerHistory(period, winner, WinnerType.BY_GROUP)
+        )
+      );
+    }
 
-      // 4. Get all winners for this period
-      const winners = await this.winnerHistoryRepository.findByVotingPeriod(votingPeriodId);
-
-      // 5. Delete all winners
-      await this.winnerHistoryRepository.deleteByVotingPeriod(votingPeriodId);
-      result.winnersDeleted = winners.length;
-
-      // 6. Set period status back to ACTIVE (optional, or keep as is)
-      period.status = VotingPeriodStatus.ACTIVE;
-      await this.votingPeriodRepository.update(votingPeriodId, period);
-
-      result.success = true;
-      result.message = `Successfully reset voting period ${votingPeriodId}. Deleted ${result.nominationsDeleted} nominations and ${result.winnersDeleted} winners.`;
-
-      // 8. Log audit
-      if (this.auditService && userContext) {
-        try {
-          await this.auditService.log({
-            entityType: AuditEntity.VOTING_PERIOD,
-            entityId: votingPeriodId,
-            action: AuditAction.RESET,
-            userId: userContext.userId,
-            userName: userContext.userName,
-            userEmail: userContext.userEmail,
-            metadata: {
-              year: period.year,
-              month: period.month,
-              nominationsDeleted: result.nominationsDeleted,
-              winnersDeleted: result.winnersDeleted,
-            },
-          });
-        } catch (error) {
-          console.error('Failed to log audit:', error);
-        }
-      }
+    // Only the new records get rewards; the kept ones have theirs already
+    await this.assignRewards(saved);
+  }
 
-      return result;
+  /**
+   * Rewards from the program's catalogue. A failure doesn't undo the winners; the rewards can be
+   * tracked by hand.
+   */
+  private async assignRewards(winners: WinnerHistory[]): Promise<void> {
+    if (!this.rewardService || winners.length === 0) {
+      return;
+    }
+    try {
+      await this.rewardService.assignRewards(winners);
     } catch (error) {
-      result.message = error instanceof Error ? error.message : 'Unknown error occurred';
-      return result;
+      console.error('Failed to assign winner rewards:', error);
     }
   }
 
-  async selectRandomWinnerFromAll(votingPeriodId: string): Promise<VoteResult> {
-    // Get voting results for the period
-    const results = await this.getVotingResults(votingPeriodId);
-
-    // Get all winners (one per voting group)
-    const winners = results.winners || [];
+  private toWinnerHistory(
+    period: VotingPeriod,
+    result: VoteResult,
+    winnerType: WinnerType
+  ): WinnerHistory {
+    return {
+      id: this.generateId(),
+      votingPeriodId: period.id,
+      programId: ProgramHelper.resolveId(period.programId),
+      year: period.year,
+      month: period.month,
+      employeeId: result.employeeId,
+      employeeName: result.employeeName,
+      department: result.department,
+      position: result.position,
+      nominationCount: result.nominationCount,
+      percentage: result.percentage,
+      rank: result.rank,
+      compositeScore: result.compositeScore,
+      isTied: result.isTied,
+      averageCriteria: result.averageCriteria,
+      votingGroup: result.votingGroup,
+      winnerType,
+      ...(period.publishedAt && { publishedAt: period.publishedAt }),
+      createdAt: new Date(),
+    };
+  }
 
-    if (winners.length === 0) {
-      throw new Error('No winners found for this voting period');
+  /**
+   * Ranking of a group as stored when the winners were selected: the judging results for a
+   * judged period, the results snapshot otherwise
+   */
+  private async getStoredGroupRanking(
+    period: VotingPeriod,
+    votingGroup?: string
+  ): Promise<VoteResult[]> {
+    const group = votingGroup || 'default';
+    if (period.judging) {
+      return (period.judging.results || [])
+        .filter(result => (result.votingGroup || 'default') === group)
+        .map(result => ({ ...result, rank: result.finalRank }))
+        .sort((a, b) => a.rank - b.rank);
     }
 
-    // Select one random winner from all group winners
-    const randomIndex = Math.floor(Math.random() * winners.length);
-    const selectedWinner = winners[randomIndex];
+    const results = await this.getVotingResults(period.id);
+    return this.rankForWinners(
+      results.results
+        .filter(result => (result.votingGroup || 'default') === group)
+        .sort((a, b) => a.rank - b.rank)
+    );
+  }
 
-    // Save winners to history: general winner and all group winners
-    await this.saveWinnersToHistory(votingPeriodId, winners, selectedWinner);
+  /**
+   * Next person in the group's ranking who can take a group award: not already a winner or
+   * disqualified in the period, outside the group cooldown and still an active employee
+   */
+  private async findNextGroupCandidate(
+    period: VotingPeriod,
+    votingGroup: string | undefined,
+    excludedEmployeeIds: Set<string>
+  ): Promise<VoteResult | null> {
+    const groupCooldown = (await this.getWinnerCooldown(period)).groupWinPeriods;
+    const recentGroupWinners = await this.getRecentWinners(
+      period,
+      WinnerType.BY_GROUP,
+      groupCooldown
+    );
 
-    const period = await this.votingPeriodRepository.findById(votingPeriodId);
-    if (period) {
-      period.status = VotingPeriodStatus.PENDING;
-      await this.votingPeriodRepository.update(votingPeriodId, period);
+    for (const result of await this.getStoredGroupRanking(period, votingGroup)) {
+      if (excludedEmployeeIds.has(result.employeeId) || recentGroupWinners.has(result.employeeId)) {
+        continue;
+      }
+      const employee = await this.employeeService.getEmployeeById(result.employeeId);
+      if (employee?.isActive) {
+        return result;
+      }
     }
-
-    return selectedWinner;
+    return null;
   }
 
-  private async saveWinnersToHistory(
+  /**
+   * Publish the results of a period. Regular users see the results and winners from now on,
+   * the winners can no longer be redrawn or reset, and the winner announcement goes out.
+   */
+  async publishResults(
     votingPeriodId: string,
-    winners: VoteResult[],
-    generalWinner: VoteResult
-  ): Promise<void> {
+    userContext: { userId: string; userName: string; userEmail?: string }
+  ): Promise<VotingPeriod> {
     const period = await this.votingPeriodRepository.findById(votingPeriodId);
     if (!period) {
       throw new Error('Voting period not found');
     }
+    if (period.publishedAt) {
+      throw new Error('The results of this voting period are already published');
+    }
 
-    // Delete existing winners for this period (in case of re-calculation)
-    await this.winnerHistoryRepository.deleteByVotingPeriod(votingPeriodId);
-
-    // Save the general winner (único ganador del período)
-    const generalWinnerHistory: WinnerHistory = {
-      id: `winner-${period.year}-${period.month}-general`,
-      votingPeriodId,
-      year: period.year,
-      month: period.month,
-      employeeId: generalWinner.employeeId,
-      employeeName: generalWinner.employeeName,
-      department: generalWinner.department,
-      position: generalWinner.position,
-      nominationCount: generalWinner.nominationCount,
-      percentage: generalWinner.percentage,
-      rank: generalWinner.rank,
-      averageCriteria: generalWinner.averageCriteria,
-      votingGroup: generalWinner.votingGroup,
-      winnerType: WinnerType.GENERAL,
-      createdAt: new Date(),
-    };
-    await this.winnerHistoryRepository.create(generalWinnerHistory);
+    const generalWinner =
+      await this.winnerHistoryRepository.findGeneralWinnerByPeriod(votingPeriodId);
+    if (!generalWinner) {
+      throw new Error('Select the general winner before publishing the results');
+    }
 
-    // Save all group winners (ganadores por departamento/grupo)
+    const publishedAt = new Date();
+    const winners = await this.winnerHistoryRepository.findByVotingPeriod(votingPeriodId);
     for (const winner of winners) {
-      const groupWinnerHistory: WinnerHistory = {
-        id: this.generateId(),
-        votingPeriodId,
-        year: period.year,
-        month: period.month,
-        employeeId: winner.employeeId,
-        employeeName: winner.employeeName,
-        department: winner.department,
-        position: winner.position,
-        nominationCount: winner.nominationCount,
-        percentage: winner.percentage,
-        rank: winner.rank,
-        averageCriteria: winner.averageCriteria,
-        votingGroup: winner.votingGroup,
-        winnerType: WinnerType.BY_GROUP,
-        createdAt: new Date(),
-      };
+      await this.winnerHistoryRepository.update(winner.id, { ...winner, publishedAt });
+    }
 
-      await this.winnerHistoryRepository.create(groupWinnerHistory);
+    const result = await this.votingPeriodRepository.update(votingPeriodId, {
+      ...period,
+      publishedAt,
+      publishedBy: userContext.userId,
+      publishedByName: userContext.userName,
+      updatedAt: publishedAt,
+    });
+
+    try {
+      await this.notificationService.sendWinnerAnnouncement(generalWinner, result);
+    } catch (error) {
+      console.error('Failed to send winner announcement:', error);
+    }
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.VOTING_PERIOD,
+          entityId: votingPeriodId,
+          action: AuditAction.PUBLISH,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          metadata: {
+            year: period.year,
+            month: period.month,
+            generalWinnerEmployeeId: generalWinner.employeeId,
+            winnersPublished: winners.length,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
     }
+
+    return result;
   }
 
-  async getWinnerHistory(): Promise<WinnerHistory[]> {
-    return await this.winnerHistoryRepository.findAll();
+  async getWinnerHistory(programId?: string, includeUnpublished = false): Promise<WinnerHistory[]> {
+    const winners = await this.winnerHistoryRepository.findAll(ProgramHelper.resolveId(programId));
+    return winners.filter(w => includeUnpublished || w.publishedAt);
   }
 
-  async getWinnerHistoryByYear(year: number, winnerType?: string): Promise<WinnerHistory[]> {
-    const allWinners = await this.winnerHistoryRepository.findByYear(year);
+  async getWinnerHistoryByYear(
+    year: number,
+    winnerType?: string,
+    programId?: string,
+    includeUnpublished = false
+  ): Promise<WinnerHistory[]> {
+    const allWinners = (
+      await this.winnerHistoryRepository.findByYear(year, ProgramHelper.resolveId(programId))
+    ).filter(w => includeUnpublished || w.publishedAt);
 
     if (!winnerType || winnerType === 'all') {
       return allWinners;
@@ -1057,9 +3071,17 @@ export class VotingService {
   async getWinnerHistoryByYearAndMonth(
     year: number,
     month: number,
-    winnerType?: string
+    winnerType?: string,
+    programId?: string,
+    includeUnpublished = false
   ): Promise<WinnerHistory[]> {
-    const allWinners = await this.winnerHistoryRepository.findByYearAndMonth(year, month);
+    const allWinners = (
+      await this.winnerHistoryRepository.findByYearAndMonth(
+        year,
+        month,
+        ProgramHelper.resolveId(programId)
+      )
+    ).filter(w => includeUnpublished || w.publishedAt);
 
     if (!winnerType || winnerType === 'all') {
       return allWinners;
@@ -1068,6 +3090,10 @@ export class VotingService {
     return allWinners.filter(w => w.winnerType === winnerType);
   }
 
+  async hasGeneralWinner(votingPeriodId: string): Promise<boolean> {
+    return !!(await this.winnerHistoryRepository.findGeneralWinnerByPeriod(votingPeriodId));
+  }
+
   async getWinnerByTypeAndPeriod(
     votingPeriodId: string,
     winnerType: 'general' | 'by_group'
@@ -1089,9 +3115,15 @@ export class VotingService {
     }
   }
 
-  async getCurrentWinner(): Promise<WinnerHistory | null> {
-    // 1. Get all recent voting periods (sorted by most recent first)
-    const recentPeriods = await this.votingPeriodRepository.findRecentPeriods();
+  async getCurrentWinner(
+    programId?: string,
+    includeUnpublished = false
+  ): Promise<WinnerHistory | null> {
+    // 1. Get all recent voting periods of the program (sorted by most recent first)
+    const recentPeriods = await this.votingPeriodRepository.findRecentPeriods(
+      undefined,
+      ProgramHelper.resolveId(programId)
+    );
 
     if (recentPeriods.length === 0) {
       return null;
@@ -1102,7 +3134,10 @@ export class VotingService {
     let recentWinner: WinnerHistory | null = null;
 
     for (const period of recentPeriods) {
-      if (period.status === VotingPeriodStatus.CLOSED) {
+      if (
+        period.status === VotingPeriodStatus.CLOSED &&
+        (includeUnpublished || period.publishedAt)
+      ) {
         closedPeriod = period;
         recentWinner = await this.winnerHistoryRepository.findGeneralWinnerByPeriod(period.id);
         if (recentWinner) break; // Exit loop if found
@@ -1112,20 +3147,21 @@ export class VotingService {
     return recentWinner;
   }
 
-  async getYearlyWinners(): Promise<WinnerHistory[]> {
-    return await this.winnerHistoryRepository.findYearlyWinners();
-  }
-
-  async getYearlyWinnerByYear(year: number): Promise<WinnerHistory | null> {
-    return await this.winnerHistoryRepository.findYearlyWinnerByYear(year);
-  }
-
-  async markWinnerAsYearly(winnerId: string): Promise<WinnerHistory> {
-    return await this.winnerHistoryRepository.markAsYearlyWinner(winnerId);
+  // The yearly award belongs to the default program
+  async getYearlyWinners(includeUnpublished = false): Promise<WinnerHistory[]> {
+    const winners = await this.winnerHistoryRepository.findYearlyWinners(DEFAULT_PROGRAM_ID);
+    return winners.filter(w => includeUnpublished || w.publishedAt);
   }
 
-  async unmarkWinnerAsYearly(winnerId: string): Promise<WinnerHistory> {
-    return await this.winnerHistoryRepository.unmarkAsYearlyWinner(winnerId);
+  async getYearlyWinnerByYear(
+    year: number,
+    includeUnpublished = false
+  ): Promise<WinnerHistory | null> {
+    const winner = await this.winnerHistoryRepository.findYearlyWinnerByYear(
+      year,
+      DEFAULT_PROGRAM_ID
+    );
+    return winner && (includeUnpublished || winner.publishedAt) ? winner : null;
   }
 
   async getEmployeeResults(
@@ -1174,9 +3210,13 @@ export class VotingService {
   /**
    * Create bulk nominations for testing purposes
    * @param count Number of nominations to create
+   * @param programId Program whose active period gets the nominations, the default one if omitted
    * @returns Summary of created nominations
    */
-  async createBulkNominationsForTesting(count: number): Promise<{
+  async createBulkNominationsForTesting(
+    count: number,
+    programId?: string
+  ): Promise<{
     success: boolean;
     created: number;
     failed: number;
@@ -1193,7 +3233,7 @@ export class VotingService {
 
     try {
       // Get current voting period
-      const currentPeriod = await this.getCurrentVotingPeriod();
+      const currentPeriod = await this.getCurrentVotingPeriod(programId);
       if (!currentPeriod) {
         result.errors.push('No active voting period found');
         return result;
@@ -1223,15 +3263,12 @@ export class VotingService {
             nominee = allEmployees[Math.floor(Math.random() * allEmployees.length)];
           } while (nominee.id === nominator.id);
 
-          // Random criteria scores (1-5)
-          const criteria: Criteria = {
-            communication: Math.floor(Math.random() * 5) + 1,
-            innovation: Math.floor(Math.random() * 5) + 1,
-            leadership: Math.floor(Math.random() * 5) + 1,
-            problemSolving: Math.floor(Math.random() * 5) + 1,
-            reliability: Math.floor(Math.random() * 5) + 1,
-            teamwork: Math.floor(Math.random() * 5) + 1,
-          };
+          // Random criteria scores within each criterion's scale
+          const criteria: Criteria = {};
+          for (const definition of currentPeriod.criteria ?? DEFAULT_CRITERIA) {
+            criteria[definition.key] =
+              definition.min + Math.floor(Math.random() * (definition.max - definition.min + 1));
+          }
 
           const reasons = [
             'Outstanding performance and dedication to the team',
@@ -1254,6 +3291,7 @@ export class VotingService {
             reason: reasons[Math.floor(Math.random() * reasons.length)],
             criteria,
             votingPeriodId: currentPeriod.id,
+            programId: ProgramHelper.resolveId(currentPeriod.programId),
             createdAt: new Date(),
           };
 
@@ -1332,6 +3370,26 @@ export class VotingService {
     }
 
     await this.winnerHistoryRepository.deleteByVotingPeriod(votingPeriodId);
+    if (this.rewardService) {
+      await this.rewardService.removePendingRewards(votingPeriodId);
+    }
+
+    // Everything else kept per period would be left pointing at a period that no longer exists
+    const votesDeleted = this.voteRepository
+      ? await this.voteRepository.deleteByVotingPeriod(votingPeriodId)
+      : 0;
+    if (this.judgeScoreRepository) {
+      await this.judgeScoreRepository.deleteByVotingPeriod(votingPeriodId);
+    }
+    if (this.resultsSnapshotRepository) {
+      await this.resultsSnapshotRepository.deleteByVotingPeriod(votingPeriodId);
+    }
+    if (this.membershipService) {
+      await this.membershipService.deleteMembership(votingPeriodId);
+    }
+    if (this.drawSeedRepository) {
+      await this.drawSeedRepository.deleteByVotingPeriod(votingPeriodId);
+    }
 
     // Delete the voting period
     await this.votingPeriodRepository.delete(votingPeriodId);
@@ -1352,6 +3410,7 @@ export class VotingService {
             status: period.status,
             nominationsDeleted: nominations.length,
             winnersDeleted: winners.length,
+            votesDeleted,
           },
         });
       } catch (error) {
@@ -1361,27 +3420,40 @@ export class VotingService {
 
     return {
       success: true,
-      message: `Voting period deleted successfully. Removed ${nominations.length} nominations and ${winners.length} winners.`,
+      message: `Voting period deleted successfully. Removed ${nominations.length} nominations, ${votesDeleted} votes and ${winners.length} winners.`,
     };
   }
 
   async createVotingPeriod(
     data: {
+      programId?: string;
       year: number;
       month: number;
       startDate: Date;
       endDate: Date;
       description?: string;
       status?: VotingPeriodStatus;
+      generalWinnerStrategy?: GeneralWinnerStrategy;
+      votingPhase?: VotingPhaseDto;
     },
     userContext?: { userId: string; userName: string; userEmail?: string }
   ): Promise<VotingPeriod> {
-    // Validate that no period exists for this year/month combination
+    this.validateGeneralWinnerStrategy(data.generalWinnerStrategy);
+    const programId = ProgramHelper.resolveId(data.programId);
+    if (this.programService) {
+      await this.programService.requireActiveProgram(programId);
+    }
+    const votingPhase = data.votingPhase
+      ? this.buildVotingPhase(data.votingPhase, data.startDate, data.endDate)
+      : undefined;
+
+    // Validate that no period exists for this year/month combination in the program
     const month = data.month < 10 ? `0${data.month}` : data.month;
     const yearMonth = `${data.year}-${month}`;
     const existingPeriod = await this.votingPeriodRepository.findByYearAndMonth(
       data.year,
-      data.month
+      data.month,
+      programId
     );
 
     if (existingPeriod) {
@@ -1390,18 +3462,29 @@ export class VotingService {
 
     // Create new voting period
     const newPeriod: VotingPeriod = {
-      id: `vp-${yearMonth}`,
+      id: ProgramHelper.scopedId('vp', programId, yearMonth),
+      programId,
       year: data.year,
       month: data.month,
       startDate: data.startDate,
       endDate: data.endDate,
       status: data.status || VotingPeriodStatus.ACTIVE,
+      ...(data.generalWinnerStrategy && { generalWinnerStrategy: data.generalWinnerStrategy }),
+      ...(votingPhase && { votingPhase }),
+      criteria: this.configurationService
+        ? await this.configurationService.getCriteriaForYear(data.year, programId)
+        : DEFAULT_CRITERIA,
       createdAt: new Date(),
       updatedAt: new Date(),
       ...(data.description && { description: data.description }),
     };
+    await this.validatePeriodConsistency(newPeriod);
 
-    const createdPeriod = await this.votingPeriodRepository.create(newPeriod);
+    let createdPeriod = await this.votingPeriodRepository.create(newPeriod);
+    if (createdPeriod.status === VotingPeriodStatus.ACTIVE) {
+      await this.captureMembership(createdPeriod, userContext);
+      createdPeriod = await this.commitDrawSeed(createdPeriod);
+    }
 
     // Log audit
     if (this.auditService && userContext) {
@@ -1414,6 +3497,7 @@ export class VotingService {
           userName: userContext.userName,
           userEmail: userContext.userEmail,
           metadata: {
+            programId,
             year: createdPeriod.year,
             month: createdPeriod.month,
             status: createdPeriod.status,
@@ -1429,10 +3513,181 @@ export class VotingService {
     return createdPeriod;
   }
 
+  /**
+   * Create the next voting periods from the period template. Periods that already exist are
+   * skipped, so running it twice doesn't create duplicates.
+   */
+  async generateVotingPeriods(
+    data: GenerateVotingPeriodsDto,
+    userContext?: { userId: string; userName: string; userEmail?: string }
+  ): Promise<{ created: VotingPeriod[]; skipped: { id: string; reason: string }[] }> {
+    if (!this.configurationService) {
+      throw new Error('ConfigurationService is required to generate voting periods');
+    }
+    if (!Number.isInteger(data.count) || data.count < 1 || data.count > MAX_GENERATED_PERIODS) {
+      throw new Error(`count must be an integer between 1 and ${MAX_GENERATED_PERIODS}`);
+    }
+
+    const status = data.status ?? VotingPeriodStatus.PENDING;
+    const allowedStatuses = [
+      VotingPeriodStatus.PENDING,
+      VotingPeriodStatus.ACTIVE,
+      VotingPeriodStatus.CLOSED,
+    ];
+    if (!allowedStatuses.includes(status)) {
+      throw new Error(`status must be one of: ${allowedStatuses.join(', ')}`);
+    }
+
+    const programId = ProgramHelper.resolveId(data.programId);
+    if (this.programService) {
+      await this.programService.requireActiveProgram(programId);
+    }
+    const template = await this.configurationService.getPeriodTemplateConfig();
+    const calendar = await this.configurationService.getCalendarConfig();
+    const { timezone } = calendar;
+
+    let start: Date;
+    if (data.startDate) {
+      const from = new Date(data.startDate);
+      if (isNaN(from.getTime())) {
+        throw new Error('startDate must be a valid date');
+      }
+      start = PeriodTemplateHelper.alignStart(template, from, timezone);
+    } else {
+      // Continue with the first start date after the latest period
+      const latest = await this.votingPeriodRepository.findLatestPeriod(programId);
+      const latestStart = latest ? new Date(latest.startDate) : new Date();
+      start = PeriodTemplateHelper.alignStart(template, latestStart, timezone);
+      if (latest && start <= latestStart) {
+        start = PeriodTemplateHelper.nextStart(template, start, timezone);
+      }
+    }
+
+    const created: VotingPeriod[] = [];
+    const skipped: { id: string; reason: string }[] = [];
+    const periods = await this.votingPeriodRepository.findAll(programId);
+
+    for (let i = 0; i < data.count; i++) {
+      const window = PeriodTemplateHelper.buildWindow(template, start, programId, calendar);
+      start = PeriodTemplateHelper.nextStart(template, start, timezone);
+
+      // A previous end moved to the next business day pushes this period's start back
+      if (calendar.shiftEndToBusinessDay) {
+        const previousEnd = Math.max(
+          0,
+          ...periods
+            .filter(period => new Date(period.startDate) < window.startDate)
+            .map(period => new Date(period.endDate).getTime())
+        );
+        if (previousEnd >= window.startDate.getTime() && previousEnd < window.endDate.getTime()) {
+          window.startDate = new Date(previousEnd + 1);
+        }
+      }
+
+      // Monthly periods created by hand may use another id, so also look them up by year and month
+      const existingPeriod =
+        (await this.votingPeriodRepository.findById(window.id)) ||
+        (template.cadence === 'monthly'
+          ? await this.votingPeriodRepository.findByYearAndMonth(
+              window.year,
+              window.month,
+              programId
+            )
+          : null);
+      if (existingPeriod) {
+        skipped.push({ id: existingPeriod.id, reason: 'Voting period already exists' });
+        continue;
+      }
+
+      const votingPhase = template.votingPhaseDays
+        ? this.buildVotingPhase(
+            {
+              startDate: new Date(
+                window.endDate.getTime() + 1 - template.votingPhaseDays * 24 * 60 * 60 * 1000
+              ),
+              endDate: window.endDate,
+              shortlistSize: template.shortlistSize,
+            },
+            window.startDate,
+            window.endDate
+          )
+        : undefined;
+
+      const newPeriod: VotingPeriod = {
+        ...window,
+        programId,
+        cadence: template.cadence,
+        status,
+        criteria: await this.configurationService.getCriteriaForYear(window.year, programId),
+        ...(votingPhase && { votingPhase }),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      // A window that clashes with an existing period (or one created in this run) is skipped
+      const issues = PeriodConsistencyHelper.validate(newPeriod, periods, timezone);
+      if (issues.length > 0) {
+        skipped.push({ id: newPeriod.id, reason: issues.map(issue => issue.message).join('; ') });
+        continue;
+      }
+
+      let createdPeriod = await this.votingPeriodRepository.create(newPeriod);
+      if (createdPeriod.status === VotingPeriodStatus.ACTIVE) {
+        await this.captureMembership(createdPeriod, userContext);
+        createdPeriod = await this.commitDrawSeed(createdPeriod);
+      }
+      created.push(createdPeriod);
+      periods.push(createdPeriod);
+
+      // Log audit
+      if (this.auditService && userContext) {
+        try {
+          await this.auditService.log({
+            entityType: AuditEntity.VOTING_PERIOD,
+            entityId: createdPeriod.id,
+            action: AuditAction.CREATE,
+            userId: userContext.userId,
+            userName: userContext.userName,
+            userEmail: userContext.userEmail,
+            metadata: {
+              programId,
+              year: createdPeriod.year,
+              month: createdPeriod.month,
+              status: createdPeriod.status,
+              startDate: createdPeriod.startDate,
+              endDate: createdPeriod.endDate,
+              cadence: template.cadence,
+              generatedFromTemplate: true,
+            },
+          });
+        } catch (error) {
+          console.error('Failed to log audit:', error);
+        }
+      }
+    }
+
+    return { created, skipped };
+  }
+
+  /**
+   * An employee's nominations in a period, hidden like the results until the period is published
+   * unless the viewer may see unpublished results
+   */
   async getNominationsByEmployeeId(
     employeeId: string,
-    votingPeriodId: string
+    votingPeriodId: string,
+    includeUnpublished = false
   ): Promise<Nomination[]> {
+    if (!includeUnpublished) {
+      const votingPeriod = await this.votingPeriodRepository.findById(votingPeriodId);
+      if (!votingPeriod) {
+        throw new Error('Voting period not found');
+      }
+      if (!votingPeriod.publishedAt) {
+        throw new Error('The results of this voting period have not been published yet');
+      }
+    }
+
     return await this.nominationRepository.findByPeriodAndEmployeeId(votingPeriodId, employeeId);
   }
 }
@@ -0,0 +1,522 @@
+import {
+  MAX_RANKED_CHOICES,
+  RankedBallot,
+  YearlyCandidate,
+  YearlyRunoff,
+} from '../../../common/models/RankedBallot';
+import {
+  YearlyAward,
+  YearlyAwardDecision,
+  YearlyAwardStatus,
+} from '../../../common/models/YearlyAward';
+import { WinnerHistory, WinnerType } from '../../../common/models/WinnerHistory';
+import { DEFAULT_PROGRAM_ID } from '../../../common/models/Program';
+import { AuditService } from '../../../common/services/AuditService';
+import { AuditEntity, AuditAction } from '../../../common/models/AuditLog';
+import { InstantRunoffHelper } from '../../../common/utils/InstantRunoffHelper';
+import { ProgramHelper } from '../../../common/utils/ProgramHelper';
+import { CastRankedBallotDto } from '../dto/ranked-ballot.dto';
+import { FinalizeYearlyAwardDto, OpenYearlyAwardDto } from '../dto/yearly-award.dto';
+import { WinnerHistoryRepository } from '../repositories/WinnerHistoryRepository';
+import { RankedBallotRepository } from '../repositories/RankedBallotRepository';
+import { YearlyAwardRepository } from '../repositories/YearlyAwardRepository';
+import { ValidationService } from './ValidationService';
+import { ConfigurationService } from '../../configuration/configuration.service';
+import {
+  DEFAULT_YEARLY_AWARD_CONFIG,
+  YearlyCandidatePool,
+} from '../../configuration/models/yearly-award-config.model';
+
+type UserContext = { userId: string; userName: string; userEmail?: string };
+
+export class YearlyAwardService {
+  constructor(
+    private winnerHistoryRepository: WinnerHistoryRepository,
+    private rankedBallotRepository: RankedBallotRepository,
+    private yearlyAwardRepository: YearlyAwardRepository,
+    private validationService: ValidationService,
+    private auditService?: AuditService,
+    private configurationService?: ConfigurationService
+  ) {}
+
+  async getAward(year: number): Promise<YearlyAward | null> {
+    return await this.yearlyAwardRepository.findById(this.getAwardId(year));
+  }
+
+  /**
+   * Open the yearly award: the candidates are fixed from the year's winners and, for the vote
+   * methods, ballots are taken from now on
+   */
+  async openAward(
+    year: number,
+    dto: OpenYearlyAwardDto,
+    userContext: UserContext
+  ): Promise<YearlyAward> {
+    const config = this.configurationService
+      ? await this.configurationService.getYearlyAwardConfig()
+      : DEFAULT_YEARLY_AWARD_CONFIG;
+    this.configurationService?.validateYearlyAwardConfig(dto);
+    const candidatePool = dto.candidatePool ?? config.candidatePool;
+    const selectionMethod = dto.selectionMethod ?? config.selectionMethod;
+
+    if (await this.winnerHistoryRepository.findYearlyWinnerByYear(year, DEFAULT_PROGRAM_ID)) {
+      throw new Error(`The ${year} yearly winner has already been marked`);
+    }
+
+    const candidates = this.buildCandidates(await this.getPoolWinners(year, candidatePool));
+    if (candidates.length === 0) {
+      throw new Error(`There are no ${candidatePool} winners in ${year} to choose from`);
+    }
+
+    const award = await this.createAward(
+      {
+        id: this.getAwardId(year),
+        year,
+        candidatePool,
+        selectionMethod,
+        status: YearlyAwardStatus.OPEN,
+        candidates,
+        openedAt: new Date(),
+        openedBy: userContext.userId,
+        openedByName: userContext.userName,
+      },
+      `The ${year} yearly award has already been opened`
+    );
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.YEARLY_AWARD,
+          entityId: award.id,
+          action: AuditAction.CREATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          metadata: {
+            year,
+            candidatePool,
+            selectionMethod,
+            candidates: candidates.length,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return award;
+  }
+
+  /**
+   * Candidates of the open award. Before it is opened, a preview from the configured pool.
+   */
+  async getCandidates(year: number): Promise<YearlyCandidate[]> {
+    const award = await this.getAward(year);
+    if (award) {
+      return award.candidates;
+    }
+
+    const config = this.configurationService
+      ? await this.configurationService.getYearlyAwardConfig()
+      : DEFAULT_YEARLY_AWARD_CONFIG;
+    return this.buildCandidates(await this.getPoolWinners(year, config.candidatePool));
+  }
+
+  async castBallot(
+    year: number,
+    ballotData: CastRankedBallotDto,
+    voter: { userId: string; userName: string; isCommitteeMember?: boolean }
+  ): Promise<RankedBallot> {
+    const award = await this.requireOpenAward(year);
+    if (award.selectionMethod === 'highest_nominations') {
+      throw new Error(
+        `The ${year} yearly award goes to the most nominated candidate, no ballots are taken`
+      );
+    }
+    const committee = award.selectionMethod === 'committee_vote';
+    if (committee && !voter.isCommitteeMember) {
+      throw new Error(`Only committee members can vote for the ${year} yearly award`);
+    }
+
+    const rankings = ballotData.rankings;
+    if (!Array.isArray(rankings) || rankings.length === 0) {
+      throw new Error('rankings must list at least one candidate');
+    }
+    if (rankings.length > MAX_RANKED_CHOICES) {
+      throw new Error(`You can rank at most ${MAX_RANKED_CHOICES} candidates`);
+    }
+    if (new Set(rankings).size !== rankings.length) {
+      throw new Error('Each candidate can only be ranked once');
+    }
+
+    const candidateIds = new Set(award.candidates.map(c => c.employeeId));
+    const unknown = rankings.find(employeeId => !candidateIds.has(employeeId));
+    if (unknown) {
+      throw new Error(`${unknown} is not a candidate for the ${year} yearly award`);
+    }
+
+    const voterEmployee = await this.validationService.validateBallotVoter(
+      voter.userName,
+      undefined,
+      DEFAULT_PROGRAM_ID
+    );
+    if (rankings.includes(voterEmployee.id)) {
+      throw new Error('You cannot vote for yourself');
+    }
+
+    const existingBallot = await this.rankedBallotRepository.findByVoterAndYear(voter.userId, year);
+    if (existingBallot) {
+      throw new Error(`You have already voted for the ${year} yearly award`);
+    }
+
+    const ballot: RankedBallot = {
+      // One ballot per voter and year, a concurrent second ballot fails on the duplicate id
+      id: committee ? `ranked-committee-${year}-${voter.userId}` : `ranked-${year}-${voter.userId}`,
+      year,
+      voterUserId: voter.userId,
+      voterUserName: voter.userName,
+      ...(committee && { committee }),
+      rankings,
+      createdAt: new Date(),
+    };
+
+    return await this.rankedBallotRepository.create(ballot);
+  }
+
+  async getMyBallot(year: number, voterUserId: string): Promise<RankedBallot | null> {
+    return await this.rankedBallotRepository.findByVoterAndYear(voterUserId, year);
+  }
+
+  /**
+   * Run the instant-runoff tally over the year's ballots, round by round. A committee vote only
+   * counts committee ballots; otherwise only employee ballots count.
+   */
+  async getRunoff(year: number): Promise<YearlyRunoff> {
+    const [award, candidates, ballots] = await Promise.all([
+      this.getAward(year),
+      this.getCandidates(year),
+      this.rankedBallotRepository.findByYear(year),
+    ]);
+    const committee = award?.selectionMethod === 'committee_vote';
+
+    const result = InstantRunoffHelper.tally(
+      candidates.map(c => c.employeeId),
+      ballots.filter(b => !!b.committee === committee).map(b => b.rankings)
+    );
+
+    return { year, ...result, candidateDetails: candidates };
+  }
+
+  /**
+   * Decide the open award with its selection method and flag the winner's latest win of the
+   * year as the yearly winner. A tie needs the admin to pick among the tied candidates.
+   */
+  async finalizeAward(
+    year: number,
+    dto: FinalizeYearlyAwardDto,
+    userContext: UserContext
+  ): Promise<YearlyAwardDecision> {
+    const award = await this.requireOpenAward(year);
+
+    let runoff: YearlyRunoff | undefined;
+    let leaders: string[];
+    if (award.selectionMethod === 'highest_nominations') {
+      const most = Math.max(...award.candidates.map(c => c.totalNominations));
+      leaders = award.candidates.filter(c => c.totalNominations === most).map(c => c.employeeId);
+    } else {
+      runoff = await this.getRunoff(year);
+      if (runoff.totalBallots === 0) {
+        throw new Error(`No ballots have been cast for the ${year} yearly award`);
+      }
+      if (runoff.winner) {
+        leaders = [runoff.winner];
+      } else {
+        const lastRound = runoff.rounds[runoff.rounds.length - 1];
+        const most = Math.max(...Object.values(lastRound.tallies));
+        leaders = Object.keys(lastRound.tallies).filter(c => lastRound.tallies[c] === most);
+      }
+    }
+
+    let winnerEmployeeId = leaders[0];
+    if (leaders.length > 1) {
+      if (!dto.tieBreakEmployeeId) {
+        throw new Error(
+          `The ${year} yearly award is tied between ${leaders.join(', ')}; tieBreakEmployeeId is required`
+        );
+      }
+      if (!leaders.includes(dto.tieBreakEmployeeId)) {
+        throw new Error('The tie can only be broken in favour of one of the tied candidates');
+      }
+      winnerEmployeeId = dto.tieBreakEmployeeId;
+    }
+
+    // Flag the employee's latest win of the year in the pool
+    const winnerRecord = (await this.getPoolWinners(year, award.candidatePool))
+      .filter(w => w.employeeId === winnerEmployeeId)
+      .sort((a, b) => b.month - a.month)[0];
+    if (!winnerRecord) {
+      throw new Error(`${winnerEmployeeId} no longer has a ${award.candidatePool} win in ${year}`);
+    }
+
+    const decided = await this.decideAward(
+      winnerRecord.id,
+      {
+        ...award,
+        status: YearlyAwardStatus.DECIDED,
+        winnerRecordId: winnerRecord.id,
+        winnerEmployeeId,
+        ...(leaders.length > 1 && { tieBrokenBy: userContext.userId }),
+        decidedAt: new Date(),
+        decidedBy: userContext.userId,
+        decidedByName: userContext.userName,
+      },
+      award
+    );
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.YEARLY_AWARD,
+          entityId: decided.id,
+          action: AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [{ field: 'winnerEmployeeId', oldValue: null, newValue: winnerEmployeeId }],
+          metadata: {
+            year,
+            method: award.selectionMethod,
+            winnerRecordId: winnerRecord.id,
+            totalBallots: runoff?.totalBallots,
+            rounds: runoff?.rounds.length,
+            tiedCandidates: leaders.length > 1 ? leaders : undefined,
+          },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return { award: decided, runoff };
+  }
+
+  /**
+   * Flag a winner as the yearly winner by hand, outside the workflow. It takes the year's award
+   * slot, so it fails if the year already has an award or a yearly winner.
+   */
+  async markWinner(winnerId: string, userContext: UserContext): Promise<WinnerHistory> {
+    const winner = await this.winnerHistoryRepository.findById(winnerId);
+    if (!winner) {
+      throw new Error('Winner not found');
+    }
+    if (winner.disqualified) {
+      throw new Error('A disqualified winner cannot be the yearly winner');
+    }
+    if (winner.superseded) {
+      throw new Error('A winner replaced by a redraw cannot be the yearly winner');
+    }
+    // The yearly award belongs to the default program, like its candidate pool
+    if (ProgramHelper.resolveId(winner.programId) !== DEFAULT_PROGRAM_ID) {
+      throw new Error('Only winners of the default program can be the yearly winner');
+    }
+    if (
+      await this.winnerHistoryRepository.findYearlyWinnerByYear(winner.year, DEFAULT_PROGRAM_ID)
+    ) {
+      throw new Error(`The ${winner.year} yearly winner has already been marked; unmark it first`);
+    }
+
+    const now = new Date();
+    const award = await this.createAward(
+      {
+        id: this.getAwardId(winner.year),
+        year: winner.year,
+        candidatePool: winner.winnerType === WinnerType.GENERAL ? 'general' : 'group',
+        selectionMethod: 'manual',
+        status: YearlyAwardStatus.DECIDED,
+        candidates: [],
+        openedAt: now,
+        openedBy: userContext.userId,
+        openedByName: userContext.userName,
+        winnerRecordId: winner.id,
+        winnerEmployeeId: winner.employeeId,
+        decidedAt: now,
+        decidedBy: userContext.userId,
+        decidedByName: userContext.userName,
+      },
+      `The ${winner.year} yearly award is handled by the yearly award workflow`
+    );
+
+    let yearlyWinner: WinnerHistory;
+    try {
+      yearlyWinner = await this.winnerHistoryRepository.markAsYearlyWinner(winner.id);
+    } catch (error) {
+      await this.yearlyAwardRepository.delete(award.id);
+      throw error;
+    }
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.YEARLY_AWARD,
+          entityId: award.id,
+          action: AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [{ field: 'winnerEmployeeId', oldValue: null, newValue: winner.employeeId }],
+          metadata: { year: winner.year, method: 'manual', winnerRecordId: winner.id },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return yearlyWinner;
+  }
+
+  /**
+   * Remove the yearly winner flag. A decided workflow award goes back to open so it can be
+   * finalized again; a manual one is removed.
+   */
+  async unmarkWinner(winnerId: string, userContext: UserContext): Promise<WinnerHistory> {
+    const winner = await this.winnerHistoryRepository.findById(winnerId);
+    if (!winner) {
+      throw new Error('Winner not found');
+    }
+    if (!winner.isYearlyWinner) {
+      throw new Error('This winner is not the yearly winner');
+    }
+
+    const award = await this.getAward(winner.year);
+    if (award?.selectionMethod === 'manual') {
+      await this.yearlyAwardRepository.delete(award.id);
+    } else if (award) {
+      await this.yearlyAwardRepository.update({
+        ...award,
+        status: YearlyAwardStatus.OPEN,
+        winnerRecordId: undefined,
+        winnerEmployeeId: undefined,
+        tieBrokenBy: undefined,
+        decidedAt: undefined,
+        decidedBy: undefined,
+        decidedByName: undefined,
+      });
+    }
+    const result = await this.winnerHistoryRepository.unmarkAsYearlyWinner(winnerId);
+
+    // Log audit
+    if (this.auditService) {
+      try {
+        await this.auditService.log({
+          entityType: AuditEntity.YEARLY_AWARD,
+          entityId: this.getAwardId(winner.year),
+          action: AuditAction.UPDATE,
+          userId: userContext.userId,
+          userName: userContext.userName,
+          userEmail: userContext.userEmail,
+          changes: [{ field: 'winnerEmployeeId', oldValue: winner.employeeId, newValue: null }],
+          metadata: { year: winner.year, method: award?.selectionMethod, winnerRecordId: winnerId },
+        });
+      } catch (error) {
+        console.error('Failed to log audit:', error);
+      }
+    }
+
+    return result;
+  }
+
+  private getAwardId(year: number): string {
+    return `yearly-award-${year}`;
+  }
+
+  private async requireOpenAward(year: number): Promise<YearlyAward> {
+    const award = await this.getAward(year);
+    if (!award) {
+      throw new Error(`The ${year} yearly award has not been opened`);
+    }
+    if (award.status === YearlyAwardStatus.DECIDED) {
+      throw new Error(`The ${year} yearly award has already been decided`);
+    }
+    return award;
+  }
+
+  // The award id is the year's, so a second award for the same year is a conflict
+  private async createAward(award: YearlyAward, conflictMessage: string): Promise<YearlyAward> {
+    try {
+      return await this.yearlyAwardRepository.create(award);
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 409) {
+        throw new Error(conflictMessage);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save the decision, then flag the winner record. Cosmos DB has no transactions across
+   * containers, so the decision is undone if the flag can't be written.
+   */
+  private async decideAward(
+    winnerRecordId: string,
+    decided: YearlyAward,
+    open: YearlyAward
+  ): Promise<YearlyAward> {
+    let saved: YearlyAward;
+    try {
+      saved = await this.yearlyAwardRepository.update(decided);
+    } catch (error) {
+      const err = error as { code?: number };
+      if (err?.code === 412) {
+        throw new Error(`The ${decided.year} yearly award was changed by someone else, try again`);
+      }
+      throw error;
+    }
+
+    try {
+      await this.winnerHistoryRepository.markAsYearlyWinner(winnerRecordId);
+    } catch (error) {
+      await this.yearlyAwardRepository.update({ ...open, _etag: saved._etag });
+      throw error;
+    }
+    return saved;
+  }
+
+  // The yearly award is part of the Employee of the Month program
+  private async getPoolWinners(
+    year: number,
+    candidatePool: YearlyCandidatePool
+  ): Promise<WinnerHistory[]> {
+    const winnerType = candidatePool === 'general' ? WinnerType.GENERAL : WinnerType.BY_GROUP;
+    const winners = await this.winnerHistoryRepository.findByYear(year, DEFAULT_PROGRAM_ID);
+    return winners.filter(w => w.winnerType === winnerType && !w.disqualified && !w.superseded);
+  }
+
+  /**
+   * One entry per employee with the months they won
+   */
+  private buildCandidates(winners: WinnerHistory[]): YearlyCandidate[] {
+    const candidates = new Map<string, YearlyCandidate>();
+
+    for (const winner of winners) {
+      const candidate = candidates.get(winner.employeeId) || {
+        employeeId: winner.employeeId,
+        employeeName: winner.employeeName,
+        department: winner.department,
+        position: winner.position,
+        months: [],
+        totalNominations: 0,
+      };
+      candidate.months.push(winner.month);
+      candidate.totalNominations += winner.nominationCount;
+      candidates.set(winner.employeeId, candidate);
+    }
+
+    return Array.from(candidates.values())
+      .map(candidate => ({ ...candidate, months: candidate.months.sort((a, b) => a - b) }))
+      .sort((a, b) => a.months[0] - b.months[0]);
+  }
+}
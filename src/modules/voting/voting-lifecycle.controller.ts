@@ -0,0 +1,94 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext, Timer } from '@azure/functions';
+import { LifecyclePlan } from '../../common/models/Lifecycle';
+import { ResponseHelper } from '../../common/utils/ResponseHelper';
+import { getDependencies } from '../../common/utils/Dependencies';
+import { AuthHelper } from '../../common/utils/AuthHelper';
+import { VOTING_LIFECYCLE_SCHEDULE } from '../../config/env.config';
+
+export class VotingLifecycleController {
+  private dependencies: any;
+
+  constructor(dependencies: any) {
+    this.dependencies = dependencies;
+  }
+
+  async runLifecycleTick(timer: Timer, context: InvocationContext): Promise<void> {
+    if (timer.isPastDue) {
+      context.log('Voting lifecycle timer is running late');
+    }
+
+    try {
+      const plan: LifecyclePlan = await this.dependencies.votingLifecycleService.runTick();
+      if (!plan.config.enabled) {
+        context.log('Voting lifecycle job is disabled, nothing to do');
+        return;
+      }
+
+      for (const action of plan.actions) {
+        context.log(
+          `Lifecycle ${action.type} ${action.votingPeriodId}: ${action.status}${action.error ? ` (${action.error})` : ''}`
+        );
+      }
+    } catch (error) {
+      context.error('Error running voting lifecycle job:', error);
+    }
+  }
+
+  async getDryRun(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const plan = await this.dependencies.votingLifecycleService.planTick();
+      return ResponseHelper.ok(plan);
+    } catch (error) {
+      context.error('Error planning voting lifecycle tick:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+}
+
+// Azure Functions handlers
+const votingLifecycleTimerFunction = async (
+  timer: Timer,
+  context: InvocationContext
+): Promise<void> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingLifecycleController(dependencies);
+  return controller.runLifecycleTick(timer, context);
+};
+
+const lifecycleDryRunFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingLifecycleController(dependencies);
+  return controller.getDryRun(request, context);
+};
+
+app.timer('voting-lifecycle', {
+  schedule: VOTING_LIFECYCLE_SCHEDULE,
+  handler: votingLifecycleTimerFunction,
+});
+
+app.http('voting-lifecycle-dry-run', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'system/lifecycle/dry-run',
+  handler: lifecycleDryRunFunction,
+});
@@ -3,10 +3,19 @@ import { CreateNominationDto } from './dto/create-nomination.dto';
 import { UpdateNominationDto } from './dto/update-nomination.dto';
 import { UpdateVotingPeriodDto } from './dto/update-voting-period.dto';
 import { CreateVotingPeriodDto } from './dto/create-voting-period.dto';
+import { GenerateVotingPeriodsDto } from './dto/generate-voting-periods.dto';
+import { ExtendVotingPeriodDto, ReopenVotingPeriodDto } from './dto/adjust-voting-period.dto';
 import { AddReactionDto } from './dto/add-reaction.dto';
+import { ReviewNominationDto } from './dto/review-nomination.dto';
+import { SelectWinnerDto } from './dto/select-winner.dto';
+import { DisqualifyWinnerDto } from './dto/disqualify-winner.dto';
+import { ApproveCitationDto } from './dto/winner-citation.dto';
+import { CastVoteDto } from './dto/cast-vote.dto';
 import { ResponseHelper } from '../../common/utils/ResponseHelper';
 import { getDependencies } from '../../common/utils/Dependencies';
 import { AuthHelper } from '../../common/utils/AuthHelper';
+import { AuthMiddleware } from '../../common/middleware/AuthMiddleware';
+import { Permission } from '../../common/constants/roles.constants';
 
 export class VotingController {
   private dependencies: any;
@@ -148,6 +157,135 @@ export class VotingController {
     }
   }
 
+  async getModerationQueue(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.NOMINATION_APPROVE)) {
+        return ResponseHelper.forbidden('Moderator access required');
+      }
+
+      // Moderators only see their own voting group unless they ask for a specific one
+      const votingGroup = request.query.get('votingGroup') || user.votingGroup;
+
+      const queue = await this.dependencies.votingService.getModerationQueue(
+        votingGroup || undefined,
+        request.query.get('programId') || undefined
+      );
+      return ResponseHelper.ok(queue);
+    } catch (error) {
+      context.error('Error getting moderation queue:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async approveNomination(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.NOMINATION_APPROVE)) {
+        return ResponseHelper.forbidden('Moderator access required');
+      }
+
+      const id = request.params.id;
+      if (!id) {
+        return ResponseHelper.badRequest('Nomination ID is required');
+      }
+
+      const body = ((await request.json().catch(() => ({}))) || {}) as ReviewNominationDto;
+      const nomination = await this.dependencies.votingService.approveNomination(
+        id,
+        {
+          userId: user.userId,
+          userName: user.username || user.email || 'unknown',
+          userEmail: user.email || undefined,
+        },
+        body.reason
+      );
+
+      context.log(`User ${user.email} approved nomination ${id}`);
+      return ResponseHelper.ok(nomination);
+    } catch (error) {
+      context.error('Error approving nomination:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async rejectNomination(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.NOMINATION_REJECT)) {
+        return ResponseHelper.forbidden('Moderator access required');
+      }
+
+      const id = request.params.id;
+      if (!id) {
+        return ResponseHelper.badRequest('Nomination ID is required');
+      }
+
+      const body = (await request.json()) as ReviewNominationDto;
+      if (!body.reason) {
+        return ResponseHelper.badRequest('Missing required field: reason');
+      }
+
+      const nomination = await this.dependencies.votingService.rejectNomination(
+        id,
+        {
+          userId: user.userId,
+          userName: user.username || user.email || 'unknown',
+          userEmail: user.email || undefined,
+        },
+        body.reason
+      );
+
+      context.log(`User ${user.email} rejected nomination ${id}`);
+      return ResponseHelper.ok(nomination);
+    } catch (error) {
+      context.error('Error rejecting nomination:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
   async createVotingPeriod(
     request: HttpRequest,
     context: InvocationContext
@@ -191,7 +329,8 @@ export class VotingController {
       });
 
       context.log(`User ${user.email} created voting period ${newPeriod.id}`);
-      return ResponseHelper.created(newPeriod);
+      const [response] = await this.dependencies.votingService.withLocalTimes([newPeriod]);
+      return ResponseHelper.created(response);
     } catch (error) {
       context.error('Error creating voting period:', error);
       if (error instanceof Error) {
@@ -201,6 +340,80 @@ export class VotingController {
     }
   }
 
+  async generateVotingPeriods(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      // Only admins can create voting periods
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const body = (await request.json()) as GenerateVotingPeriodsDto;
+      if (!body.count) {
+        return ResponseHelper.badRequest('Missing required field: count');
+      }
+
+      const result = await this.dependencies.votingService.generateVotingPeriods(body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(
+        `User ${user.email} generated ${result.created.length} voting periods from the template`
+      );
+      return ResponseHelper.created({
+        ...result,
+        created: await this.dependencies.votingService.withLocalTimes(result.created),
+      });
+    } catch (error) {
+      context.error('Error generating voting periods:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async checkPeriodConsistency(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const report = await this.dependencies.votingService.checkPeriodConsistency();
+      return ResponseHelper.ok(report);
+    } catch (error) {
+      context.error('Error checking voting period consistency:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
   async getCurrentVoting(
     request: HttpRequest,
     context: InvocationContext
@@ -215,8 +428,15 @@ export class VotingController {
         return authResult.response;
       }
 
-      const voting = await this.dependencies.votingService.getCurrentVotingPeriod();
-      return ResponseHelper.ok(voting);
+      // Without a programId this is the default program's period
+      const voting = await this.dependencies.votingService.getCurrentVotingPeriod(
+        request.query.get('programId') || undefined
+      );
+      if (!voting) {
+        return ResponseHelper.ok(voting);
+      }
+      const [response] = await this.dependencies.votingService.withLocalTimes([voting]);
+      return ResponseHelper.ok(response);
     } catch (error) {
       context.error('Error getting current voting:', error);
       return ResponseHelper.internalServerError();
@@ -234,8 +454,10 @@ export class VotingController {
         return authResult.response;
       }
 
-      const votings = await this.dependencies.votingService.getAllVotingPeriods();
-      return ResponseHelper.ok(votings);
+      const votings = await this.dependencies.votingService.getAllVotingPeriods(
+        request.query.get('programId') || undefined
+      );
+      return ResponseHelper.ok(await this.dependencies.votingService.withLocalTimes(votings));
     } catch (error) {
       context.error('Error getting all voting periods:', error);
       return ResponseHelper.internalServerError();
@@ -267,7 +489,8 @@ export class VotingController {
         return ResponseHelper.notFound('Voting period not found');
       }
 
-      return ResponseHelper.ok(period);
+      const [response] = await this.dependencies.votingService.withLocalTimes([period]);
+      return ResponseHelper.ok(response);
     } catch (error) {
       context.error('Error getting voting period by ID:', error);
       return ResponseHelper.internalServerError();
@@ -293,10 +516,26 @@ export class VotingController {
         return ResponseHelper.badRequest('Voting period ID is required');
       }
 
-      const results = await this.dependencies.votingService.getVotingResults(votingPeriodId);
+      // Results are hidden from regular users until an admin publishes them
+      const includeUnpublished = AuthMiddleware.hasPermission(
+        authResult.user,
+        Permission.VOTING_VIEW_RESULTS
+      );
+      const results = await this.dependencies.votingService.getVisibleVotingResults(
+        votingPeriodId,
+        includeUnpublished
+      );
       return ResponseHelper.ok(results);
     } catch (error) {
       context.error('Error getting voting results:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Voting period not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        if (error.message.includes('not been published')) {
+          return ResponseHelper.forbidden(error.message);
+        }
+      }
       return ResponseHelper.internalServerError();
     }
   }
@@ -333,7 +572,8 @@ export class VotingController {
       );
 
       context.log(`User ${user.email} updated voting period ${votingPeriodId}`);
-      return ResponseHelper.ok(updatedPeriod);
+      const [response] = await this.dependencies.votingService.withLocalTimes([updatedPeriod]);
+      return ResponseHelper.ok(response);
     } catch (error) {
       context.error('Error updating voting period:', error);
       if (error instanceof Error) {
@@ -412,7 +652,8 @@ export class VotingController {
       });
 
       context.log(`User ${user.email} closed voting period ${votingPeriodId}`);
-      return ResponseHelper.ok(result);
+      const [response] = await this.dependencies.votingService.withLocalTimes([result]);
+      return ResponseHelper.ok(response);
     } catch (error) {
       context.error('Error closing voting period:', error);
       if (error instanceof Error) {
@@ -422,7 +663,7 @@ export class VotingController {
     }
   }
 
-  async resetVotingPeriod(
+  async extendVotingPeriod(
     request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
@@ -436,7 +677,6 @@ export class VotingController {
         return authResult.response;
       }
 
-      // Only admins can reset voting periods
       const user = authResult.user;
       if (!user.roles?.includes('admin')) {
         return ResponseHelper.forbidden('Admin access required');
@@ -447,32 +687,42 @@ export class VotingController {
         return ResponseHelper.badRequest('Voting period ID is required');
       }
 
-      const result = await this.dependencies.votingService.resetVotingPeriod(votingPeriodId, {
-        userId: user.userId,
-        userName: user.username,
-        userEmail: user.email,
-      });
-
-      if (result.success) {
-        context.log(
-          `Admin ${user.email} reset voting period ${votingPeriodId}: ${result.nominationsDeleted} nominations and ${result.winnersDeleted} winners deleted`
-        );
-        return ResponseHelper.ok(result);
-      } else {
-        return ResponseHelper.badRequest(result.message);
+      const body = (await request.json()) as ExtendVotingPeriodDto;
+      if (!body.endDate || !body.reason) {
+        return ResponseHelper.badRequest('Missing required fields: endDate, reason');
       }
+
+      const period = await this.dependencies.votingService.extendVotingPeriod(
+        votingPeriodId,
+        body,
+        {
+          userId: user.userId,
+          userName: user.username || user.email || 'unknown',
+          userEmail: user.email || undefined,
+        }
+      );
+
+      context.log(`User ${user.email} extended voting period ${votingPeriodId}: ${body.reason}`);
+      const [response] = await this.dependencies.votingService.withLocalTimes([period]);
+      return ResponseHelper.ok(response);
     } catch (error) {
-      context.error('Error resetting voting period:', error);
+      context.error('Error extending voting period:', error);
       if (error instanceof Error) {
+        if (error.message === 'Voting period not found') {
+          return ResponseHelper.notFound(error.message);
+        }
         return ResponseHelper.badRequest(error.message);
       }
       return ResponseHelper.internalServerError();
     }
   }
 
-  async getWinners(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+  async reopenVotingPeriod(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
     try {
-      if (request.method !== 'GET') {
+      if (request.method !== 'POST') {
         return ResponseHelper.methodNotAllowed();
       }
 
@@ -481,20 +731,52 @@ export class VotingController {
         return authResult.response;
       }
 
-      const winners = await this.dependencies.votingService.getWinners();
-      return ResponseHelper.ok(winners);
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const body = (await request.json()) as ReopenVotingPeriodDto;
+      if (!body.endDate || !body.reason) {
+        return ResponseHelper.badRequest('Missing required fields: endDate, reason');
+      }
+
+      const period = await this.dependencies.votingService.reopenVotingPeriod(
+        votingPeriodId,
+        body,
+        {
+          userId: user.userId,
+          userName: user.username || user.email || 'unknown',
+          userEmail: user.email || undefined,
+        }
+      );
+
+      context.log(`User ${user.email} reopened voting period ${votingPeriodId}: ${body.reason}`);
+      const [response] = await this.dependencies.votingService.withLocalTimes([period]);
+      return ResponseHelper.ok(response);
     } catch (error) {
-      context.error('Error getting winners:', error);
+      context.error('Error reopening voting period:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Voting period not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
       return ResponseHelper.internalServerError();
     }
   }
 
-  async getCurrentWinner(
+  async publishResults(
     request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
     try {
-      if (request.method !== 'GET') {
+      if (request.method !== 'POST') {
         return ResponseHelper.methodNotAllowed();
       }
 
@@ -503,22 +785,34 @@ export class VotingController {
         return authResult.response;
       }
 
-      const winner = await this.dependencies.votingService.getCurrentWinner();
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
 
-      if (!winner) {
-        return ResponseHelper.notFound(
-          'No current winner found. No closed voting periods available.'
-        );
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
       }
 
-      return ResponseHelper.ok(winner);
+      const period = await this.dependencies.votingService.publishResults(votingPeriodId, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(`User ${user.email} published the results of voting period ${votingPeriodId}`);
+      return ResponseHelper.ok(period);
     } catch (error) {
-      context.error('Error getting current winner:', error);
+      context.error('Error publishing voting results:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
       return ResponseHelper.internalServerError();
     }
   }
 
-  async getWinnersGrouped(
+  async getResultsSnapshot(
     request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
@@ -532,16 +826,28 @@ export class VotingController {
         return authResult.response;
       }
 
-      const winnersGrouped = await this.dependencies.votingService.getWinnersGrouped();
-      return ResponseHelper.ok(winnersGrouped);
-    } catch (error) {
-      context.error('Error getting winners grouped:', error);
-      return ResponseHelper.internalServerError();
-    }
-  }
+      if (!AuthMiddleware.hasPermission(authResult.user, Permission.VOTING_VIEW_RESULTS)) {
+        return ResponseHelper.forbidden('Insufficient permissions to view results snapshots');
+      }
 
-  async getMyNominations(
-    request: HttpRequest,
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const snapshot = await this.dependencies.votingService.getResultsSnapshot(votingPeriodId);
+      return ResponseHelper.ok(snapshot);
+    } catch (error) {
+      context.error('Error getting results snapshot:', error);
+      if (error instanceof Error && error.message.includes('No results snapshot')) {
+        return ResponseHelper.notFound(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async compareResultsSnapshot(
+    request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
     try {
@@ -553,17 +859,182 @@ export class VotingController {
       if (!authResult.success) {
         return authResult.response;
       }
+
       const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
 
-      const nomination = await this.dependencies.votingService.getMyNominations(user.username);
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
 
-      if (!nomination) {
+      const drift = await this.dependencies.votingService.compareResultsSnapshot(votingPeriodId);
+      return ResponseHelper.ok(drift);
+    } catch (error) {
+      context.error('Error comparing results snapshot:', error);
+      if (error instanceof Error) {
+        if (
+          error.message === 'Voting period not found' ||
+          error.message.includes('No results snapshot')
+        ) {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async resetVotingPeriod(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      // Only admins can reset voting periods
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const result = await this.dependencies.votingService.resetVotingPeriod(votingPeriodId, {
+        userId: user.userId,
+        userName: user.username,
+        userEmail: user.email,
+      });
+
+      if (result.success) {
+        context.log(
+          `Admin ${user.email} reset voting period ${votingPeriodId}: ${result.nominationsDeleted} nominations and ${result.winnersDeleted} winners deleted`
+        );
+        return ResponseHelper.ok(result);
+      } else {
+        return ResponseHelper.badRequest(result.message);
+      }
+    } catch (error) {
+      context.error('Error resetting voting period:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getWinners(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const winners = await this.dependencies.votingService.getWinners(
+        request.query.get('programId') || undefined,
+        AuthMiddleware.hasPermission(authResult.user, Permission.VOTING_VIEW_RESULTS)
+      );
+      return ResponseHelper.ok(winners);
+    } catch (error) {
+      context.error('Error getting winners:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getCurrentWinner(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const winner = await this.dependencies.votingService.getCurrentWinner(
+        request.query.get('programId') || undefined,
+        AuthMiddleware.hasPermission(authResult.user, Permission.VOTING_VIEW_RESULTS)
+      );
+
+      if (!winner) {
         return ResponseHelper.notFound(
-          'No nomination found for the current user in the active voting period'
+          'No current winner found. No closed voting periods available.'
         );
       }
 
-      return ResponseHelper.ok(nomination);
+      return ResponseHelper.ok(winner);
+    } catch (error) {
+      context.error('Error getting current winner:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getWinnersGrouped(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const winnersGrouped = await this.dependencies.votingService.getWinnersGrouped(
+        request.query.get('programId') || undefined,
+        AuthMiddleware.hasPermission(authResult.user, Permission.VOTING_VIEW_RESULTS)
+      );
+      return ResponseHelper.ok(winnersGrouped);
+    } catch (error) {
+      context.error('Error getting winners grouped:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getMyNominations(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+      const user = authResult.user;
+
+      const nominations = await this.dependencies.votingService.getMyNominations(
+        user.username,
+        request.query.get('programId') || undefined
+      );
+
+      return ResponseHelper.ok(nominations);
     } catch (error) {
       context.error('Error getting my nominations:', error);
       return ResponseHelper.internalServerError();
@@ -598,24 +1069,256 @@ export class VotingController {
       const limit = request.query.get('limit');
       const continuationToken = request.query.get('continuationToken');
 
-      const result = await this.dependencies.votingService.getNominationsForCurrentPeriodPaginated({
-        limit: limit ? parseInt(limit) : undefined,
-        continuationToken: continuationToken || undefined,
-      });
+      const result = await this.dependencies.votingService.getNominationsForCurrentPeriodPaginated(
+        {
+          limit: limit ? parseInt(limit) : undefined,
+          continuationToken: continuationToken || undefined,
+        },
+        request.query.get('programId') || undefined
+      );
 
       return ResponseHelper.paginated(result);
     } catch (error) {
-      context.error('Error getting paginated nominations:', error);
+      context.error('Error getting paginated nominations:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async selectRandomWinner(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET' && request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      // A reason is only needed to redraw, and only admins may redraw or record a committee choice
+      const selectData: SelectWinnerDto =
+        request.method === 'POST'
+          ? ((await request.json()) as SelectWinnerDto)
+          : {
+              reason: request.query.get('reason') || undefined,
+              committeeEmployeeId: request.query.get('committeeEmployeeId') || undefined,
+            };
+
+      const user = authResult.user;
+      if (selectData.reason && !user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required to redraw a winner');
+      }
+      if (selectData.committeeEmployeeId && !user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required to record a committee decision');
+      }
+
+      const userContext = {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      };
+
+      const winner = await this.dependencies.votingService.selectGeneralWinner(votingPeriodId, {
+        redrawReason: selectData.reason,
+        committeeEmployeeId: selectData.committeeEmployeeId,
+        userContext,
+      });
+      return ResponseHelper.ok(winner);
+    } catch (error) {
+      context.error('Error selecting random winner:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async verifyWinnerDraw(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      // Public on purpose: anyone can check how the general winner was drawn once the period is
+      // published. Before that, only a signed-in viewer allowed to see unpublished results can.
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const user = await AuthMiddleware.validateToken(request, context);
+      const includeUnpublished =
+        !!user && AuthMiddleware.hasPermission(user, Permission.VOTING_VIEW_RESULTS);
+
+      // winnerId picks an earlier draw of the period, replaced by a redraw
+      const verification = await this.dependencies.votingService.verifyWinnerDraw(
+        votingPeriodId,
+        request.query.get('winnerId') || undefined,
+        includeUnpublished
+      );
+      return ResponseHelper.ok(verification);
+    } catch (error) {
+      context.error('Error verifying winner draw:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Voting period not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        if (error.message.includes('not been published')) {
+          return ResponseHelper.forbidden(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getWinnerHistory(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const year = request.query.get('year');
+      const month = request.query.get('month');
+      const winnerType = request.query.get('winnerType');
+      const programId = request.query.get('programId') || undefined;
+      const includeUnpublished = AuthMiddleware.hasPermission(
+        authResult.user,
+        Permission.VOTING_VIEW_RESULTS
+      );
+
+      let history;
+      if (year && month) {
+        history = await this.dependencies.votingService.getWinnerHistoryByYearAndMonth(
+          parseInt(year),
+          parseInt(month),
+          winnerType || undefined,
+          programId,
+          includeUnpublished
+        );
+      } else if (year) {
+        history = await this.dependencies.votingService.getWinnerHistoryByYear(
+          parseInt(year),
+          winnerType || undefined,
+          programId,
+          includeUnpublished
+        );
+      } else {
+        history = await this.dependencies.votingService.getWinnerHistory(
+          programId,
+          includeUnpublished
+        );
+      }
+
+      return ResponseHelper.ok(history);
+    } catch (error) {
+      context.error('Error getting winner history:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getYearlyWinners(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const year = request.query.get('year');
+      const includeUnpublished = AuthMiddleware.hasPermission(
+        authResult.user,
+        Permission.VOTING_VIEW_RESULTS
+      );
+
+      let yearlyWinners;
+      if (year) {
+        const winner = await this.dependencies.votingService.getYearlyWinnerByYear(
+          parseInt(year),
+          includeUnpublished
+        );
+        yearlyWinners = winner ? [winner] : [];
+      } else {
+        yearlyWinners = await this.dependencies.votingService.getYearlyWinners(includeUnpublished);
+      }
+
+      return ResponseHelper.ok(yearlyWinners);
+    } catch (error) {
+      context.error('Error getting yearly winners:', error);
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async markYearlyWinner(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const winnerId = request.params.winnerId;
+      if (!winnerId) {
+        return ResponseHelper.badRequest('Winner ID is required');
+      }
+
+      const yearlyWinner = await this.dependencies.yearlyAwardService.markWinner(winnerId, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+      return ResponseHelper.ok(yearlyWinner);
+    } catch (error) {
+      context.error('Error marking yearly winner:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
       return ResponseHelper.internalServerError();
     }
   }
 
-  async selectRandomWinner(
+  async unmarkYearlyWinner(
     request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
     try {
-      if (request.method !== 'GET') {
+      if (request.method !== 'DELETE') {
         return ResponseHelper.methodNotAllowed();
       }
 
@@ -624,16 +1327,24 @@ export class VotingController {
         return authResult.response;
       }
 
-      const votingPeriodId = request.params.votingPeriodId;
-      if (!votingPeriodId) {
-        return ResponseHelper.badRequest('Voting period ID is required');
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
       }
 
-      const winner =
-        await this.dependencies.votingService.selectRandomWinnerFromAll(votingPeriodId);
+      const winnerId = request.params.winnerId;
+      if (!winnerId) {
+        return ResponseHelper.badRequest('Winner ID is required');
+      }
+
+      const winner = await this.dependencies.yearlyAwardService.unmarkWinner(winnerId, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
       return ResponseHelper.ok(winner);
     } catch (error) {
-      context.error('Error selecting random winner:', error);
+      context.error('Error unmarking yearly winner:', error);
       if (error instanceof Error) {
         return ResponseHelper.badRequest(error.message);
       }
@@ -641,12 +1352,12 @@ export class VotingController {
     }
   }
 
-  async getWinnerHistory(
+  async disqualifyWinner(
     request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
     try {
-      if (request.method !== 'GET') {
+      if (request.method !== 'POST') {
         return ResponseHelper.methodNotAllowed();
       }
 
@@ -655,34 +1366,42 @@ export class VotingController {
         return authResult.response;
       }
 
-      const year = request.query.get('year');
-      const month = request.query.get('month');
-      const winnerType = request.query.get('winnerType');
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
 
-      let history;
-      if (year && month) {
-        history = await this.dependencies.votingService.getWinnerHistoryByYearAndMonth(
-          parseInt(year),
-          parseInt(month),
-          winnerType || undefined
-        );
-      } else if (year) {
-        history = await this.dependencies.votingService.getWinnerHistoryByYear(
-          parseInt(year),
-          winnerType || undefined
-        );
-      } else {
-        history = await this.dependencies.votingService.getWinnerHistory();
+      const winnerId = request.params.winnerId;
+      if (!winnerId) {
+        return ResponseHelper.badRequest('Winner ID is required');
       }
 
-      return ResponseHelper.ok(history);
+      const body = (await request.json()) as DisqualifyWinnerDto;
+      if (!body.reason) {
+        return ResponseHelper.badRequest('Missing required field: reason');
+      }
+
+      const result = await this.dependencies.votingService.disqualifyWinner(winnerId, body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(`User ${user.email} disqualified winner ${winnerId}: ${body.reason}`);
+      return ResponseHelper.ok(result);
     } catch (error) {
-      context.error('Error getting winner history:', error);
+      context.error('Error disqualifying winner:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Winner not found' || error.message === 'Voting period not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
       return ResponseHelper.internalServerError();
     }
   }
 
-  async getYearlyWinners(
+  async getCitationDraft(
     request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
@@ -696,29 +1415,36 @@ export class VotingController {
         return authResult.response;
       }
 
-      const year = request.query.get('year');
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
 
-      let yearlyWinners;
-      if (year) {
-        const winner = await this.dependencies.votingService.getYearlyWinnerByYear(parseInt(year));
-        yearlyWinners = winner ? [winner] : [];
-      } else {
-        yearlyWinners = await this.dependencies.votingService.getYearlyWinners();
+      const winnerId = request.params.winnerId;
+      if (!winnerId) {
+        return ResponseHelper.badRequest('Winner ID is required');
       }
 
-      return ResponseHelper.ok(yearlyWinners);
+      const draft = await this.dependencies.citationService.getCitationDraft(winnerId);
+      return ResponseHelper.ok(draft);
     } catch (error) {
-      context.error('Error getting yearly winners:', error);
+      context.error('Error getting winner citation:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Winner not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        return ResponseHelper.badRequest(error.message);
+      }
       return ResponseHelper.internalServerError();
     }
   }
 
-  async markYearlyWinner(
+  async approveCitation(
     request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
     try {
-      if (request.method !== 'POST') {
+      if (request.method !== 'PUT') {
         return ResponseHelper.methodNotAllowed();
       }
 
@@ -727,23 +1453,42 @@ export class VotingController {
         return authResult.response;
       }
 
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
       const winnerId = request.params.winnerId;
       if (!winnerId) {
         return ResponseHelper.badRequest('Winner ID is required');
       }
 
-      const yearlyWinner = await this.dependencies.votingService.markWinnerAsYearly(winnerId);
-      return ResponseHelper.ok(yearlyWinner);
+      const body = (await request.json()) as ApproveCitationDto;
+      if (!body.quotes) {
+        return ResponseHelper.badRequest('Missing required field: quotes');
+      }
+
+      const winner = await this.dependencies.citationService.approveCitation(winnerId, body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(`User ${user.email} approved the citation of winner ${winnerId}`);
+      return ResponseHelper.ok(winner);
     } catch (error) {
-      context.error('Error marking yearly winner:', error);
+      context.error('Error approving winner citation:', error);
       if (error instanceof Error) {
+        if (error.message === 'Winner not found') {
+          return ResponseHelper.notFound(error.message);
+        }
         return ResponseHelper.badRequest(error.message);
       }
       return ResponseHelper.internalServerError();
     }
   }
 
-  async unmarkYearlyWinner(
+  async removeCitation(
     request: HttpRequest,
     context: InvocationContext
   ): Promise<HttpResponseInit> {
@@ -757,16 +1502,30 @@ export class VotingController {
         return authResult.response;
       }
 
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
       const winnerId = request.params.winnerId;
       if (!winnerId) {
         return ResponseHelper.badRequest('Winner ID is required');
       }
 
-      const winner = await this.dependencies.votingService.unmarkWinnerAsYearly(winnerId);
+      const winner = await this.dependencies.citationService.removeCitation(winnerId, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(`User ${user.email} removed the citation of winner ${winnerId}`);
       return ResponseHelper.ok(winner);
     } catch (error) {
-      context.error('Error unmarking yearly winner:', error);
+      context.error('Error removing winner citation:', error);
       if (error instanceof Error) {
+        if (error.message === 'Winner not found') {
+          return ResponseHelper.notFound(error.message);
+        }
         return ResponseHelper.badRequest(error.message);
       }
       return ResponseHelper.internalServerError();
@@ -793,14 +1552,27 @@ export class VotingController {
       }
 
       const votingPeriodId = request.query.get('votingPeriodId');
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
 
+      // Hidden from regular users until an admin publishes the period's results
       const results = await this.dependencies.votingService.getNominationsByEmployeeId(
         employeeId,
-        votingPeriodId
+        votingPeriodId,
+        AuthMiddleware.hasPermission(authResult.user, Permission.VOTING_VIEW_RESULTS)
       );
       return ResponseHelper.ok(results);
     } catch (error) {
       context.error('Error getting employee results:', error);
+      if (error instanceof Error) {
+        if (error.message === 'Voting period not found') {
+          return ResponseHelper.notFound(error.message);
+        }
+        if (error.message.includes('not been published')) {
+          return ResponseHelper.forbidden(error.message);
+        }
+      }
       return ResponseHelper.internalServerError();
     }
   }
@@ -825,14 +1597,17 @@ export class VotingController {
         return ResponseHelper.forbidden('Admin access required');
       }
 
-      const body = (await request.json()) as { count?: number };
+      const body = (await request.json()) as { count?: number; programId?: string };
       const count = body.count || 10;
 
       if (count < 1) {
         return ResponseHelper.badRequest('Count must be between 1 and 1000');
       }
 
-      const result = await this.dependencies.votingService.createBulkNominationsForTesting(count);
+      const result = await this.dependencies.votingService.createBulkNominationsForTesting(
+        count,
+        body.programId
+      );
 
       context.log(
         `Admin ${user.email} created ${result.created} bulk nominations for testing (${result.failed} failed)`
@@ -904,29 +1679,159 @@ export class VotingController {
       if (!authResult.success) {
         return authResult.response;
       }
-      const user = authResult.user;
-
-      const winnerId = request.params.winnerId;
-      const emoji = request.params.emoji;
-
-      if (!winnerId) {
-        return ResponseHelper.badRequest('Winner ID is required');
-      }
+      const user = authResult.user;
+
+      const winnerId = request.params.winnerId;
+      const emoji = request.params.emoji;
+
+      if (!winnerId) {
+        return ResponseHelper.badRequest('Winner ID is required');
+      }
+
+      if (!emoji) {
+        return ResponseHelper.badRequest('Emoji is required');
+      }
+
+      const winner = await this.dependencies.votingService.removeReactionFromWinner(
+        winnerId,
+        user.userId,
+        decodeURIComponent(emoji)
+      );
+
+      context.log(`User ${user.email} removed reaction ${emoji} from winner ${winnerId}`);
+      return ResponseHelper.ok(winner);
+    } catch (error) {
+      context.error('Error removing reaction from winner:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getWinnerReactions(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const winnerId = request.params.winnerId;
+      if (!winnerId) {
+        return ResponseHelper.badRequest('Winner ID is required');
+      }
+
+      const reactions = await this.dependencies.votingService.getWinnerReactions(winnerId);
+      return ResponseHelper.ok(reactions);
+    } catch (error) {
+      context.error('Error getting winner reactions:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getVotingPeriodAuditHistory(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const auditHistory =
+        await this.dependencies.votingService.getVotingPeriodAuditHistory(votingPeriodId);
+      return ResponseHelper.ok(auditHistory);
+    } catch (error) {
+      context.error('Error getting voting period audit history:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getCrossGroupNominations(
+    request: HttpRequest,
+    context: InvocationContext
+  ): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const nominations =
+        await this.dependencies.votingService.getCrossGroupNominations(votingPeriodId);
+      return ResponseHelper.ok(nominations);
+    } catch (error) {
+      context.error('Error getting cross-group nominations:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getShortlist(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
 
-      if (!emoji) {
-        return ResponseHelper.badRequest('Emoji is required');
+      const user = authResult.user;
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
       }
 
-      const winner = await this.dependencies.votingService.removeReactionFromWinner(
-        winnerId,
-        user.userId,
-        decodeURIComponent(emoji)
+      // Voters see the ballot of their own voting group unless another one is requested
+      const votingGroup = request.query.get('votingGroup') || user.votingGroup;
+      const shortlist = await this.dependencies.votingService.getShortlist(
+        votingPeriodId,
+        votingGroup
       );
-
-      context.log(`User ${user.email} removed reaction ${emoji} from winner ${winnerId}`);
-      return ResponseHelper.ok(winner);
+      return ResponseHelper.ok(shortlist);
     } catch (error) {
-      context.error('Error removing reaction from winner:', error);
+      context.error('Error getting shortlist:', error);
       if (error instanceof Error) {
         return ResponseHelper.badRequest(error.message);
       }
@@ -934,12 +1839,9 @@ export class VotingController {
     }
   }
 
-  async getWinnerReactions(
-    request: HttpRequest,
-    context: InvocationContext
-  ): Promise<HttpResponseInit> {
+  async castVote(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
     try {
-      if (request.method !== 'GET') {
+      if (request.method !== 'POST') {
         return ResponseHelper.methodNotAllowed();
       }
 
@@ -948,15 +1850,30 @@ export class VotingController {
         return authResult.response;
       }
 
-      const winnerId = request.params.winnerId;
-      if (!winnerId) {
-        return ResponseHelper.badRequest('Winner ID is required');
+      const user = authResult.user;
+      if (!AuthMiddleware.hasPermission(user, Permission.VOTING_VOTE)) {
+        return ResponseHelper.forbidden('You do not have permission to vote');
       }
 
-      const reactions = await this.dependencies.votingService.getWinnerReactions(winnerId);
-      return ResponseHelper.ok(reactions);
+      const votingPeriodId = request.params.votingPeriodId;
+      if (!votingPeriodId) {
+        return ResponseHelper.badRequest('Voting period ID is required');
+      }
+
+      const body = (await request.json()) as CastVoteDto;
+      if (!body.nominatedEmployeeId) {
+        return ResponseHelper.badRequest('Missing required field: nominatedEmployeeId');
+      }
+
+      const vote = await this.dependencies.votingService.castVote(votingPeriodId, body, {
+        userId: user.userId,
+        userName: user.username,
+      });
+
+      context.log(`User ${user.email} voted in voting period ${votingPeriodId}`);
+      return ResponseHelper.created(vote);
     } catch (error) {
-      context.error('Error getting winner reactions:', error);
+      context.error('Error casting vote:', error);
       if (error instanceof Error) {
         return ResponseHelper.badRequest(error.message);
       }
@@ -964,10 +1881,7 @@ export class VotingController {
     }
   }
 
-  async getVotingPeriodAuditHistory(
-    request: HttpRequest,
-    context: InvocationContext
-  ): Promise<HttpResponseInit> {
+  async getMyVote(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
     try {
       if (request.method !== 'GET') {
         return ResponseHelper.methodNotAllowed();
@@ -978,19 +1892,16 @@ export class VotingController {
         return authResult.response;
       }
 
+      const user = authResult.user;
       const votingPeriodId = request.params.votingPeriodId;
       if (!votingPeriodId) {
         return ResponseHelper.badRequest('Voting period ID is required');
       }
 
-      const auditHistory =
-        await this.dependencies.votingService.getVotingPeriodAuditHistory(votingPeriodId);
-      return ResponseHelper.ok(auditHistory);
+      const vote = await this.dependencies.votingService.getMyVote(votingPeriodId, user.userId);
+      return ResponseHelper.ok(vote);
     } catch (error) {
-      context.error('Error getting voting period audit history:', error);
-      if (error instanceof Error) {
-        return ResponseHelper.badRequest(error.message);
-      }
+      context.error('Error getting my vote:', error);
       return ResponseHelper.internalServerError();
     }
   }
@@ -1252,6 +2163,54 @@ app.http('nomination-by-id', {
   handler: nominationByIdFunction,
 });
 
+const getModerationQueueFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.getModerationQueue(request, context);
+};
+
+const approveNominationFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.approveNomination(request, context);
+};
+
+const rejectNominationFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.rejectNomination(request, context);
+};
+
+app.http('get-moderation-queue', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'nominations/moderation/queue',
+  handler: getModerationQueueFunction,
+});
+
+app.http('approve-nomination', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'nominations/{id}/approve',
+  handler: approveNominationFunction,
+});
+
+app.http('reject-nomination', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'nominations/{id}/reject',
+  handler: rejectNominationFunction,
+});
+
 app.http('get-current-voting', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
@@ -1356,12 +2315,28 @@ app.http('get-nominations-current-period-paginated', {
 });
 
 app.http('select-random-winner', {
-  methods: ['GET', 'OPTIONS'],
+  methods: ['GET', 'POST', 'OPTIONS'],
   authLevel: 'anonymous',
   route: 'voting/{votingPeriodId}/select-winner',
   handler: selectRandomWinnerFunction,
 });
 
+const verifyWinnerDrawFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.verifyWinnerDraw(request, context);
+};
+
+app.http('verify-winner-draw', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/draw/verify',
+  handler: verifyWinnerDrawFunction,
+});
+
 app.http('get-winner-history', {
   methods: ['GET', 'OPTIONS'],
   authLevel: 'anonymous',
@@ -1441,3 +2416,221 @@ app.http('get-winners-by-voting-period-id', {
   route: 'voting/{votingPeriodId}/winners',
   handler: getWinnersByVotingPeriodIdFunction,
 });
+
+const getCrossGroupNominationsFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.getCrossGroupNominations(request, context);
+};
+
+app.http('get-cross-group-nominations', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/cross-group-nominations',
+  handler: getCrossGroupNominationsFunction,
+});
+
+const getShortlistFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.getShortlist(request, context);
+};
+
+app.http('get-voting-shortlist', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/shortlist',
+  handler: getShortlistFunction,
+});
+
+const castVoteFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.castVote(request, context);
+};
+
+app.http('cast-vote', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/votes',
+  handler: castVoteFunction,
+});
+
+const getMyVoteFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.getMyVote(request, context);
+};
+
+app.http('get-my-vote', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/votes/my',
+  handler: getMyVoteFunction,
+});
+
+const generateVotingPeriodsFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.generateVotingPeriods(request, context);
+};
+
+app.http('generate-voting-periods', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting-periods/generate',
+  handler: generateVotingPeriodsFunction,
+});
+
+const publishResultsFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.publishResults(request, context);
+};
+
+app.http('publish-voting-results', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/publish',
+  handler: publishResultsFunction,
+});
+
+const getResultsSnapshotFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.getResultsSnapshot(request, context);
+};
+
+const compareResultsSnapshotFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.compareResultsSnapshot(request, context);
+};
+
+app.http('get-results-snapshot', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/results/snapshot',
+  handler: getResultsSnapshotFunction,
+});
+
+app.http('compare-results-snapshot', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/results/drift',
+  handler: compareResultsSnapshotFunction,
+});
+
+const extendVotingPeriodFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.extendVotingPeriod(request, context);
+};
+
+const reopenVotingPeriodFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.reopenVotingPeriod(request, context);
+};
+
+app.http('extend-voting-period', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/extend',
+  handler: extendVotingPeriodFunction,
+});
+
+app.http('reopen-voting-period', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/{votingPeriodId}/reopen',
+  handler: reopenVotingPeriodFunction,
+});
+
+const checkPeriodConsistencyFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.checkPeriodConsistency(request, context);
+};
+
+app.http('check-period-consistency', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'system/periods/check',
+  handler: checkPeriodConsistencyFunction,
+});
+
+const disqualifyWinnerFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+  return controller.disqualifyWinner(request, context);
+};
+
+app.http('disqualify-winner', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/winners/{winnerId}/disqualify',
+  handler: disqualifyWinnerFunction,
+});
+
+const winnerCitationFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new VotingController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getCitationDraft(request, context);
+    case 'PUT':
+      return controller.approveCitation(request, context);
+    case 'DELETE':
+      return controller.removeCitation(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+app.http('winner-citation', {
+  methods: ['GET', 'PUT', 'DELETE', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/winners/{winnerId}/citation',
+  handler: winnerCitationFunction,
+});
@@ -0,0 +1,351 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { CastRankedBallotDto } from './dto/ranked-ballot.dto';
+import { FinalizeYearlyAwardDto, OpenYearlyAwardDto } from './dto/yearly-award.dto';
+import { ResponseHelper } from '../../common/utils/ResponseHelper';
+import { getDependencies } from '../../common/utils/Dependencies';
+import { AuthHelper } from '../../common/utils/AuthHelper';
+import { AuthMiddleware } from '../../common/middleware/AuthMiddleware';
+import { Permission } from '../../common/constants/roles.constants';
+
+export class YearlyAwardController {
+  private dependencies: any;
+
+  constructor(dependencies: any) {
+    this.dependencies = dependencies;
+  }
+
+  async getAward(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const year = parseInt(request.params.year);
+      if (isNaN(year)) {
+        return ResponseHelper.badRequest('A valid year is required');
+      }
+
+      const award = await this.dependencies.yearlyAwardService.getAward(year);
+      if (!award) {
+        return ResponseHelper.notFound(`The ${year} yearly award has not been opened`);
+      }
+      return ResponseHelper.ok(award);
+    } catch (error) {
+      context.error('Error getting yearly award:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async openAward(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const year = parseInt(request.params.year);
+      if (isNaN(year)) {
+        return ResponseHelper.badRequest('A valid year is required');
+      }
+
+      const body = ((await request.json().catch(() => ({}))) || {}) as OpenYearlyAwardDto;
+
+      const award = await this.dependencies.yearlyAwardService.openAward(year, body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(
+        `User ${user.email} opened the ${year} yearly award (${award.selectionMethod}, ${award.candidates.length} candidates)`
+      );
+      return ResponseHelper.created(award);
+    } catch (error) {
+      context.error('Error opening yearly award:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getCandidates(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const year = parseInt(request.params.year);
+      if (isNaN(year)) {
+        return ResponseHelper.badRequest('A valid year is required');
+      }
+
+      const candidates = await this.dependencies.yearlyAwardService.getCandidates(year);
+      return ResponseHelper.ok(candidates);
+    } catch (error) {
+      context.error('Error getting yearly award candidates:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getMyBallot(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      const year = parseInt(request.params.year);
+      if (isNaN(year)) {
+        return ResponseHelper.badRequest('A valid year is required');
+      }
+
+      const ballot = await this.dependencies.yearlyAwardService.getMyBallot(year, user.userId);
+      return ResponseHelper.ok(ballot);
+    } catch (error) {
+      context.error('Error getting my ranked ballot:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async castBallot(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      // Judges make up the committee for a committee vote
+      const isCommitteeMember = AuthMiddleware.hasPermission(user, Permission.JUDGING_SCORE);
+      if (!AuthMiddleware.hasPermission(user, Permission.VOTING_VOTE) && !isCommitteeMember) {
+        return ResponseHelper.forbidden('You do not have permission to vote');
+      }
+
+      const year = parseInt(request.params.year);
+      if (isNaN(year)) {
+        return ResponseHelper.badRequest('A valid year is required');
+      }
+
+      const body = (await request.json()) as CastRankedBallotDto;
+
+      const ballot = await this.dependencies.yearlyAwardService.castBallot(year, body, {
+        userId: user.userId,
+        userName: user.username,
+        isCommitteeMember,
+      });
+
+      context.log(`User ${user.email} cast a ranked ballot for the ${year} yearly award`);
+      return ResponseHelper.created(ballot);
+    } catch (error) {
+      context.error('Error casting ranked ballot:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async getRunoff(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'GET') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const year = parseInt(request.params.year);
+      if (isNaN(year)) {
+        return ResponseHelper.badRequest('A valid year is required');
+      }
+
+      const runoff = await this.dependencies.yearlyAwardService.getRunoff(year);
+      return ResponseHelper.ok(runoff);
+    } catch (error) {
+      context.error('Error getting yearly runoff:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+
+  async finalizeAward(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
+    try {
+      if (request.method !== 'POST') {
+        return ResponseHelper.methodNotAllowed();
+      }
+
+      const authResult = await AuthHelper.requireAuth(request, context);
+      if (!authResult.success) {
+        return authResult.response;
+      }
+
+      const user = authResult.user;
+      if (!user.roles?.includes('admin')) {
+        return ResponseHelper.forbidden('Admin access required');
+      }
+
+      const year = parseInt(request.params.year);
+      if (isNaN(year)) {
+        return ResponseHelper.badRequest('A valid year is required');
+      }
+
+      const body = ((await request.json().catch(() => ({}))) || {}) as FinalizeYearlyAwardDto;
+
+      const result = await this.dependencies.yearlyAwardService.finalizeAward(year, body, {
+        userId: user.userId,
+        userName: user.username || user.email || 'unknown',
+        userEmail: user.email || undefined,
+      });
+
+      context.log(
+        `User ${user.email} finalized the ${year} yearly award: ${result.award.winnerEmployeeId}`
+      );
+      return ResponseHelper.ok(result);
+    } catch (error) {
+      context.error('Error finalizing yearly award:', error);
+      if (error instanceof Error) {
+        return ResponseHelper.badRequest(error.message);
+      }
+      return ResponseHelper.internalServerError();
+    }
+  }
+}
+
+// Azure Functions handlers
+const yearlyAwardFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new YearlyAwardController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getAward(request, context);
+    case 'POST':
+      return controller.openAward(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const getCandidatesFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new YearlyAwardController(dependencies);
+  return controller.getCandidates(request, context);
+};
+
+const rankedBallotsFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new YearlyAwardController(dependencies);
+
+  switch (request.method) {
+    case 'GET':
+      return controller.getMyBallot(request, context);
+    case 'POST':
+      return controller.castBallot(request, context);
+    default:
+      return ResponseHelper.methodNotAllowed();
+  }
+};
+
+const getRunoffFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new YearlyAwardController(dependencies);
+  return controller.getRunoff(request, context);
+};
+
+const finalizeAwardFunction = async (
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const dependencies = await getDependencies();
+  const controller = new YearlyAwardController(dependencies);
+  return controller.finalizeAward(request, context);
+};
+
+app.http('yearly-award', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/yearly/{year}',
+  handler: yearlyAwardFunction,
+});
+
+app.http('yearly-award-candidates', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/yearly/{year}/candidates',
+  handler: getCandidatesFunction,
+});
+
+app.http('yearly-award-ballots', {
+  methods: ['GET', 'POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/yearly/{year}/ballots',
+  handler: rankedBallotsFunction,
+});
+
+app.http('yearly-award-runoff', {
+  methods: ['GET', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/yearly/{year}/runoff',
+  handler: getRunoffFunction,
+});
+
+app.http('yearly-award-finalize', {
+  methods: ['POST', 'OPTIONS'],
+  authLevel: 'anonymous',
+  route: 'voting/yearly/{year}/finalize',
+  handler: finalizeAwardFunction,
+});